@@ -24,6 +24,9 @@ import NotionWorkspace from "@/pages/NotionWorkspace";
 import ForgotPassword from "@/pages/ForgotPassword";
 import VerifyResetCode from "@/pages/VerifyResetCode";
 import ResetPassword from "@/pages/ResetPassword";
+import AcceptInvite from "@/pages/AcceptInvite";
+import MfaEnrollment from "@/pages/MfaEnrollment";
+import VerifyEmail from "@/pages/VerifyEmail";
 import Sidebar from "@/components/Layout/Sidebar";
 import Header from "@/components/Layout/Header";
 import { useState, useEffect } from "react";
@@ -43,17 +46,28 @@ function Redirect({ to }: { to: string }) {
 function Router() {
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [location, setLocation] = useLocation();
-  const { isAuthenticated } = useAuth();
+  const { user, isAuthenticated, isLoading } = useAuth();
 
   // Redirect to landing if not authenticated and trying to access protected routes
   useEffect(() => {
-    if (!isAuthenticated && location !== "/login" && location !== "/landing" && location !== "/" && location !== "/forgot-password" && location !== "/verify-reset-code" && !location.startsWith("/reset-password")) {
+    if (isLoading) return;
+    // The org MFA policy blocks every other page until the user enrolls
+    if (user?.mfaEnrollmentRequired && location !== "/mfa-setup") {
+      setLocation("/mfa-setup");
+      return;
+    }
+    if (!isAuthenticated && location !== "/login" && location !== "/landing" && location !== "/" && location !== "/forgot-password" && location !== "/verify-reset-code" && !location.startsWith("/reset-password") && !location.startsWith("/accept-invite") && !location.startsWith("/verify-email")) {
       setLocation("/landing");
     }
-  }, [isAuthenticated, location, setLocation]);
+  }, [user, isAuthenticated, isLoading, location, setLocation]);
+
+  // Wait for the session check before deciding which layout to render
+  if (isLoading) {
+    return null;
+  }
 
   // Check if current route should show the dashboard layout
-  const isDashboardRoute = location !== "/landing" && location !== "/login" && location !== "/forgot-password" && location !== "/verify-reset-code" && !location.startsWith("/reset-password") && isAuthenticated;
+  const isDashboardRoute = location !== "/landing" && location !== "/login" && location !== "/forgot-password" && location !== "/verify-reset-code" && !location.startsWith("/reset-password") && !location.startsWith("/accept-invite") && location !== "/mfa-setup" && !location.startsWith("/verify-email") && isAuthenticated;
 
   if (!isDashboardRoute) {
     // Render landing or login page without dashboard layout
@@ -65,6 +79,9 @@ function Router() {
         <Route path="/forgot-password" component={ForgotPassword} />
         <Route path="/verify-reset-code" component={VerifyResetCode} />
         <Route path="/reset-password" component={ResetPassword} />
+        <Route path="/accept-invite" component={AcceptInvite} />
+        <Route path="/mfa-setup" component={MfaEnrollment} />
+        <Route path="/verify-email" component={VerifyEmail} />
       </Switch>
     );
   }
@@ -80,8 +97,8 @@ function Router() {
               <Route path="/" component={Dashboard} />
               <Route path="/analytics" component={Analytics} />
               <Route path="/analytics/advanced" component={AdvancedAnalytics} />
-              <Route path="/servicenow/incidents" component={IncidentManagement} />
-              <Route path="/incidents" component={IncidentManagement} />
+              <Route path="/servicenow/incidents"><IncidentManagement source="servicenow" /></Route>
+              <Route path="/incidents"><IncidentManagement /></Route>
               <Route path="/slack/commands" component={SlackCommands} />
               <Route path="/slack/interface" component={SlackInterface} />
               <Route path="/notion/workspace" component={NotionWorkspace} />
@@ -23,6 +23,7 @@ interface MetricsData {
   activeIncidents?: number;
   criticalIncidents?: number;
   dataSourcesActive?: number;
+  dataSourcesPaused?: number;
 }
 
 interface MetricsCardsProps {
@@ -55,8 +56,8 @@ export default function MetricsCards({ metrics, isLoading }: MetricsCardsProps)
     {
       title: "Data Sources",
       value: metrics?.dataSourcesActive?.toString() || "0",
-      change: "Live monitoring",
-      changeType: "positive" as const,
+      change: (metrics?.dataSourcesPaused || 0) > 0 ? `${metrics?.dataSourcesPaused} paused after failures` : "Live monitoring",
+      changeType: (metrics?.dataSourcesPaused || 0) > 0 ? "warning" as const : "positive" as const,
       icon: Database,
       color: "blue",
       href: "/integrations",
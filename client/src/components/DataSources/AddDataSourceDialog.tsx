@@ -0,0 +1,295 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CheckCircle, Plug, XCircle } from "lucide-react";
+import type { ConnectorConfigField, ConnectorDescriptor } from "@shared/schema";
+
+type FieldValues = Record<string, string | boolean>;
+
+interface ConnectionTestResult {
+  ok: boolean;
+  message: string;
+}
+
+const capabilityLabels: Record<ConnectorDescriptor["capabilities"][number], string> = {
+  incidents: "Incidents",
+  components: "Components",
+  updates: "Timelines",
+  knowledge: "Knowledge",
+  tickets: "Support tickets",
+  webhooks: "Webhooks",
+  write_back: "Write-back",
+};
+
+const defaultValues = (connector?: ConnectorDescriptor): FieldValues => Object.fromEntries(
+  (connector?.fields || [])
+    .filter(field => field.defaultValue !== undefined)
+    .map(field => [field.key, field.type === "boolean" ? !!field.defaultValue : String(field.defaultValue)]),
+);
+
+// Nested keys like `metadata.jql` become fields of the matching JSON column
+function buildConfig(fields: ConnectorConfigField[], values: FieldValues): Record<string, unknown> {
+  const config: Record<string, any> = {};
+  fields.forEach(field => {
+    const raw = values[field.key];
+    if (raw === undefined || raw === "") return;
+
+    const value = field.type === "number" ? Number(raw) : raw;
+    const [column, nested] = field.key.split(".");
+    if (nested) {
+      config[column] = { ...config[column], [nested]: value };
+    } else {
+      config[column] = value;
+    }
+  });
+  return config;
+}
+
+function ConfigFieldInput({ field, value, onChange }: {
+  field: ConnectorConfigField;
+  value: string | boolean | undefined;
+  onChange: (value: string | boolean) => void;
+}) {
+  const id = `connector-field-${field.key}`;
+
+  if (field.type === "boolean") {
+    return (
+      <label className="flex items-center gap-2 text-sm">
+        <Checkbox id={id} checked={value === true} onCheckedChange={(checked) => onChange(checked === true)} />
+        {field.label}
+      </label>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>
+        {field.label}
+        {field.required && <span className="text-red-500"> *</span>}
+      </Label>
+      {field.type === "select" ? (
+        <Select value={typeof value === "string" ? value : undefined} onValueChange={onChange}>
+          <SelectTrigger id={id} data-testid={`select-${field.key}`}>
+            <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+          </SelectTrigger>
+          <SelectContent>
+            {(field.options || []).map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Input
+          id={id}
+          type={field.type === "secret" ? "password" : field.type === "number" ? "number" : field.type === "url" ? "url" : "text"}
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+          required={field.required}
+          autoComplete={field.type === "secret" ? "off" : undefined}
+          data-testid={`input-${field.key}`}
+        />
+      )}
+    </div>
+  );
+}
+
+export default function AddDataSourceDialog({ open, onOpenChange }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [type, setType] = useState("");
+  const [name, setName] = useState("");
+  const [syncInterval, setSyncInterval] = useState("300");
+  const [values, setValues] = useState<FieldValues>({});
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
+
+  const { data: connectors = [] } = useQuery<ConnectorDescriptor[]>({
+    queryKey: ["/api/connectors"],
+    enabled: open,
+  });
+  const connector = connectors.find(c => c.type === type);
+
+  const reset = () => {
+    setType("");
+    setName("");
+    setSyncInterval("300");
+    setValues({});
+    setTestResult(null);
+  };
+
+  const selectType = (nextType: string) => {
+    const next = connectors.find(c => c.type === nextType);
+    setType(nextType);
+    setName(prev => prev || next?.name || "");
+    setValues(defaultValues(next));
+    setTestResult(null);
+  };
+
+  const buildBody = () => ({
+    name,
+    type,
+    syncInterval: Number(syncInterval),
+    ...buildConfig(connector?.fields || [], values),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/data-sources/test", { method: "POST", body: buildBody() });
+      return response.json() as Promise<ConnectionTestResult>;
+    },
+    onSuccess: setTestResult,
+    onError: (error: Error) => setTestResult({ ok: false, message: error.message }),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/data-sources", { method: "POST", body: buildBody() });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/data-sources"] });
+      toast({
+        title: "Data Source Added",
+        description: `${name} will sync on its next scheduled run`,
+      });
+      reset();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Add Data Source",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const missingRequired = !connector || connector.fields.some(field => field.required && field.type !== "boolean" && !values[field.key]);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) reset();
+        onOpenChange(nextOpen);
+      }}
+    >
+      <DialogContent data-testid="add-data-source-dialog">
+        <DialogHeader>
+          <DialogTitle>Add Data Source</DialogTitle>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label>Connector</Label>
+            <Select value={type || undefined} onValueChange={selectType}>
+              <SelectTrigger data-testid="select-connector-type">
+                <SelectValue placeholder="Select a connector" />
+              </SelectTrigger>
+              <SelectContent>
+                {connectors.map(c => (
+                  <SelectItem key={c.type} value={c.type}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {connector && (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">{connector.description}</p>
+                <div className="flex flex-wrap gap-1">
+                  {connector.capabilities.map(capability => (
+                    <Badge key={capability} variant="outline">{capabilityLabels[capability]}</Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {connector?.connect === "oauth" ? (
+            <p className="text-sm text-muted-foreground">
+              {connector.name} data sources are created when you connect {connector.name} from the integrations list.
+            </p>
+          ) : connector && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="dataSourceName">Name</Label>
+                <Input
+                  id="dataSourceName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                  data-testid="input-data-source-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="dataSourceInterval">Sync interval (seconds)</Label>
+                <Input
+                  id="dataSourceInterval"
+                  type="number"
+                  min={60}
+                  value={syncInterval}
+                  onChange={(e) => setSyncInterval(e.target.value)}
+                  data-testid="input-data-source-interval"
+                />
+              </div>
+              {connector.fields.map(field => (
+                <ConfigFieldInput
+                  key={field.key}
+                  field={field}
+                  value={values[field.key]}
+                  onChange={(value) => {
+                    setValues(prev => ({ ...prev, [field.key]: value }));
+                    setTestResult(null);
+                  }}
+                />
+              ))}
+              {testResult && (
+                <p className={`flex items-start gap-2 text-sm break-words ${testResult.ok ? "text-green-600" : "text-red-600"}`}>
+                  {testResult.ok ? <CheckCircle className="h-4 w-4 mt-0.5 flex-shrink-0" /> : <XCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />}
+                  {testResult.message}
+                </p>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            {connector?.connect !== "oauth" && (
+              <>
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={missingRequired || testMutation.isPending}
+                  onClick={() => testMutation.mutate()}
+                  data-testid="button-test-data-source"
+                >
+                  <Plug className="h-4 w-4 mr-2" />
+                  {testMutation.isPending ? "Testing..." : "Test Connection"}
+                </Button>
+                <Button type="submit" disabled={missingRequired || !name || createMutation.isPending} data-testid="button-create-data-source">
+                  {createMutation.isPending ? "Adding..." : "Add"}
+                </Button>
+              </>
+            )}
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
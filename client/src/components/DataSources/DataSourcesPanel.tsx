@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChevronDown, ChevronRight, Plus, RefreshCw } from "lucide-react";
+import SyncRunTimeline from "@/components/DataSources/SyncRunTimeline";
+import AddDataSourceDialog from "@/components/DataSources/AddDataSourceDialog";
+import WebhookSettings from "@/components/DataSources/WebhookSettings";
+import type { ConnectorDescriptor } from "@shared/schema";
+
+interface DataSourceSummary {
+  id: number;
+  name: string;
+  type: string;
+  isActive: boolean | null;
+  lastSyncAt: string | null;
+  nextSyncAt: string | null;
+  retryCount: number | null;
+  lastError: string | null;
+  // "[redacted]" when set
+  webhookSecret: string | null;
+  syncState: "healthy" | "backing_off" | "circuit_open" | "needs_reauth";
+}
+
+const syncStateBadges: Record<DataSourceSummary["syncState"], { label: string; className: string }> = {
+  healthy: { label: "Healthy", className: "bg-green-500 hover:bg-green-500" },
+  backing_off: { label: "Retrying", className: "bg-yellow-500 hover:bg-yellow-500" },
+  circuit_open: { label: "Paused", className: "bg-red-500 hover:bg-red-500" },
+  needs_reauth: { label: "Reconnect needed", className: "bg-orange-500 hover:bg-orange-500" },
+};
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : "Never");
+
+export default function DataSourcesPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+
+  const { data: dataSources = [], isLoading } = useQuery<DataSourceSummary[]>({
+    queryKey: ["/api/data-sources"],
+  });
+
+  const { data: connectors = [] } = useQuery<ConnectorDescriptor[]>({
+    queryKey: ["/api/connectors"],
+  });
+  const acceptsWebhooks = (type: string) =>
+    !!connectors.find(connector => connector.type === type)?.capabilities.includes("webhooks");
+
+  const syncMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest(`/api/data-sources/${id}/sync`, { method: "POST" });
+      return response.json();
+    },
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/data-sources"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/data-sources", id, "runs"] });
+      toast({
+        title: "Sync Complete",
+        description: "Data source synchronized",
+      });
+    },
+    onError: (error: Error, id) => {
+      // The failed run is recorded too
+      queryClient.invalidateQueries({ queryKey: ["/api/data-sources"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/data-sources", id, "runs"] });
+      toast({
+        title: "Sync Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid="data-sources-panel">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Data Sources</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Incident feeds synced on their own schedule, with the history of recent runs
+          </p>
+        </div>
+        {can("data_sources:manage") && (
+          <Button variant="outline" onClick={() => setIsAddOpen(true)} data-testid="button-add-data-source">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Data Source
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-slate-400">Loading data sources...</p>
+        ) : dataSources.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-slate-400">No data sources configured.</p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-slate-700">
+            {dataSources.map(dataSource => {
+              const badge = syncStateBadges[dataSource.syncState];
+              const isExpanded = expandedId === dataSource.id;
+
+              return (
+                <div key={dataSource.id} className="py-3 space-y-2" data-testid={`data-source-${dataSource.id}`}>
+                  <div className="flex items-start justify-between gap-4">
+                    <button
+                      type="button"
+                      className="flex items-start gap-2 text-left min-w-0"
+                      onClick={() => setExpandedId(isExpanded ? null : dataSource.id)}
+                      data-testid={`toggle-sync-runs-${dataSource.id}`}
+                    >
+                      {isExpanded ? <ChevronDown className="h-4 w-4 mt-1 flex-shrink-0" /> : <ChevronRight className="h-4 w-4 mt-1 flex-shrink-0" />}
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-gray-900 dark:text-white truncate">{dataSource.name}</span>
+                          {dataSource.isActive === false ? (
+                            <Badge variant="secondary">Inactive</Badge>
+                          ) : (
+                            <Badge className={badge.className}>{badge.label}</Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-slate-400">
+                          Last sync {formatTime(dataSource.lastSyncAt)}
+                          {dataSource.isActive !== false && ` · Next ${formatTime(dataSource.nextSyncAt)}`}
+                          {(dataSource.retryCount || 0) > 0 && ` · ${dataSource.retryCount} consecutive failures`}
+                        </p>
+                        {dataSource.lastError && (
+                          <p className="text-xs text-red-600 dark:text-red-400 break-words">{dataSource.lastError}</p>
+                        )}
+                      </div>
+                    </button>
+                    {can("data_sources:sync") && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => syncMutation.mutate(dataSource.id)}
+                        disabled={syncMutation.isPending}
+                        data-testid={`sync-data-source-${dataSource.id}`}
+                      >
+                        <RefreshCw className={`h-4 w-4 mr-1 ${syncMutation.isPending && syncMutation.variables === dataSource.id ? "animate-spin" : ""}`} />
+                        Sync
+                      </Button>
+                    )}
+                  </div>
+                  {isExpanded && (
+                    <div className="pl-6 space-y-3">
+                      {can("data_sources:manage") && acceptsWebhooks(dataSource.type) && (
+                        <WebhookSettings dataSourceId={dataSource.id} hasSecret={!!dataSource.webhookSecret} />
+                      )}
+                      <SyncRunTimeline dataSourceId={dataSource.id} />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+      <AddDataSourceDialog open={isAddOpen} onOpenChange={setIsAddOpen} />
+    </Card>
+  );
+}
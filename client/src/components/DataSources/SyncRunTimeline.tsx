@@ -0,0 +1,79 @@
+import { useQuery } from "@tanstack/react-query";
+import { CheckCircle, Loader2, XCircle } from "lucide-react";
+
+interface SyncRun {
+  id: number;
+  trigger: "schedule" | "manual" | "webhook";
+  status: "running" | "succeeded" | "failed";
+  incremental: boolean;
+  truncated: boolean;
+  startedAt: string;
+  durationMs: number | null;
+  incidentsCreated: number;
+  incidentsUpdated: number;
+  incidentsUnchanged: number;
+  incidentsResolved: number;
+  updatesCreated: number;
+  componentsSynced: number;
+  solutionsSynced: number;
+  ticketsSynced: number;
+  error: string | null;
+}
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return null;
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+};
+
+function StatusIcon({ status }: { status: SyncRun["status"] }) {
+  if (status === "running") return <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />;
+  if (status === "failed") return <XCircle className="h-4 w-4 text-red-500" />;
+  return <CheckCircle className="h-4 w-4 text-green-500" />;
+}
+
+export default function SyncRunTimeline({ dataSourceId }: { dataSourceId: number }) {
+  const { data: runs = [], isLoading } = useQuery<SyncRun[]>({
+    queryKey: ["/api/data-sources", dataSourceId, "runs"],
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 dark:text-slate-400">Loading sync history...</p>;
+  }
+
+  if (runs.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-slate-400">No syncs recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-slate-700 ml-2 space-y-3" data-testid={`sync-runs-${dataSourceId}`}>
+      {runs.map(run => (
+        <li key={run.id} className="ml-4">
+          <span className="absolute -left-2 bg-white dark:bg-slate-900 rounded-full">
+            <StatusIcon status={run.status} />
+          </span>
+          <p className="text-sm text-gray-900 dark:text-white">
+            {new Date(run.startedAt).toLocaleString()}
+            <span className="text-xs text-gray-500 dark:text-slate-400">
+              {" · "}{run.trigger}
+              {run.incremental && " · incremental"}
+              {run.truncated && " · stopped at page limit"}
+              {run.durationMs !== null && ` · ${formatDuration(run.durationMs)}`}
+            </span>
+          </p>
+          {run.status === "failed" ? (
+            <p className="text-xs text-red-600 dark:text-red-400 break-words">{run.error}</p>
+          ) : run.status === "succeeded" && (
+            <p className="text-xs text-gray-500 dark:text-slate-400">
+              {run.incidentsCreated} new, {run.incidentsUpdated} updated, {run.incidentsUnchanged} unchanged incidents
+              {run.incidentsResolved > 0 && `, ${run.incidentsResolved} resolved after leaving the source`}
+              {" · "}{run.updatesCreated} timeline updates · {run.componentsSynced} components
+              {run.solutionsSynced > 0 && ` · ${run.solutionsSynced} knowledge articles`}
+              {run.ticketsSynced > 0 && ` · ${run.ticketsSynced} support tickets`}
+            </p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
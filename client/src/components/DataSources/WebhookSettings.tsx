@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Copy, KeyRound } from "lucide-react";
+
+interface WebhookSecret {
+  secret: string;
+  url: string;
+}
+
+export default function WebhookSettings({ dataSourceId, hasSecret }: { dataSourceId: number; hasSecret: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [issued, setIssued] = useState<WebhookSecret | null>(null);
+
+  const secretMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/data-sources/${dataSourceId}/webhook-secret`, { method: "POST" });
+      return response.json() as Promise<WebhookSecret>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/data-sources"] });
+      setIssued(data);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Generate Secret",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copy = (value: string) => {
+    navigator.clipboard.writeText(value);
+    toast({
+      title: "Copied",
+      description: "Copied to clipboard",
+    });
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border p-3" data-testid={`webhook-settings-${dataSourceId}`}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium text-gray-900 dark:text-white">Webhook</p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => secretMutation.mutate()}
+          disabled={secretMutation.isPending}
+          data-testid={`button-webhook-secret-${dataSourceId}`}
+        >
+          <KeyRound className="h-4 w-4 mr-1" />
+          {hasSecret ? "Rotate Secret" : "Generate Secret"}
+        </Button>
+      </div>
+      {issued ? (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Copy the secret now. It will not be shown again. Sign each request with an
+            X-QueryLinker-Signature: sha256=&lt;HMAC of the body&gt; header, or send it as a Bearer token
+            if the sender cannot sign. Senders that can do neither, such as Statuspage, use the URL
+            as is; its token changes when the secret is rotated.
+          </p>
+          {[issued.url, issued.secret].map(value => (
+            <div key={value} className="flex items-center gap-2">
+              <Input readOnly value={value} className="font-mono text-xs" />
+              <Button type="button" variant="outline" size="sm" onClick={() => copy(value)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {hasSecret
+            ? `Pushes are accepted at /api/webhooks/${dataSourceId} with the configured secret.`
+            : "Generate a signing secret to accept pushed events from this source."}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { useSidebar } from "@/components/ui/sidebar";
 import { useState, useEffect } from "react";
 import * as React from "react";
 import { useAuth } from "@/contexts/AuthContext";
+import type { Permission } from "@shared/permissions";
 import {
   LayoutDashboard,
   Search,
@@ -24,13 +25,13 @@ import {
 import { useSystemFeatures } from "@/hooks/useSystemFeatures";
 import SearchModal from "@/components/SearchModal";
 
-const baseNavigation = [
-  { name: "Dashboard", href: "/", icon: LayoutDashboard, badge: "5" },
-  { name: "AI Search", href: "#", icon: Search, isSearchTrigger: true },
-  { name: "Analytics", href: "/analytics", icon: BarChart3 },
-  { name: "SLA Management", href: "/sla", icon: Clock },
-  { name: "Knowledge Base", href: "/knowledge", icon: BookOpen },
-  { name: "System Integrations", href: "/integrations", icon: LinkIcon },
+const baseNavigation: { name: string; href: string; icon: typeof LayoutDashboard; badge?: string; isSearchTrigger?: boolean; isSystemFeature?: boolean; permission?: Permission }[] = [
+  { name: "Dashboard", href: "/", icon: LayoutDashboard, badge: "5", permission: "dashboard:view" },
+  { name: "AI Search", href: "#", icon: Search, isSearchTrigger: true, permission: "search:use" },
+  { name: "Analytics", href: "/analytics", icon: BarChart3, permission: "dashboard:view" },
+  { name: "SLA Management", href: "/sla", icon: Clock, permission: "sla:view" },
+  { name: "Knowledge Base", href: "/knowledge", icon: BookOpen, permission: "solutions:view" },
+  { name: "System Integrations", href: "/integrations", icon: LinkIcon, permission: "systems:view" },
   { name: "Settings", href: "/settings", icon: Settings },
 ];
 
@@ -39,7 +40,7 @@ function SidebarContent({ sidebarCollapsed = false }: { sidebarCollapsed?: boole
   const { availableFeatures, connectedSystemTypes } = useSystemFeatures();
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const { setOpenMobile, isMobile } = useSidebar();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   
   // Generate user initials
   const getUserInitials = () => {
@@ -55,8 +56,8 @@ function SidebarContent({ sidebarCollapsed = false }: { sidebarCollapsed?: boole
     return fullName || user.email || 'User';
   };
 
-  // Build navigation with system features
-  const navigation = [...baseNavigation];
+  // Build navigation with system features, hiding entries the current role cannot open
+  const navigation = baseNavigation.filter(item => !item.permission || can(item.permission));
   
   // Add system-specific features to navigation
   if (availableFeatures.length > 0) {
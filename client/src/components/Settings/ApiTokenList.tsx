@@ -0,0 +1,73 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Trash2 } from "lucide-react";
+
+export interface ApiTokenSummary {
+  id: number;
+  name: string;
+  tokenPrefix: string;
+  scopes: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  isExpired: boolean;
+  createdAt: string;
+}
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : null);
+
+export default function ApiTokenList({
+  tokens,
+  onRevoke,
+  revoking,
+}: {
+  tokens: ApiTokenSummary[];
+  onRevoke: (token: ApiTokenSummary) => void;
+  revoking?: boolean;
+}) {
+  if (tokens.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-slate-400">No API tokens yet.</p>;
+  }
+
+  return (
+    <div className="divide-y divide-gray-200 dark:divide-slate-700">
+      {tokens.map(token => {
+        const isActive = !token.revokedAt && !token.isExpired;
+
+        return (
+          <div key={token.id} className="flex items-start justify-between py-3" data-testid={`api-token-${token.id}`}>
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-gray-900 dark:text-white truncate">{token.name}</span>
+                <code className="text-xs text-gray-500 dark:text-slate-400">{token.tokenPrefix}…</code>
+                {token.revokedAt && <Badge variant="secondary">Revoked</Badge>}
+                {token.isExpired && <Badge variant="outline">Expired</Badge>}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-slate-400 truncate">{token.scopes.join(", ")}</p>
+              <p className="text-xs text-gray-500 dark:text-slate-400">
+                Created {formatDate(token.createdAt)}
+                {" · "}
+                {token.expiresAt ? `Expires ${formatDate(token.expiresAt)}` : "Never expires"}
+                {" · "}
+                {token.lastUsedAt ? `Last used ${formatDate(token.lastUsedAt)}${token.lastUsedIp ? ` from ${token.lastUsedIp}` : ""}` : "Never used"}
+              </p>
+            </div>
+            {isActive && (
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Revoke token"
+                disabled={revoking}
+                onClick={() => onRevoke(token)}
+                data-testid={`button-revoke-token-${token.id}`}
+              >
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
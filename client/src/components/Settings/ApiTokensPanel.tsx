@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Plus } from "lucide-react";
+import ApiTokenList, { type ApiTokenSummary } from "@/components/Settings/ApiTokenList";
+import CreateApiTokenDialog from "@/components/Settings/CreateApiTokenDialog";
+
+export default function ApiTokensPanel() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+
+  const { data: tokens = [], isLoading } = useQuery<ApiTokenSummary[]>({
+    queryKey: ["/api/tokens"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest(`/api/tokens/${id}`, { method: "DELETE" });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      toast({
+        title: "Token Revoked",
+        description: "Requests using this token will be rejected",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Revoke Token",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid="api-tokens-settings">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Personal API Tokens</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Authenticate scripts with <code>Authorization: Bearer &lt;token&gt;</code>
+          </p>
+        </div>
+        <Button onClick={() => setShowCreateDialog(true)} data-testid="button-create-api-token">
+          <Plus className="h-4 w-4 mr-2" />
+          New Token
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-slate-400">Loading tokens...</p>
+        ) : (
+          <ApiTokenList
+            tokens={tokens}
+            onRevoke={(token) => revokeMutation.mutate(token.id)}
+            revoking={revokeMutation.isPending}
+          />
+        )}
+      </CardContent>
+      <CreateApiTokenDialog
+        open={showCreateDialog}
+        onOpenChange={setShowCreateDialog}
+        title="New Personal API Token"
+        endpoint="/api/tokens"
+        invalidateKey="/api/tokens"
+        availableScopes={user?.permissions || []}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Download } from "lucide-react";
+
+interface AuditEventSummary {
+  id: number;
+  actorId: string | null;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  ipAddress: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+interface AuditEventPage {
+  events: AuditEventSummary[];
+  total: number;
+}
+
+const PAGE_SIZE = 25;
+
+export default function AuditLogPanel() {
+  const [filters, setFilters] = useState({ action: "", targetType: "", from: "", to: "" });
+  const [page, setPage] = useState(0);
+
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  const filterQuery = params.toString();
+  params.set("limit", String(PAGE_SIZE));
+  params.set("offset", String(page * PAGE_SIZE));
+
+  const { data, isLoading } = useQuery<AuditEventPage>({
+    queryKey: [`/api/audit?${params.toString()}`],
+    staleTime: 0,
+  });
+
+  const events = data?.events || [];
+  const total = data?.total || 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setPage(0);
+  };
+
+  return (
+    <Card data-testid="audit-log-settings">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Audit Log</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Administrative and incident actions, newest first
+          </p>
+        </div>
+        <Button variant="outline" asChild data-testid="button-export-audit-log">
+          <a href={`/api/audit?${filterQuery ? `${filterQuery}&` : ""}format=csv`}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </a>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <Input
+            placeholder="Action (e.g. system.)"
+            value={filters.action}
+            onChange={(e) => updateFilter("action", e.target.value)}
+            data-testid="input-audit-action"
+          />
+          <Input
+            placeholder="Target type"
+            value={filters.targetType}
+            onChange={(e) => updateFilter("targetType", e.target.value)}
+            data-testid="input-audit-target-type"
+          />
+          <Input
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter("from", e.target.value)}
+            data-testid="input-audit-from"
+          />
+          <Input
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilter("to", e.target.value)}
+            data-testid="input-audit-to"
+          />
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-slate-400">Loading audit events...</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-slate-400">No audit events match these filters.</p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-slate-700">
+            {events.map(event => (
+              <div key={event.id} className="py-3 space-y-1" data-testid={`audit-event-${event.id}`}>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{event.action}</Badge>
+                  {event.targetType && (
+                    <span className="text-sm text-gray-900 dark:text-white truncate">
+                      {event.targetType}{event.targetId ? ` ${event.targetId}` : ""}
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-slate-400">
+                  {new Date(event.createdAt).toLocaleString()}
+                  {" · "}
+                  {event.actorId || "system"}
+                  {event.ipAddress ? ` from ${event.ipAddress}` : ""}
+                </p>
+                {event.after && Object.keys(event.after).length > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-slate-400 truncate">
+                    Changed: {Object.keys(event.after).join(", ")}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-500 dark:text-slate-400">
+            {total} events · page {page + 1} of {pageCount}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(p => p - 1)}>
+              Previous
+            </Button>
+            <Button variant="outline" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(p => p + 1)}>
+              Next
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Copy, KeyRound } from "lucide-react";
+import type { Permission } from "@shared/permissions";
+
+const expiryOptions = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiry" },
+];
+
+interface CreateApiTokenDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  // POST endpoint that issues the token
+  endpoint: string;
+  // Query to refresh once the token exists
+  invalidateKey: string;
+  // Scopes the token's owner holds; a token can only get a subset
+  availableScopes: readonly Permission[];
+}
+
+export default function CreateApiTokenDialog({
+  open,
+  onOpenChange,
+  title,
+  endpoint,
+  invalidateKey,
+  availableScopes,
+}: CreateApiTokenDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [expiry, setExpiry] = useState("90");
+  const [scopes, setScopes] = useState<Permission[]>([]);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const reset = () => {
+    setName("");
+    setExpiry("90");
+    setScopes([]);
+    setCreatedToken(null);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(endpoint, {
+        method: "POST",
+        body: { name, scopes, expiresInDays: expiry === "never" ? null : Number(expiry) },
+      });
+      return response.json() as Promise<{ token: string }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [invalidateKey] });
+      setCreatedToken(data.token);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Create Token",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleScope = (scope: Permission, checked: boolean) => {
+    setScopes(prev => (checked ? [...prev, scope] : prev.filter(s => s !== scope)));
+  };
+
+  const copyToken = () => {
+    if (!createdToken) return;
+    navigator.clipboard.writeText(createdToken);
+    toast({
+      title: "Copied",
+      description: "Copied to clipboard",
+    });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) reset();
+        onOpenChange(nextOpen);
+      }}
+    >
+      <DialogContent data-testid="create-api-token-dialog">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        {createdToken ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Copy this token now. It will not be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <Input readOnly value={createdToken} className="font-mono text-xs" data-testid="input-created-token" />
+              <Button type="button" variant="outline" size="sm" onClick={copyToken}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex justify-end">
+              <Button type="button" onClick={() => { reset(); onOpenChange(false); }}>
+                Done
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="tokenName">Name</Label>
+              <Input
+                id="tokenName"
+                placeholder="CI pipeline"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+                data-testid="input-token-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Expiration</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger data-testid="select-token-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expiryOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              <div className="grid grid-cols-2 gap-2 max-h-56 overflow-y-auto rounded-md border p-3">
+                {availableScopes.map(scope => (
+                  <label key={scope} className="flex items-center gap-2 text-sm font-mono">
+                    <Checkbox
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      data-testid={`checkbox-scope-${scope}`}
+                    />
+                    {scope}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending || !name || scopes.length === 0}>
+                <KeyRound className="h-4 w-4 mr-2" />
+                {createMutation.isPending ? "Creating..." : "Create Token"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Copy, KeyRound, ShieldCheck } from "lucide-react";
+
+interface MfaSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} data-testid="input-mfa-code">
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+export default function MfaPanel() {
+  const { toast } = useToast();
+  const { user, setUser } = useAuth();
+  const [setup, setSetup] = useState<MfaSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [confirmAction, setConfirmAction] = useState<"disable" | "regenerate" | null>(null);
+  const [confirmCode, setConfirmCode] = useState("");
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/auth/mfa/setup", { method: "POST" });
+      return response.json() as Promise<MfaSetup>;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: onError("Failed to Start MFA Setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("/api/auth/mfa/enable", { method: "POST", body: { code } });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      setUser(data.user);
+      toast({
+        title: "MFA Enabled",
+        description: "Save your recovery codes somewhere safe",
+      });
+    },
+    onError: onError("Failed to Enable MFA"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("/api/auth/mfa/disable", { method: "POST", body: { code } });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setConfirmAction(null);
+      setConfirmCode("");
+      setRecoveryCodes(null);
+      setUser(data.user);
+      toast({
+        title: "MFA Disabled",
+        description: "Your account no longer requires a verification code",
+      });
+    },
+    onError: onError("Failed to Disable MFA"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("/api/auth/mfa/recovery-codes", { method: "POST", body: { code } });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setConfirmAction(null);
+      setConfirmCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      toast({
+        title: "Recovery Codes Regenerated",
+        description: "Your previous recovery codes no longer work",
+      });
+    },
+    onError: onError("Failed to Regenerate Recovery Codes"),
+  });
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: "Copied",
+      description: "Copied to clipboard",
+    });
+  };
+
+  return (
+    <Card data-testid="mfa-settings">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          {user?.mfaEnabled ? (
+            <Badge className="bg-green-100 text-green-800">Enabled</Badge>
+          ) : (
+            <Badge variant="secondary">Disabled</Badge>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Require a code from an authenticator app such as Google Authenticator or 1Password when you log in
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {recoveryCodes && (
+          <div className="space-y-3 rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-950/30 p-4" data-testid="recovery-codes">
+            <div className="flex items-center justify-between">
+              <Label className="flex items-center gap-2">
+                <KeyRound className="h-4 w-4" />
+                Recovery Codes
+              </Label>
+              <Button variant="ghost" size="sm" onClick={() => copyToClipboard(recoveryCodes.join("\n"))}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Each code can be used once if you lose access to your authenticator. They will not be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map(recoveryCode => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setRecoveryCodes(null)}>
+              I've saved these codes
+            </Button>
+          </div>
+        )}
+
+        {!user?.mfaEnabled && !setup && (
+          <Button
+            onClick={() => setupMutation.mutate()}
+            disabled={setupMutation.isPending}
+            data-testid="button-setup-mfa"
+          >
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            {setupMutation.isPending ? "Preparing..." : "Set Up Authenticator App"}
+          </Button>
+        )}
+
+        {!user?.mfaEnabled && setup && (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              enableMutation.mutate(code);
+            }}
+          >
+            <div className="space-y-2">
+              <Label>1. Add QueryLinker to your authenticator app</Label>
+              <p className="text-sm text-muted-foreground">
+                Open the link on a device with an authenticator app, or enter the setup key manually.
+              </p>
+              <div className="flex items-center gap-2">
+                <Input readOnly value={setup.secret} className="font-mono" data-testid="mfa-secret" />
+                <Button type="button" variant="outline" size="sm" onClick={() => copyToClipboard(setup.secret)}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <a href={setup.otpauthUri} className="text-sm text-blue-600 hover:text-blue-800 break-all" data-testid="mfa-otpauth-uri">
+                {setup.otpauthUri}
+              </a>
+            </div>
+            <div className="space-y-2">
+              <Label>2. Enter the 6-digit code it shows</Label>
+              <CodeInput value={code} onChange={setCode} />
+            </div>
+            <div className="flex space-x-2">
+              <Button type="submit" disabled={enableMutation.isPending || code.length !== 6} data-testid="button-enable-mfa">
+                {enableMutation.isPending ? "Verifying..." : "Enable MFA"}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setSetup(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {user?.mfaEnabled && !confirmAction && (
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => setConfirmAction("regenerate")} data-testid="button-regenerate-recovery-codes">
+              Regenerate Recovery Codes
+            </Button>
+            <Button variant="outline" className="text-red-600" onClick={() => setConfirmAction("disable")} data-testid="button-disable-mfa">
+              Disable MFA
+            </Button>
+          </div>
+        )}
+
+        {user?.mfaEnabled && confirmAction && (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (confirmAction === "disable") {
+                disableMutation.mutate(confirmCode);
+              } else {
+                regenerateMutation.mutate(confirmCode);
+              }
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="confirmMfaCode">Confirm with an authenticator or recovery code</Label>
+              <Input
+                id="confirmMfaCode"
+                value={confirmCode}
+                onChange={(e) => setConfirmCode(e.target.value)}
+                autoComplete="off"
+                className="max-w-xs"
+                data-testid="input-confirm-mfa-code"
+              />
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                type="submit"
+                variant={confirmAction === "disable" ? "destructive" : "default"}
+                disabled={!confirmCode || disableMutation.isPending || regenerateMutation.isPending}
+              >
+                {confirmAction === "disable" ? "Disable MFA" : "Regenerate Codes"}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setConfirmAction(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
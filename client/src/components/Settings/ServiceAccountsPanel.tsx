@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Bot, KeyRound, Plus, UserX } from "lucide-react";
+import { ROLES, getRolePermissions, type Role } from "@shared/permissions";
+import ApiTokenList, { type ApiTokenSummary } from "@/components/Settings/ApiTokenList";
+import CreateApiTokenDialog from "@/components/Settings/CreateApiTokenDialog";
+
+interface ServiceAccount {
+  id: string;
+  firstName: string | null;
+  role: Role;
+  isActive: boolean | null;
+  tokens: ApiTokenSummary[];
+}
+
+const roleLabels: Record<Role, string> = {
+  viewer: "Viewer",
+  responder: "Responder",
+  admin: "Admin",
+};
+
+export default function ServiceAccountsPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [newAccount, setNewAccount] = useState({ name: "", role: "viewer" as Role });
+  const [tokenAccount, setTokenAccount] = useState<ServiceAccount | null>(null);
+
+  const { data: serviceAccounts = [], isLoading } = useQuery<ServiceAccount[]>({
+    queryKey: ["/api/admin/service-accounts"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: typeof newAccount) => {
+      const response = await apiRequest("/api/admin/service-accounts", { method: "POST", body: data });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/service-accounts"] });
+      setShowCreateDialog(false);
+      setNewAccount({ name: "", role: "viewer" });
+      toast({
+        title: "Service Account Created",
+        description: "Issue a token to start using it",
+      });
+    },
+    onError: onError("Failed to Create Service Account"),
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest(`/api/admin/users/${id}`, { method: "DELETE" });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/service-accounts"] });
+      toast({
+        title: "Service Account Deactivated",
+        description: "Its tokens can no longer be used",
+      });
+    },
+    onError: onError("Failed to Deactivate Service Account"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async ({ accountId, tokenId }: { accountId: string; tokenId: number }) => {
+      const response = await apiRequest(`/api/admin/service-accounts/${accountId}/tokens/${tokenId}`, { method: "DELETE" });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/service-accounts"] });
+      toast({
+        title: "Token Revoked",
+        description: "Requests using this token will be rejected",
+      });
+    },
+    onError: onError("Failed to Revoke Token"),
+  });
+
+  return (
+    <Card data-testid="service-accounts-settings">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Service Accounts</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Non-interactive identities for automation such as CI pipelines
+          </p>
+        </div>
+        <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+          <DialogTrigger asChild>
+            <Button data-testid="button-create-service-account">
+              <Plus className="h-4 w-4 mr-2" />
+              New Service Account
+            </Button>
+          </DialogTrigger>
+          <DialogContent data-testid="create-service-account-dialog">
+            <DialogHeader>
+              <DialogTitle>New Service Account</DialogTitle>
+            </DialogHeader>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                createMutation.mutate(newAccount);
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="serviceAccountName">Name</Label>
+                <Input
+                  id="serviceAccountName"
+                  placeholder="ci-bot"
+                  value={newAccount.name}
+                  onChange={(e) => setNewAccount(prev => ({ ...prev, name: e.target.value }))}
+                  required
+                  data-testid="input-service-account-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select
+                  value={newAccount.role}
+                  onValueChange={(value) => setNewAccount(prev => ({ ...prev, role: value as Role }))}
+                >
+                  <SelectTrigger data-testid="select-service-account-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.map(role => (
+                      <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setShowCreateDialog(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createMutation.isPending || !newAccount.name}>
+                  {createMutation.isPending ? "Creating..." : "Create"}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-slate-400">Loading service accounts...</p>
+        ) : serviceAccounts.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-slate-400">No service accounts yet.</p>
+        ) : (
+          <div className="space-y-6">
+            {serviceAccounts.map(account => {
+              const isActive = account.isActive !== false;
+
+              return (
+                <div key={account.id} className="space-y-2" data-testid={`service-account-${account.id}`}>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Bot className="h-4 w-4 text-gray-500" />
+                      <span className="font-medium text-gray-900 dark:text-white">{account.firstName}</span>
+                      <Badge variant="outline">{roleLabels[account.role]}</Badge>
+                      {!isActive && <Badge variant="secondary">Deactivated</Badge>}
+                    </div>
+                    {isActive && (
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setTokenAccount(account)}
+                          data-testid={`button-issue-token-${account.id}`}
+                        >
+                          <KeyRound className="h-4 w-4 mr-2" />
+                          Issue Token
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Deactivate service account"
+                          disabled={deactivateMutation.isPending}
+                          onClick={() => deactivateMutation.mutate(account.id)}
+                          data-testid={`button-deactivate-service-account-${account.id}`}
+                        >
+                          <UserX className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="pl-6">
+                    <ApiTokenList
+                      tokens={account.tokens}
+                      onRevoke={(token) => revokeMutation.mutate({ accountId: account.id, tokenId: token.id })}
+                      revoking={revokeMutation.isPending}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+      {tokenAccount && (
+        <CreateApiTokenDialog
+          open
+          onOpenChange={(open) => !open && setTokenAccount(null)}
+          title={`New Token for ${tokenAccount.firstName}`}
+          endpoint={`/api/admin/service-accounts/${tokenAccount.id}/tokens`}
+          invalidateKey="/api/admin/service-accounts"
+          availableScopes={getRolePermissions(tokenAccount.role)}
+        />
+      )}
+    </Card>
+  );
+}
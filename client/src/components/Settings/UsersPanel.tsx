@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Mail, UserPlus, UserX, UserCheck, ShieldOff } from "lucide-react";
+import { ROLES, type Role } from "@shared/permissions";
+
+interface ManagedUser {
+  id: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  role: Role;
+  isActive: boolean | null;
+  mfaEnabled: boolean | null;
+  invitationPending: boolean;
+}
+
+const roleLabels: Record<Role, string> = {
+  viewer: "Viewer",
+  responder: "Responder",
+  admin: "Admin",
+};
+
+export default function UsersPanel() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const queryClient = useQueryClient();
+  const [showInviteDialog, setShowInviteDialog] = useState(false);
+  const [invite, setInvite] = useState({
+    email: "",
+    firstName: "",
+    lastName: "",
+    role: "viewer" as Role,
+  });
+
+  const { data: users = [], isLoading } = useQuery<ManagedUser[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: typeof invite) => {
+      const response = await apiRequest("/api/admin/users", { method: "POST", body: data });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      setShowInviteDialog(false);
+      setInvite({ email: "", firstName: "", lastName: "", role: "viewer" });
+      toast({
+        title: "Invitation Sent",
+        description: data.message,
+      });
+    },
+    onError: onError("Failed to Invite User"),
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: { role?: Role; isActive?: boolean; resetMfa?: boolean } }) => {
+      const response = await apiRequest(`/api/admin/users/${id}`, { method: "PATCH", body: updates });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "User Updated",
+        description: "The user's access has been updated",
+      });
+    },
+    onError: onError("Failed to Update User"),
+  });
+
+  const deactivateUserMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest(`/api/admin/users/${id}`, { method: "DELETE" });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "User Deactivated",
+        description: "The user can no longer sign in",
+      });
+    },
+    onError: onError("Failed to Deactivate User"),
+  });
+
+  const resendInviteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest(`/api/admin/users/${id}/resend-invite`, { method: "POST" });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Invitation Resent",
+        description: "A new invitation link has been emailed",
+      });
+    },
+    onError: onError("Failed to Resend Invitation"),
+  });
+
+  const getDisplayName = (user: ManagedUser) =>
+    [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || user.id;
+
+  return (
+    <Card data-testid="users-settings">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Users</CardTitle>
+        <Dialog open={showInviteDialog} onOpenChange={setShowInviteDialog}>
+          <DialogTrigger asChild>
+            <Button data-testid="button-invite-user">
+              <UserPlus className="h-4 w-4 mr-2" />
+              Invite User
+            </Button>
+          </DialogTrigger>
+          <DialogContent data-testid="invite-user-dialog">
+            <DialogHeader>
+              <DialogTitle>Invite User</DialogTitle>
+            </DialogHeader>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                inviteMutation.mutate(invite);
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="inviteEmail">Email</Label>
+                <Input
+                  id="inviteEmail"
+                  type="email"
+                  value={invite.email}
+                  onChange={(e) => setInvite(prev => ({ ...prev, email: e.target.value }))}
+                  required
+                  data-testid="input-invite-email"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="inviteFirstName">First name</Label>
+                  <Input
+                    id="inviteFirstName"
+                    value={invite.firstName}
+                    onChange={(e) => setInvite(prev => ({ ...prev, firstName: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="inviteLastName">Last name</Label>
+                  <Input
+                    id="inviteLastName"
+                    value={invite.lastName}
+                    onChange={(e) => setInvite(prev => ({ ...prev, lastName: e.target.value }))}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select
+                  value={invite.role}
+                  onValueChange={(value) => setInvite(prev => ({ ...prev, role: value as Role }))}
+                >
+                  <SelectTrigger data-testid="select-invite-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.map(role => (
+                      <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setShowInviteDialog(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={inviteMutation.isPending || !invite.email}>
+                  {inviteMutation.isPending ? "Sending..." : "Send Invitation"}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-slate-400">Loading users...</p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-slate-700">
+            {users.map(user => {
+              const isSelf = user.id === currentUser?.id;
+              const isActive = user.isActive !== false;
+
+              return (
+                <div key={user.id} className="flex items-center justify-between py-3" data-testid={`user-row-${user.id}`}>
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900 dark:text-white truncate">{getDisplayName(user)}</span>
+                      {!isActive && <Badge variant="secondary">Deactivated</Badge>}
+                      {isActive && user.invitationPending && <Badge variant="outline">Invitation pending</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-500 dark:text-slate-400 truncate">{user.email}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={user.role}
+                      disabled={isSelf || !isActive}
+                      onValueChange={(value) => updateUserMutation.mutate({ id: user.id, updates: { role: value as Role } })}
+                    >
+                      <SelectTrigger className="w-32" data-testid={`select-role-${user.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ROLES.map(role => (
+                          <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {isActive && user.invitationPending && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Resend invitation"
+                        disabled={resendInviteMutation.isPending}
+                        onClick={() => resendInviteMutation.mutate(user.id)}
+                        data-testid={`button-resend-invite-${user.id}`}
+                      >
+                        <Mail className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {!isSelf && user.mfaEnabled && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Reset two-factor authentication"
+                        disabled={updateUserMutation.isPending}
+                        onClick={() => updateUserMutation.mutate({ id: user.id, updates: { resetMfa: true } })}
+                        data-testid={`button-reset-mfa-${user.id}`}
+                      >
+                        <ShieldOff className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {!isSelf && (isActive ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Deactivate user"
+                        disabled={deactivateUserMutation.isPending}
+                        onClick={() => deactivateUserMutation.mutate(user.id)}
+                        data-testid={`button-deactivate-${user.id}`}
+                      >
+                        <UserX className="h-4 w-4 text-red-500" />
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Reactivate user"
+                        disabled={updateUserMutation.isPending}
+                        onClick={() => updateUserMutation.mutate({ id: user.id, updates: { isActive: true } })}
+                        data-testid={`button-reactivate-${user.id}`}
+                      >
+                        <UserCheck className="h-4 w-4 text-green-600" />
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -11,7 +11,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Bug, Plus, AlertCircle, CheckCircle, Clock, User, Tag, ExternalLink, Search } from "lucide-react";
+import { Bug, Plus, AlertCircle, CheckCircle, Clock, User, Tag, ExternalLink, Search, RefreshCw } from "lucide-react";
 
 interface JiraIssue {
   id: string;
@@ -37,6 +37,15 @@ interface JiraIssue {
   };
 }
 
+interface JiraSite {
+  dataSourceId: number;
+  siteId: string | null;
+  name: string;
+  url: string;
+  isActive: boolean | null;
+  needsReauth: boolean | null;
+}
+
 interface JiraProject {
   id: string;
   key: string;
@@ -45,7 +54,8 @@ interface JiraProject {
   projectType: string;
 }
 
-export default function JiraPanel() {
+export default function JiraPanel({ dataSourceId }: { dataSourceId?: number }) {
+  const [siteId, setSiteId] = useState<number | undefined>(dataSourceId);
   const [newIssue, setNewIssue] = useState({ 
     summary: "", 
     description: "", 
@@ -59,11 +69,29 @@ export default function JiraPanel() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Every connected Jira site is its own data source
+  const { data: sites = [], isLoading: sitesLoading } = useQuery<JiraSite[]>({
+    queryKey: ['/api/integrations/jira/sites'],
+  });
+  const activeSites = sites.filter(site => site.isActive);
+
+  useEffect(() => {
+    if (siteId === undefined && activeSites.length > 0) {
+      setSiteId(activeSites[0].dataSourceId);
+    }
+  }, [siteId, activeSites]);
+
+  const selectSite = (value: string) => {
+    setSiteId(Number(value));
+    setSelectedProject("");
+    setNewIssue(issue => ({ ...issue, projectKey: "" }));
+  };
+
   // Fetch Jira projects
   const { data: projects = [], isLoading: projectsLoading, error: projectsError } = useQuery<JiraProject[]>({
-    queryKey: ['/api/integrations/jira/projects'],
+    queryKey: ['/api/integrations/jira/projects', siteId],
     queryFn: async () => {
-      const response = await apiRequest('/api/integrations/jira/projects');
+      const response = await apiRequest(`/api/integrations/jira/projects?dataSourceId=${siteId}`);
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.message || 'Failed to fetch projects');
@@ -72,13 +100,14 @@ export default function JiraPanel() {
     },
     staleTime: 5 * 60 * 1000, // 5 minutes
     retry: false,
+    enabled: siteId !== undefined,
   });
 
   // Fetch Jira issues
   const { data: issues = [], isLoading: issuesLoading, error: issuesError } = useQuery<JiraIssue[]>({
-    queryKey: ['/api/integrations/jira/issues', selectedProject, statusFilter],
+    queryKey: ['/api/integrations/jira/issues', siteId, selectedProject, statusFilter],
     queryFn: async () => {
-      const params = new URLSearchParams();
+      const params = new URLSearchParams({ dataSourceId: String(siteId) });
       if (selectedProject) params.append('project', selectedProject);
       if (statusFilter !== 'all') params.append('status', statusFilter);
       
@@ -91,13 +120,14 @@ export default function JiraPanel() {
     },
     staleTime: 2 * 60 * 1000, // 2 minutes
     retry: false,
+    enabled: siteId !== undefined,
   });
 
   const createIssueMutation = useMutation({
     mutationFn: async (issueData: typeof newIssue) => {
       const response = await apiRequest('/api/integrations/jira/issues', {
         method: 'POST',
-        body: JSON.stringify(issueData),
+        body: { ...issueData, dataSourceId: siteId },
       });
       if (!response.ok) throw new Error('Failed to create issue');
       return await response.json();
@@ -108,7 +138,7 @@ export default function JiraPanel() {
         description: "Jira issue has been created successfully",
       });
       setNewIssue({ summary: "", description: "", priority: "Medium", issueType: "Task", projectKey: "" });
-      queryClient.invalidateQueries({ queryKey: ['/api/integrations/jira/issues'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/integrations/jira/issues', siteId] });
     },
     onError: (error: any) => {
       toast({
@@ -174,17 +204,35 @@ export default function JiraPanel() {
     issue.key.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  const siteSelector = activeSites.length > 1 && (
+    <Select value={siteId !== undefined ? String(siteId) : undefined} onValueChange={selectSite}>
+      <SelectTrigger className="w-56" data-testid="select-jira-site">
+        <SelectValue placeholder="Select a site" />
+      </SelectTrigger>
+      <SelectContent>
+        {activeSites.map(site => (
+          <SelectItem key={site.dataSourceId} value={String(site.dataSourceId)}>
+            {site.name}{site.needsReauth ? " (reconnect needed)" : ""}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
   // Show error state if Jira integration is not properly configured
-  if (projectsError || issuesError) {
-    const errorMessage = (projectsError as any)?.message || (issuesError as any)?.message || 'Jira integration error';
+  if (projectsError || issuesError || (!sitesLoading && activeSites.length === 0)) {
+    const errorMessage = (projectsError as any)?.message || (issuesError as any)?.message || 'Jira not connected';
     
     return (
       <Card className="w-full">
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            🎯 Jira Integration
-            <Badge variant="destructive">Connection Error</Badge>
-          </CardTitle>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2">
+              🎯 Jira Integration
+              <Badge variant="destructive">Connection Error</Badge>
+            </CardTitle>
+            {siteSelector}
+          </div>
         </CardHeader>
         <CardContent>
           <div className="text-center py-8 space-y-4">
@@ -203,6 +251,7 @@ export default function JiraPanel() {
               </p>
               <Button
                 onClick={() => {
+                  queryClient.invalidateQueries({ queryKey: ['/api/integrations/jira/sites'] });
                   queryClient.invalidateQueries({ queryKey: ['/api/integrations/jira/projects'] });
                   queryClient.invalidateQueries({ queryKey: ['/api/integrations/jira/issues'] });
                 }}
@@ -221,10 +270,13 @@ export default function JiraPanel() {
   return (
     <Card className="w-full">
       <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          🎯 Jira Integration
-          <Badge variant="secondary">Connected</Badge>
-        </CardTitle>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            🎯 Jira Integration
+            <Badge variant="secondary">Connected</Badge>
+          </CardTitle>
+          {siteSelector}
+        </div>
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="issues" className="w-full">
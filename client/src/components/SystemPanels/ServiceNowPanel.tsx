@@ -11,7 +11,22 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Ticket, Plus, AlertTriangle, Clock, CheckCircle, ArrowUp, Filter } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Ticket, Plus, AlertTriangle, AlertCircle, Clock, CheckCircle, ArrowUp, Filter, PauseCircle, RefreshCw } from "lucide-react";
+
+interface ServiceNowTicket {
+  id: string;
+  number: string;
+  title: string;
+  description: string;
+  status: "new" | "in_progress" | "on_hold" | "resolved" | "closed";
+  statusLabel: string;
+  priority: "critical" | "high" | "medium" | "low";
+  category: string;
+  assignee: string;
+  createdAt: string | null;
+  url: string;
+}
 
 export default function ServiceNowPanel() {
   const [newTicket, setNewTicket] = useState({ title: "", description: "", priority: "", category: "" });
@@ -20,73 +35,41 @@ export default function ServiceNowPanel() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Mock data - replace with real ServiceNow API calls
-  const tickets = [
-    {
-      id: "INC001234",
-      title: "Email server not responding",
-      status: "Open",
-      priority: "High",
-      category: "Infrastructure",
-      assignee: "IT Support Team",
-      created: "2 hours ago",
-      description: "Users unable to access email. Server appears to be down."
-    },
-    {
-      id: "INC001235",
-      title: "VPN connection issues",
-      status: "In Progress",
-      priority: "Medium",
-      category: "Network",
-      assignee: "Network Team",
-      created: "5 hours ago",
-      description: "Multiple users reporting VPN connectivity problems."
-    },
-    {
-      id: "INC001236",
-      title: "Software license renewal",
-      status: "Resolved",
-      priority: "Low",
-      category: "Licensing",
-      assignee: "Procurement",
-      created: "1 day ago",
-      description: "Annual software license needs renewal."
-    },
-  ];
+  const { data: tickets = [], isLoading, error } = useQuery<ServiceNowTicket[]>({
+    queryKey: ["/api/integrations/servicenow/tickets"],
+    retry: false,
+  });
 
-  const categories = [
-    "Infrastructure", "Network", "Software", "Hardware", "Security", "Licensing"
-  ];
+  const categories = ["inquiry", "software", "hardware", "network", "database"];
 
-  const priorities = ["Low", "Medium", "High", "Critical"];
+  const priorities: ServiceNowTicket["priority"][] = ["low", "medium", "high", "critical"];
 
   const createTicket = useMutation({
-    mutationFn: async (ticketData: any) => {
-      // Replace with actual ServiceNow API call
-      await apiRequest("/api/integrations/servicenow/tickets", { method: "POST", body: JSON.stringify(ticketData) });
+    mutationFn: async (ticketData: typeof newTicket) => {
+      const response = await apiRequest("/api/integrations/servicenow/tickets", { method: "POST", body: ticketData });
+      return response.json() as Promise<ServiceNowTicket>;
     },
-    onSuccess: () => {
+    onSuccess: (ticket) => {
       setNewTicket({ title: "", description: "", priority: "", category: "" });
       setShowCreateDialog(false);
       toast({
         title: "Ticket Created",
-        description: "Your ServiceNow ticket has been created successfully",
+        description: `${ticket.number} has been created in ServiceNow`,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/integrations/servicenow/tickets"] });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Failed to Create Ticket",
-        description: "Could not create ServiceNow ticket",
+        description: error.message,
         variant: "destructive",
       });
     },
   });
 
   const updateTicket = useMutation({
-    mutationFn: async ({ id, updates }: { id: string; updates: any }) => {
-      // Replace with actual ServiceNow API call
-      await apiRequest(`/api/integrations/servicenow/tickets/${id}`, { method: "PUT", body: JSON.stringify(updates) });
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<Pick<ServiceNowTicket, "status" | "priority">> }) => {
+      await apiRequest(`/api/integrations/servicenow/tickets/${id}`, { method: "PUT", body: updates });
     },
     onSuccess: () => {
       toast({
@@ -95,10 +78,10 @@ export default function ServiceNowPanel() {
       });
       queryClient.invalidateQueries({ queryKey: ["/api/integrations/servicenow/tickets"] });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Update Failed",
-        description: "Could not update ticket",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -116,28 +99,69 @@ export default function ServiceNowPanel() {
     createTicket.mutate(newTicket);
   };
 
-  const getStatusIcon = (status: string) => {
+  // Escalating raises the priority one level
+  const escalate = (ticket: ServiceNowTicket) => {
+    const next = priorities[priorities.indexOf(ticket.priority) + 1];
+    if (next) updateTicket.mutate({ id: ticket.id, updates: { priority: next } });
+  };
+
+  const getStatusIcon = (status: ServiceNowTicket["status"]) => {
     switch (status) {
-      case "Open": return <AlertTriangle className="h-4 w-4 text-red-500" />;
-      case "In Progress": return <Clock className="h-4 w-4 text-yellow-500" />;
-      case "Resolved": return <CheckCircle className="h-4 w-4 text-green-500" />;
+      case "new": return <AlertTriangle className="h-4 w-4 text-red-500" />;
+      case "in_progress": return <Clock className="h-4 w-4 text-yellow-500" />;
+      case "on_hold": return <PauseCircle className="h-4 w-4 text-gray-500" />;
+      case "resolved":
+      case "closed": return <CheckCircle className="h-4 w-4 text-green-500" />;
       default: return <Ticket className="h-4 w-4 text-gray-500" />;
     }
   };
 
-  const getPriorityColor = (priority: string) => {
+  const getPriorityColor = (priority: ServiceNowTicket["priority"]) => {
     switch (priority) {
-      case "Critical": return "bg-red-500";
-      case "High": return "bg-orange-500";
-      case "Medium": return "bg-yellow-500";
-      case "Low": return "bg-green-500";
+      case "critical": return "bg-red-500";
+      case "high": return "bg-orange-500";
+      case "medium": return "bg-yellow-500";
+      case "low": return "bg-green-500";
       default: return "bg-gray-500";
     }
   };
 
-  const filteredTickets = filterStatus === "all" 
-    ? tickets 
-    : tickets.filter(ticket => ticket.status.toLowerCase() === filterStatus.toLowerCase());
+  const isClosed = (ticket: ServiceNowTicket) => ticket.status === "resolved" || ticket.status === "closed";
+
+  const filteredTickets = filterStatus === "all"
+    ? tickets
+    : filterStatus === "resolved"
+      ? tickets.filter(isClosed)
+      : tickets.filter(ticket => ticket.status === filterStatus);
+
+  if (error) {
+    return (
+      <Card className="h-96" data-testid="servicenow-panel">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2">
+            <div className="w-6 h-6 bg-teal-600 rounded flex items-center justify-center">
+              <Ticket className="text-white h-4 w-4" />
+            </div>
+            ServiceNow ITSM
+            <Badge variant="destructive" className="ml-auto">Connection Error</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-center py-8 space-y-4">
+            <AlertCircle className="h-8 w-8 text-red-600 mx-auto" />
+            <p className="text-sm text-gray-500 dark:text-slate-400">{(error as Error).message}</p>
+            <Button
+              variant="outline"
+              onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/integrations/servicenow/tickets"] })}
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Retry Connection
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
 
   return (
     <Card className="h-96" data-testid="servicenow-panel">
@@ -169,8 +193,8 @@ export default function ServiceNowPanel() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Status</SelectItem>
-                    <SelectItem value="open">Open</SelectItem>
-                    <SelectItem value="in progress">In Progress</SelectItem>
+                    <SelectItem value="new">New</SelectItem>
+                    <SelectItem value="in_progress">In Progress</SelectItem>
                     <SelectItem value="resolved">Resolved</SelectItem>
                   </SelectContent>
                 </Select>
@@ -187,6 +211,12 @@ export default function ServiceNowPanel() {
 
             <ScrollArea className="flex-1 px-3">
               <div className="space-y-3 py-3">
+                {isLoading && (
+                  <p className="text-sm text-gray-500 text-center py-6">Loading tickets...</p>
+                )}
+                {!isLoading && filteredTickets.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-6">No tickets</p>
+                )}
                 {filteredTickets.map((ticket) => (
                   <div
                     key={ticket.id}
@@ -196,12 +226,12 @@ export default function ServiceNowPanel() {
                     <div className="flex items-start justify-between mb-2">
                       <div className="flex items-center gap-2">
                         {getStatusIcon(ticket.status)}
-                        <span className="font-medium text-sm">{ticket.id}</span>
+                        <span className="font-medium text-sm">{ticket.number}</span>
                         <div className={`w-2 h-2 rounded-full ${getPriorityColor(ticket.priority)}`}></div>
                       </div>
-                      <Badge variant={ticket.status === "Open" ? "destructive" : 
-                                    ticket.status === "In Progress" ? "default" : "secondary"}>
-                        {ticket.status}
+                      <Badge variant={ticket.status === "new" ? "destructive" :
+                                    ticket.status === "in_progress" ? "default" : "secondary"}>
+                        {ticket.statusLabel}
                       </Badge>
                     </div>
                     <h4 className="font-medium text-sm mb-1">{ticket.title}</h4>
@@ -209,8 +239,10 @@ export default function ServiceNowPanel() {
                       {ticket.description}
                     </p>
                     <div className="flex items-center justify-between text-xs text-gray-500">
-                      <span>{ticket.category} • {ticket.priority} Priority</span>
-                      <span>{ticket.created}</span>
+                      <span className="capitalize">
+                        {[ticket.category, `${ticket.priority} priority`].filter(Boolean).join(" • ")}
+                      </span>
+                      <span>{ticket.createdAt ? formatDistanceToNow(new Date(ticket.createdAt), { addSuffix: true }) : ""}</span>
                     </div>
                     <div className="flex gap-1 mt-2">
                       <Button 
@@ -219,9 +251,9 @@ export default function ServiceNowPanel() {
                         className="h-6 text-xs"
                         onClick={() => updateTicket.mutate({ 
                           id: ticket.id, 
-                          updates: { status: "In Progress" } 
+                          updates: { status: "in_progress" }
                         })}
-                        disabled={ticket.status === "Resolved" || updateTicket.isPending}
+                        disabled={isClosed(ticket) || ticket.status === "in_progress" || updateTicket.isPending}
                         data-testid={`update-ticket-${ticket.id}`}
                       >
                         Update
@@ -230,6 +262,8 @@ export default function ServiceNowPanel() {
                         size="sm" 
                         variant="ghost" 
                         className="h-6 text-xs"
+                        onClick={() => escalate(ticket)}
+                        disabled={isClosed(ticket) || ticket.priority === "critical" || updateTicket.isPending}
                         data-testid={`escalate-ticket-${ticket.id}`}
                       >
                         <ArrowUp className="h-3 w-3 mr-1" />
@@ -264,7 +298,7 @@ export default function ServiceNowPanel() {
                       </SelectTrigger>
                       <SelectContent>
                         {priorities.map((priority) => (
-                          <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+                          <SelectItem key={priority} value={priority} className="capitalize">{priority}</SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
@@ -278,7 +312,7 @@ export default function ServiceNowPanel() {
                       </SelectTrigger>
                       <SelectContent>
                         {categories.map((category) => (
-                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                          <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
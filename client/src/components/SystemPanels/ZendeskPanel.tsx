@@ -4,91 +4,82 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { MessageSquare, Plus, User, Clock, Star, Send, Tag } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { MessageSquare, Send, Tag, AlertCircle, RefreshCw, Link2, ExternalLink } from "lucide-react";
+
+interface ZendeskTicket {
+  id: number;
+  externalId: string;
+  subject: string;
+  description: string | null;
+  status: "new" | "open" | "pending" | "hold" | "solved" | "closed";
+  priority: "low" | "normal" | "high" | "urgent" | null;
+  type: string | null;
+  requester: string | null;
+  assignee: string | null;
+  tags: string[] | null;
+  externalUrl: string | null;
+  updatedAt: string | null;
+  incident: { id: number; title: string; status: string; severity: string | null; systemName: string } | null;
+}
+
+interface ActiveIncident {
+  id: number;
+  title: string;
+  systemName: string;
+}
+
+const PRIORITIES: NonNullable<ZendeskTicket["priority"]>[] = ["low", "normal", "high", "urgent"];
 
 export default function ZendeskPanel() {
   const [newTicket, setNewTicket] = useState({ subject: "", description: "", priority: "normal", type: "question" });
-  const [selectedTicket, setSelectedTicket] = useState<string | null>(null);
+  const [selectedTicket, setSelectedTicket] = useState<number | null>(null);
   const [newReply, setNewReply] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Mock data - replace with real Zendesk API calls
-  const tickets = [
-    {
-      id: "12345",
-      subject: "Login issues with mobile app",
-      status: "open",
-      priority: "high",
-      type: "problem",
-      requester: { name: "John Smith", email: "john.smith@company.com", avatar: "" },
-      assignee: { name: "Support Agent", avatar: "" },
-      created: "2 hours ago",
-      updated: "30 minutes ago",
-      tags: ["mobile", "authentication"],
-      description: "I'm unable to log into the mobile app. Getting 'Invalid credentials' error even with correct password."
-    },
-    {
-      id: "12346",
-      subject: "Feature request: Dark mode",
-      status: "pending",
-      priority: "low",
-      type: "feature_request",
-      requester: { name: "Sarah Johnson", email: "sarah.j@email.com", avatar: "" },
-      assignee: { name: "Product Team", avatar: "" },
-      created: "1 day ago",
-      updated: "6 hours ago",
-      tags: ["feature", "ui"],
-      description: "Would love to see a dark mode option in the app settings."
-    },
-    {
-      id: "12347",
-      subject: "Billing inquiry",
-      status: "solved",
-      priority: "normal",
-      type: "question",
-      requester: { name: "Mike Wilson", email: "mike.w@business.com", avatar: "" },
-      assignee: { name: "Billing Team", avatar: "" },
-      created: "3 days ago",
-      updated: "2 days ago",
-      tags: ["billing", "subscription"],
-      description: "Question about my recent invoice charges."
-    },
-  ];
+  const { data: tickets = [], isLoading, error } = useQuery<ZendeskTicket[]>({
+    queryKey: ["/api/integrations/zendesk/tickets"],
+    retry: false,
+  });
+
+  // Outages a ticket can be linked to
+  const { data: activeIncidents = [] } = useQuery<ActiveIncident[]>({
+    queryKey: ["/api/incidents/active"],
+  });
 
   const createTicket = useMutation({
-    mutationFn: async (ticketData: any) => {
-      // Replace with actual Zendesk API call
-      await apiRequest("/api/integrations/zendesk/tickets", { method: "POST", body: JSON.stringify(ticketData) });
+    mutationFn: async (ticketData: typeof newTicket) => {
+      const response = await apiRequest("/api/integrations/zendesk/tickets", { method: "POST", body: ticketData });
+      return response.json() as Promise<ZendeskTicket>;
     },
-    onSuccess: () => {
+    onSuccess: (ticket) => {
       setNewTicket({ subject: "", description: "", priority: "normal", type: "question" });
       toast({
         title: "Ticket Created",
-        description: "Your support ticket has been created successfully",
+        description: `Ticket #${ticket.externalId} has been created in Zendesk`,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/integrations/zendesk/tickets"] });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Failed to Create Ticket",
-        description: "Could not create support ticket",
+        description: error.message,
         variant: "destructive",
       });
     },
   });
 
   const updateTicket = useMutation({
-    mutationFn: async ({ id, updates }: { id: string; updates: any }) => {
-      // Replace with actual Zendesk API call
-      await apiRequest(`/api/integrations/zendesk/tickets/${id}`, { method: "PUT", body: JSON.stringify(updates) });
+    mutationFn: async ({ id, updates }: { id: number; updates: Partial<Pick<ZendeskTicket, "status" | "priority">> }) => {
+      await apiRequest(`/api/integrations/zendesk/tickets/${id}`, { method: "PUT", body: updates });
     },
     onSuccess: () => {
       toast({
@@ -97,31 +88,51 @@ export default function ZendeskPanel() {
       });
       queryClient.invalidateQueries({ queryKey: ["/api/integrations/zendesk/tickets"] });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Update Failed",
-        description: "Could not update ticket",
+        description: error.message,
         variant: "destructive",
       });
     },
   });
 
   const addReply = useMutation({
-    mutationFn: async ({ ticketId, message }: { ticketId: string; message: string }) => {
-      // Replace with actual Zendesk API call
-      await apiRequest(`/api/integrations/zendesk/tickets/${ticketId}/comments`, { method: "POST", body: JSON.stringify({ message }) });
+    mutationFn: async ({ ticketId, message, isPublic }: { ticketId: number; message: string; isPublic: boolean }) => {
+      await apiRequest(`/api/integrations/zendesk/tickets/${ticketId}/comments`, { method: "POST", body: { body: message, public: isPublic } });
     },
-    onSuccess: () => {
+    onSuccess: (_data, { isPublic }) => {
       setNewReply("");
       toast({
-        title: "Reply Added",
-        description: "Your reply has been posted",
+        title: isPublic ? "Reply Added" : "Note Added",
+        description: isPublic ? "Your reply has been sent to the requester" : "Your internal note has been added",
       });
+      queryClient.invalidateQueries({ queryKey: ["/api/integrations/zendesk/tickets"] });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Failed to Reply",
-        description: "Could not add reply to ticket",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const linkIncident = useMutation({
+    mutationFn: async ({ ticketId, incidentId }: { ticketId: number; incidentId: number | null }) => {
+      await apiRequest(`/api/integrations/zendesk/tickets/${ticketId}/incident`, { method: "PUT", body: { incidentId } });
+    },
+    onSuccess: (_data, { incidentId }) => {
+      toast({
+        title: incidentId === null ? "Incident Unlinked" : "Incident Linked",
+        description: incidentId === null ? "The ticket is no longer linked to an incident" : "The ticket is now linked to the incident",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/integrations/zendesk/tickets"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Link Failed",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -139,22 +150,38 @@ export default function ZendeskPanel() {
     createTicket.mutate(newTicket);
   };
 
-  const handleAddReply = () => {
+  const handleAddReply = (isPublic: boolean) => {
     if (!newReply.trim() || !selectedTicket) return;
-    addReply.mutate({ ticketId: selectedTicket, message: newReply });
+    addReply.mutate({ ticketId: selectedTicket, message: newReply, isPublic });
+  };
+
+  // Escalating raises the priority one level
+  const escalate = (ticket: ZendeskTicket) => {
+    const next = PRIORITIES[PRIORITIES.indexOf(ticket.priority ?? "normal") + 1];
+    if (next) updateTicket.mutate({ id: ticket.id, updates: { priority: next } });
   };
 
+  const initials = (name: string) => name.split(" ").map(n => n[0]).join("").slice(0, 2);
+
+  // Link options: the active incidents, plus the linked one if it has been resolved since
+  const incidentOptions = (ticket: ZendeskTicket) =>
+    ticket.incident && !activeIncidents.some(incident => incident.id === ticket.incident!.id)
+      ? [...activeIncidents, ticket.incident]
+      : activeIncidents;
+
   const getStatusBadge = (status: string) => {
     const variants = {
       open: "destructive",
+      new: "destructive",
       pending: "default",
+      hold: "outline",
       solved: "secondary",
       closed: "outline"
     };
     return variants[status as keyof typeof variants] || "secondary";
   };
 
-  const getPriorityIcon = (priority: string) => {
+  const getPriorityIcon = (priority: string | null) => {
     switch (priority) {
       case "urgent": return "🔴";
       case "high": return "🟠";
@@ -164,6 +191,35 @@ export default function ZendeskPanel() {
     }
   };
 
+  if (error) {
+    return (
+      <Card className="h-96" data-testid="zendesk-panel">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2">
+            <div className="w-6 h-6 bg-green-600 rounded flex items-center justify-center">
+              <MessageSquare className="text-white h-4 w-4" />
+            </div>
+            Zendesk Support
+            <Badge variant="destructive" className="ml-auto">Connection Error</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-center py-8 space-y-4">
+            <AlertCircle className="h-8 w-8 text-red-600 mx-auto" />
+            <p className="text-sm text-gray-500 dark:text-slate-400">{(error as Error).message}</p>
+            <Button
+              variant="outline"
+              onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/integrations/zendesk/tickets"] })}
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Retry Connection
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card className="h-96" data-testid="zendesk-panel">
       <CardHeader className="pb-3">
@@ -187,6 +243,12 @@ export default function ZendeskPanel() {
           <TabsContent value="tickets" className="flex-1 flex flex-col m-0">
             <ScrollArea className="flex-1 px-3">
               <div className="space-y-3 py-3">
+                {isLoading && (
+                  <p className="text-sm text-gray-500 text-center py-6">Loading tickets...</p>
+                )}
+                {!isLoading && tickets.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-6">No tickets synced yet</p>
+                )}
                 {tickets.map((ticket) => (
                   <div
                     key={ticket.id}
@@ -199,7 +261,7 @@ export default function ZendeskPanel() {
                     <div className="flex items-start justify-between mb-2">
                       <div className="flex items-center gap-2">
                         <span className="text-lg">{getPriorityIcon(ticket.priority)}</span>
-                        <span className="font-medium text-sm">#{ticket.id}</span>
+                        <span className="font-medium text-sm">#{ticket.externalId}</span>
                       </div>
                       <Badge variant={getStatusBadge(ticket.status) as any}>
                         {ticket.status}
@@ -210,19 +272,33 @@ export default function ZendeskPanel() {
                     
                     <div className="flex items-center gap-2 mb-2">
                       <Avatar className="h-6 w-6">
-                        <AvatarImage src={ticket.requester.avatar} />
                         <AvatarFallback className="text-xs">
-                          {ticket.requester.name.split(' ').map(n => n[0]).join('')}
+                          {ticket.requester ? initials(ticket.requester) : "?"}
                         </AvatarFallback>
                       </Avatar>
                       <span className="text-xs text-gray-600 dark:text-gray-400">
-                        {ticket.requester.name}
+                        {ticket.requester || "Unknown requester"}
                       </span>
-                      <span className="text-xs text-gray-500">•</span>
-                      <span className="text-xs text-gray-500">{ticket.created}</span>
+                      {ticket.updatedAt && (
+                        <>
+                          <span className="text-xs text-gray-500">•</span>
+                          <span className="text-xs text-gray-500">
+                            {formatDistanceToNow(new Date(ticket.updatedAt), { addSuffix: true })}
+                          </span>
+                        </>
+                      )}
                     </div>
 
-                    {ticket.tags.length > 0 && (
+                    {ticket.incident && (
+                      <div className="flex items-center gap-1 mb-2 text-xs text-orange-700 dark:text-orange-300">
+                        <Link2 className="h-3 w-3" />
+                        <span className="truncate">
+                          {ticket.incident.systemName}: {ticket.incident.title} ({ticket.incident.status})
+                        </span>
+                      </div>
+                    )}
+
+                    {ticket.tags && ticket.tags.length > 0 && (
                       <div className="flex flex-wrap gap-1 mb-2">
                         {ticket.tags.map((tag) => (
                           <Badge key={tag} variant="outline" className="text-xs h-5">
@@ -239,32 +315,62 @@ export default function ZendeskPanel() {
                           {ticket.description}
                         </p>
                         
-                        <div className="flex gap-2 mb-3">
+                        <div className="flex gap-2 mb-3" onClick={(e) => e.stopPropagation()}>
                           <Button 
                             size="sm" 
                             variant="outline"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              updateTicket.mutate({ 
-                                id: ticket.id, 
-                                updates: { status: ticket.status === 'open' ? 'solved' : 'open' }
-                              });
-                            }}
-                            disabled={updateTicket.isPending}
+                            onClick={() => updateTicket.mutate({
+                              id: ticket.id,
+                              updates: { status: ticket.status === 'solved' ? 'open' : 'solved' }
+                            })}
+                            disabled={ticket.status === 'closed' || updateTicket.isPending}
                             data-testid={`toggle-status-${ticket.id}`}
                           >
-                            {ticket.status === 'open' ? 'Mark Solved' : 'Reopen'}
+                            {ticket.status === 'solved' || ticket.status === 'closed' ? 'Reopen' : 'Mark Solved'}
                           </Button>
-                          <Button 
-                            size="sm" 
+                          <Button
+                            size="sm"
                             variant="ghost"
+                            onClick={() => escalate(ticket)}
+                            disabled={ticket.status === 'closed' || ticket.priority === 'urgent' || updateTicket.isPending}
                             data-testid={`escalate-${ticket.id}`}
                           >
                             Escalate
                           </Button>
+                          {ticket.externalUrl && (
+                            <Button size="sm" variant="ghost" asChild>
+                              <a href={ticket.externalUrl} target="_blank" rel="noopener noreferrer">
+                                <ExternalLink className="h-3 w-3" />
+                              </a>
+                            </Button>
+                          )}
+                        </div>
+
+                        <div className="mb-3" onClick={(e) => e.stopPropagation()}>
+                          <label className="text-xs font-medium mb-1 block">Linked incident</label>
+                          <Select
+                            value={ticket.incident ? String(ticket.incident.id) : "none"}
+                            onValueChange={(value) => linkIncident.mutate({
+                              ticketId: ticket.id,
+                              incidentId: value === "none" ? null : Number(value),
+                            })}
+                            disabled={linkIncident.isPending}
+                          >
+                            <SelectTrigger className="h-8 text-xs" data-testid={`link-incident-${ticket.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Not linked</SelectItem>
+                              {incidentOptions(ticket).map((incident) => (
+                                <SelectItem key={incident.id} value={String(incident.id)}>
+                                  {incident.systemName}: {incident.title}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                         </div>
 
-                        <div className="space-y-2">
+                        <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
                           <Textarea
                             placeholder="Add a reply..."
                             value={newReply}
@@ -272,13 +378,19 @@ export default function ZendeskPanel() {
                             className="resize-none min-h-[60px] text-sm"
                             data-testid={`reply-input-${ticket.id}`}
                           />
-                          <div className="flex justify-end">
-                            <Button 
-                              size="sm" 
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleAddReply();
-                              }}
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleAddReply(false)}
+                              disabled={!newReply.trim() || addReply.isPending}
+                              data-testid={`send-note-${ticket.id}`}
+                            >
+                              Internal Note
+                            </Button>
+                            <Button
+                              size="sm"
+                              onClick={() => handleAddReply(true)}
                               disabled={!newReply.trim() || addReply.isPending}
                               data-testid={`send-reply-${ticket.id}`}
                             >
@@ -319,7 +431,7 @@ export default function ZendeskPanel() {
                         <SelectItem value="question">Question</SelectItem>
                         <SelectItem value="incident">Incident</SelectItem>
                         <SelectItem value="problem">Problem</SelectItem>
-                        <SelectItem value="feature_request">Feature Request</SelectItem>
+                        <SelectItem value="task">Task</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
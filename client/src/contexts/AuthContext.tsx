@@ -1,4 +1,6 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { apiRequest } from '@/lib/queryClient';
+import type { Permission } from '@shared/permissions';
 
 interface User {
   id: string;
@@ -6,8 +8,11 @@ interface User {
   firstName: string;
   lastName: string;
   role: string;
+  permissions: Permission[];
   emailVerified: boolean;
   authProvider: string;
+  mfaEnabled: boolean;
+  mfaEnrollmentRequired: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -17,38 +22,44 @@ interface AuthContextType {
   setUser: (user: User | null) => void;
   logout: () => void;
   isAuthenticated: boolean;
+  isLoading: boolean;
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [user, setUserState] = useState<User | null>(null);
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    // Load user from localStorage on app start
-    const storedUser = localStorage.getItem('querylinker_user');
-    if (storedUser) {
-      try {
-        setUserState(JSON.parse(storedUser));
-      } catch (error) {
-        console.error('Error parsing stored user:', error);
-        localStorage.removeItem('querylinker_user');
-      }
-    }
+    // Hydrate the user from the server session on app start
+    fetch('/api/auth/me', { credentials: 'include' })
+      .then(async (res) => {
+        if (res.ok) {
+          const data = await res.json();
+          setUser(data.user);
+        } else {
+          setUser(null);
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading session user:', error);
+        setUser(null);
+      })
+      .finally(() => setIsLoading(false));
+
+    // Identity used to be kept client-side; drop any stale copy
+    localStorage.removeItem('querylinker_user');
   }, []);
 
-  const setUser = (newUser: User | null) => {
-    setUserState(newUser);
-    if (newUser) {
-      localStorage.setItem('querylinker_user', JSON.stringify(newUser));
-    } else {
-      localStorage.removeItem('querylinker_user');
+  const logout = async () => {
+    try {
+      await apiRequest('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Error logging out:', error);
     }
-  };
-
-  const logout = () => {
     setUser(null);
-    localStorage.clear();
     sessionStorage.clear();
     // Redirect to landing page after logout
     window.location.href = '/';
@@ -59,6 +70,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setUser,
     logout,
     isAuthenticated: !!user,
+    isLoading,
+    can: (permission) => !!user?.permissions?.includes(permission),
   };
 
   return (
@@ -0,0 +1,172 @@
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Eye, EyeOff } from "lucide-react";
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+
+export default function AcceptInvite() {
+  const [token, setToken] = useState("");
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { setUser } = useAuth();
+
+  // Extract the invitation token from URL params
+  useEffect(() => {
+    const tokenParam = new URLSearchParams(window.location.search).get('token');
+    if (tokenParam) {
+      setToken(tokenParam);
+    } else {
+      setLocation('/login');
+    }
+  }, [setLocation]);
+
+  const acceptInviteMutation = useMutation({
+    mutationFn: async (data: { token: string; password: string; firstName: string; lastName: string }) => {
+      const response = await apiRequest('/api/auth/accept-invite', {
+        method: 'POST',
+        body: data,
+      });
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      if (data && data.user) {
+        setUser(data.user);
+      }
+      toast({
+        title: "Welcome to QueryLinker",
+        description: "Your account is ready.",
+      });
+      setLocation('/');
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Invitation Failed",
+        description: error.message || "Failed to accept invitation",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < 8) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Password",
+        description: "Password must be at least 8 characters long",
+      });
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      toast({
+        variant: "destructive",
+        title: "Passwords Don't Match",
+        description: "Please make sure both passwords are identical",
+      });
+      return;
+    }
+
+    acceptInviteMutation.mutate({ token, password, firstName, lastName });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-white shadow-sm border border-gray-200 rounded-lg p-8">
+        <div className="mb-6">
+          <h1 className="text-2xl font-semibold text-gray-900 mb-2">
+            Join QueryLinker
+          </h1>
+          <p className="text-gray-600 text-sm">
+            You've been invited to QueryLinker. Choose a password to finish setting up your account.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="firstName" className="text-sm text-gray-700">First name</Label>
+              <Input
+                id="firstName"
+                value={firstName}
+                onChange={(e) => setFirstName(e.target.value)}
+                data-testid="input-first-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lastName" className="text-sm text-gray-700">Last name</Label>
+              <Input
+                id="lastName"
+                value={lastName}
+                onChange={(e) => setLastName(e.target.value)}
+                data-testid="input-last-name"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="password" className="text-sm text-blue-600 font-medium">
+              Password
+            </Label>
+            <div className="relative">
+              <Input
+                id="password"
+                type={showPassword ? "text" : "password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="pr-10"
+                required
+                data-testid="input-password"
+              />
+              <button
+                type="button"
+                onClick={() => setShowPassword(!showPassword)}
+                className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500 hover:text-gray-700"
+                data-testid="button-toggle-password"
+              >
+                {showPassword ? <EyeOff size={16} /> : <Eye size={16} />}
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="confirmPassword" className="text-sm text-gray-700">
+              Confirm password
+            </Label>
+            <Input
+              id="confirmPassword"
+              type={showPassword ? "text" : "password"}
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+              data-testid="input-confirm-password"
+            />
+          </div>
+
+          <div className="pt-4">
+            <Button
+              type="submit"
+              disabled={acceptInviteMutation.isPending || !password || password !== confirmPassword}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-full font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              data-testid="button-accept-invite"
+            >
+              {acceptInviteMutation.isPending ? "Setting up account..." : "Accept invitation"}
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+}
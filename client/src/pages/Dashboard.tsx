@@ -11,6 +11,7 @@ import RecentActivity from "@/components/Dashboard/RecentActivity";
 import ActiveIncidents from "@/components/Dashboard/ActiveIncidents";
 import SearchModal from "@/components/SearchModal";
 import SystemFeaturesPanel from "@/components/SystemFeatures/SystemFeaturesPanel";
+import type { IncidentTransitionEvent } from "@shared/schema";
 
 export default function Dashboard() {
   const { toast } = useToast();
@@ -24,6 +25,31 @@ export default function Dashboard() {
         title: "System Sync Complete",
         description: `System updated successfully`,
       });
+    } else if (message.type === 'data_source_circuit_open') {
+      queryClient.invalidateQueries({ queryKey: ["/api/data-sources"] });
+      toast({
+        title: "Data Source Paused",
+        description: `${message.data?.name} keeps failing to sync and has been paused`,
+        variant: "destructive",
+      });
+    } else if (message.type === 'data_source_recovered') {
+      queryClient.invalidateQueries({ queryKey: ["/api/data-sources"] });
+      toast({
+        title: "Data Source Recovered",
+        description: `${message.data?.name} is syncing again`,
+      });
+    } else if (message.type === 'data_source_sync') {
+      // Webhook pushes land between scheduled syncs
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents/active"] });
+    } else if (message.type === 'incident_transition') {
+      const event = message.data as IncidentTransitionEvent;
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents/active"] });
+      if (event.updateType === 'resolved') {
+        toast({
+          title: "Incident Resolved",
+          description: `${event.systemName}: ${event.title}`,
+        });
+      }
     }
   });
 
@@ -48,6 +74,7 @@ export default function Dashboard() {
     activeIncidents: Array.isArray(activeIncidents) ? activeIncidents.length : (metrics as any).activeIncidents || 0,
     criticalIncidents: Array.isArray(activeIncidents) ? activeIncidents.filter((i: any) => i.severity === 'critical').length : (metrics as any).criticalIncidents || 0,
     dataSourcesActive: Array.isArray(dataSources) ? dataSources.filter((ds: any) => ds.isActive).length : (metrics as any).dataSourcesActive || 0,
+    dataSourcesPaused: Array.isArray(dataSources) ? dataSources.filter((ds: any) => ds.isActive && ds.syncState === 'circuit_open').length : 0,
   } : undefined;
 
 
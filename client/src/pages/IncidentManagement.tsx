@@ -34,7 +34,7 @@ interface Incident {
   description: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
   priority: 'low' | 'medium' | 'high' | 'critical';
-  status: 'new' | 'in_progress' | 'resolved' | 'closed';
+  status: 'new' | 'in_progress' | 'on_hold' | 'resolved' | 'closed';
   assignee: string;
   reporter: string;
   createdAt: string;
@@ -42,9 +42,23 @@ interface Incident {
   affectedUsers?: number;
   category: string;
   subcategory?: string;
+  url?: string;
 }
 
-export default function IncidentManagement() {
+interface IncidentMetrics {
+  activeIncidents: number;
+  criticalIncidents: number;
+  resolvedToday: number;
+}
+
+interface IncidentManagementProps {
+  // Show the tickets of a connected ITSM instead of QueryLinker's own incidents
+  source?: 'servicenow';
+}
+
+const isToday = (date: string) => new Date(date).toDateString() === new Date().toDateString();
+
+export default function IncidentManagement({ source }: IncidentManagementProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [searchQuery, setSearchQuery] = useState("");
@@ -52,23 +66,34 @@ export default function IncidentManagement() {
   const [severityFilter, setSeverityFilter] = useState("all");
   const [activeTab, setActiveTab] = useState("active");
 
-  // Fetch incidents based on filters
-  const incidentsUrl = `/api/incidents?status=${encodeURIComponent(statusFilter)}&severity=${encodeURIComponent(severityFilter)}&search=${encodeURIComponent(searchQuery)}`;
-  const { data: incidents = [], isLoading, error } = useQuery({
+  // Fetch incidents based on filters. ServiceNow tickets are filtered here instead.
+  const incidentsUrl = source === 'servicenow'
+    ? "/api/integrations/servicenow/tickets"
+    : `/api/incidents?status=${encodeURIComponent(statusFilter)}&severity=${encodeURIComponent(severityFilter)}&search=${encodeURIComponent(searchQuery)}`;
+  const { data: incidents = [], isLoading, error } = useQuery<Incident[]>({
     queryKey: [incidentsUrl],
     refetchInterval: 30000, // Refresh every 30 seconds
   });
 
   // Fetch incident metrics
-  const { data: metrics } = useQuery({
+  const { data: fetchedMetrics } = useQuery<IncidentMetrics>({
     queryKey: ["/api/incident-metrics"],
     refetchInterval: 60000, // Refresh every minute
+    enabled: !source,
   });
 
+  const metrics: IncidentMetrics | undefined = source
+    ? {
+        activeIncidents: incidents.filter(incident => !['resolved', 'closed'].includes(incident.status)).length,
+        criticalIncidents: incidents.filter(incident => incident.severity === 'critical').length,
+        resolvedToday: incidents.filter(incident => incident.status === 'resolved' && isToday(incident.updatedAt)).length,
+      }
+    : fetchedMetrics;
+
   const refreshMutation = useMutation({
     mutationFn: async () => {
-      await queryClient.invalidateQueries({ queryKey: ["/api/incidents"] });
-      await queryClient.invalidateQueries({ queryKey: ["/api/incident-metrics"] });
+      await queryClient.invalidateQueries({ queryKey: [incidentsUrl] });
+      if (!source) await queryClient.invalidateQueries({ queryKey: ["/api/incident-metrics"] });
     },
     onSuccess: () => {
       toast({
@@ -99,6 +124,7 @@ export default function IncidentManagement() {
     switch (status) {
       case 'new': return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200';
       case 'in_progress': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
+      case 'on_hold': return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
       case 'resolved': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
       case 'closed': return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
       default: return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
@@ -111,7 +137,7 @@ export default function IncidentManagement() {
     const matchesStatus = statusFilter === 'all' || incident.status === statusFilter;
     const matchesSeverity = severityFilter === 'all' || incident.severity === severityFilter;
     const matchesTab = activeTab === 'all' || 
-                      (activeTab === 'active' && ['new', 'in_progress'].includes(incident.status)) ||
+                      (activeTab === 'active' && ['new', 'in_progress', 'on_hold'].includes(incident.status)) ||
                       (activeTab === 'resolved' && ['resolved', 'closed'].includes(incident.status));
     
     return matchesSearch && matchesStatus && matchesSeverity && matchesTab;
@@ -145,10 +171,12 @@ export default function IncidentManagement() {
           <div>
             <h1 className="text-2xl lg:text-3xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
               <AlertTriangle className="h-6 w-6 lg:h-8 lg:w-8 text-orange-600" />
-              Incident Management
+              {source === 'servicenow' ? 'ServiceNow Incidents' : 'Incident Management'}
             </h1>
             <p className="text-gray-600 dark:text-slate-400 mt-1">
-              Monitor, track, and resolve IT service incidents
+              {source === 'servicenow'
+                ? 'Open and recently updated incidents in your ServiceNow instance'
+                : 'Monitor, track, and resolve IT service incidents'}
             </p>
           </div>
           <div className="flex items-center gap-3">
@@ -274,6 +302,7 @@ export default function IncidentManagement() {
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="new">New</SelectItem>
                   <SelectItem value="in_progress">In Progress</SelectItem>
+                  <SelectItem value="on_hold">On Hold</SelectItem>
                   <SelectItem value="resolved">Resolved</SelectItem>
                   <SelectItem value="closed">Closed</SelectItem>
                 </SelectContent>
@@ -358,6 +387,11 @@ export default function IncidentManagement() {
                           <Badge variant="outline" className={getStatusColor(incident.status)}>
                             {incident.status.replace('_', ' ').toUpperCase()}
                           </Badge>
+                          {incident.category && (
+                            <Badge variant="outline" className="capitalize">
+                              {[incident.category, incident.subcategory].filter(Boolean).join(' / ')}
+                            </Badge>
+                          )}
                         </div>
                         <h4 className="font-medium text-gray-900 dark:text-white truncate">
                           {incident.title}
@@ -384,7 +418,12 @@ export default function IncidentManagement() {
                       <Button variant="outline" size="sm">
                         View Details
                       </Button>
-                      <Button variant="ghost" size="sm">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={!incident.url}
+                        onClick={() => incident.url && window.open(incident.url, '_blank', 'noopener,noreferrer')}
+                      >
                         <ExternalLink className="h-4 w-4" />
                       </Button>
                     </div>
@@ -3,6 +3,7 @@ import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { Link as LinkIcon, Eye, EyeOff, ArrowLeft } from "lucide-react";
 import { FaGoogle, FaFacebook, FaTwitter } from "react-icons/fa";
 import { useState } from "react";
@@ -20,6 +21,9 @@ export default function Login() {
   const [firstName, setFirstName] = useState("");
   const [lastName, setLastName] = useState("");
   const [rememberMe, setRememberMe] = useState(false);
+  const [mfaChallenge, setMfaChallenge] = useState(false);
+  const [mfaCode, setMfaCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const { setUser } = useAuth();
@@ -41,15 +45,21 @@ export default function Login() {
       return await response.json();
     },
     onSuccess: (data) => {
-      // Store user data from login response
-      if (data && data.user) {
-        setUser(data.user);
+      // Password was correct but the account has a second factor
+      if (data && data.mfaRequired) {
+        setMfaChallenge(true);
+        setMfaCode("");
+        return;
       }
-      toast({
-        title: "Login Successful",
-        description: "Welcome back to QueryLinker!",
-      });
-      setLocation('/');
+      if (data && data.emailVerificationRequired) {
+        toast({
+          title: "Verify Your Email",
+          description: data.message,
+        });
+        setLocation(`/verify-email?email=${encodeURIComponent(data.email || email)}`);
+        return;
+      }
+      completeLogin(data);
     },
     onError: (error: any) => {
       toast({
@@ -60,6 +70,50 @@ export default function Login() {
     },
   });
 
+  // Second login step for MFA-enabled accounts
+  const verifyMfaMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest('/api/auth/mfa/verify', {
+        method: 'POST',
+        body: { code },
+      });
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      completeLogin(data);
+      if (typeof data.recoveryCodesRemaining === 'number' && data.recoveryCodesRemaining < 3) {
+        toast({
+          title: "Running Low on Recovery Codes",
+          description: `Only ${data.recoveryCodesRemaining} recovery codes left. Generate new ones in Settings.`,
+        });
+      }
+    },
+    onError: (error: any) => {
+      setMfaCode("");
+      // An expired challenge means the password step has to be repeated
+      if (error.message?.startsWith('401: MFA challenge expired')) {
+        setMfaChallenge(false);
+      }
+      toast({
+        variant: "destructive",
+        title: "Verification Failed",
+        description: error.message || "Invalid verification code",
+      });
+    },
+  });
+
+  const completeLogin = (data: any) => {
+    // Store user data from login response
+    if (data && data.user) {
+      setUser(data.user);
+    }
+    toast({
+      title: "Login Successful",
+      description: "Welcome back to QueryLinker!",
+    });
+    setLocation('/');
+  };
+
   // Register mutation
   const registerMutation = useMutation({
     mutationFn: async (userData: { email: string; password: string; firstName: string; lastName: string }) => {
@@ -76,11 +130,16 @@ export default function Login() {
       
       return await response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       toast({
         title: "Registration Successful",
-        description: "Account created! Please login with your credentials.",
+        description: data?.message || "Account created! Please login with your credentials.",
       });
+      // New accounts confirm their email address before anything else
+      if (data && data.emailVerificationRequired) {
+        setLocation(`/verify-email?email=${encodeURIComponent(email)}`);
+        return;
+      }
       setIsSignup(false);
       // Clear signup fields
       setFirstName("");
@@ -234,6 +293,84 @@ export default function Login() {
               </div>
 
               {/* Authentication form */}
+              {mfaChallenge ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  verifyMfaMutation.mutate(mfaCode);
+                }}
+                className="space-y-4"
+                data-testid="form-mfa"
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="mfaCode" className="text-sm text-gray-700">
+                    {useRecoveryCode ? "Recovery Code" : "Authentication Code"}
+                  </Label>
+                  {useRecoveryCode ? (
+                    <Input
+                      id="mfaCode"
+                      placeholder="xxxxx-xxxxx"
+                      value={mfaCode}
+                      onChange={(e) => setMfaCode(e.target.value)}
+                      className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      autoComplete="off"
+                      data-testid="input-recovery-code"
+                    />
+                  ) : (
+                    <InputOTP
+                      id="mfaCode"
+                      maxLength={6}
+                      value={mfaCode}
+                      onChange={setMfaCode}
+                      onComplete={(code: string) => verifyMfaMutation.mutate(code)}
+                      autoFocus
+                      data-testid="input-mfa-code"
+                    >
+                      <InputOTPGroup>
+                        {Array.from({ length: 6 }, (_, index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    {useRecoveryCode
+                      ? "Each recovery code can only be used once."
+                      : "Enter the 6-digit code from your authenticator app."}
+                  </p>
+                </div>
+
+                <div className="flex items-center justify-between py-2">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setMfaCode("");
+                    }}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                    data-testid="button-toggle-recovery-code"
+                  >
+                    {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setMfaChallenge(false)}
+                    className="text-sm text-gray-600 hover:text-gray-800"
+                  >
+                    Back
+                  </button>
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={verifyMfaMutation.isPending || !mfaCode}
+                  className="w-full bg-blue-600 hover:bg-blue-700 text-white py-3 rounded-xl font-semibold transition-colors disabled:opacity-50"
+                  data-testid="button-verify-mfa"
+                >
+                  {verifyMfaMutation.isPending ? "Verifying..." : "Verify"}
+                </Button>
+              </form>
+              ) : (
               <form onSubmit={handleSubmit} className="space-y-4">
                 {isSignup && (
                   <>
@@ -344,6 +481,7 @@ export default function Login() {
                   }
                 </Button>
               </form>
+              )}
 
               <div className="mt-6">
                 <div className="flex items-center justify-center mb-4">
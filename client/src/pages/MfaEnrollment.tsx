@@ -0,0 +1,40 @@
+import { Button } from "@/components/ui/button";
+import { useLocation } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
+import MfaPanel from "@/components/Settings/MfaPanel";
+
+// Shown after login when the organization requires MFA and the user has not enrolled yet
+export default function MfaEnrollment() {
+  const [, setLocation] = useLocation();
+  const { user, logout } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-xl space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 mb-2">
+            Set up two-factor authentication
+          </h1>
+          <p className="text-gray-600 text-sm">
+            Your organization requires two-factor authentication. Add QueryLinker to an authenticator app to continue.
+          </p>
+        </div>
+
+        <MfaPanel />
+
+        <div className="flex justify-between">
+          <Button variant="ghost" onClick={logout} data-testid="button-logout">
+            Log out
+          </Button>
+          <Button
+            onClick={() => setLocation('/')}
+            disabled={!user?.mfaEnabled}
+            data-testid="button-continue"
+          >
+            Continue to QueryLinker
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
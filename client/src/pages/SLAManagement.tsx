@@ -17,10 +17,12 @@ import { Link } from "wouter";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from "recharts";
 import { motion } from "framer-motion";
 import SLAExportModal from "@/components/SLAExportModal";
+import { useAuth } from "@/contexts/AuthContext";
 
 export default function SLAManagement() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = useAuth();
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
   const [newSLA, setNewSLA] = useState({
@@ -43,7 +45,7 @@ export default function SLAManagement() {
 
   const addSLAMutation = useMutation({
     mutationFn: async (slaData: any) => {
-      await apiRequest("POST", "/api/sla/targets", slaData);
+      await apiRequest("/api/sla/targets", { method: "POST", body: slaData });
     },
     onSuccess: () => {
       toast({
@@ -180,6 +182,7 @@ export default function SLAManagement() {
             Export Report
           </Button>
           
+          {can("sla:manage") && (
           <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
             <DialogTrigger asChild>
               <Button data-testid="add-sla-button">
@@ -257,6 +260,7 @@ export default function SLAManagement() {
               </div>
             </DialogContent>
           </Dialog>
+          )}
         </div>
       </div>
 
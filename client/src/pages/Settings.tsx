@@ -12,15 +12,25 @@ import { Textarea } from "@/components/ui/textarea";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ArrowLeft, Save, Shield, Bell, Palette, Database, Users, Webhook } from "lucide-react";
+import { ArrowLeft, Save, Shield, Bell, Palette, Database, Users, Webhook, UserCog } from "lucide-react";
 import { Link } from "wouter";
 import { motion } from "framer-motion";
 import { useTheme } from "@/components/ThemeProvider";
+import { useAuth } from "@/contexts/AuthContext";
+import UsersPanel from "@/components/Settings/UsersPanel";
+import MfaPanel from "@/components/Settings/MfaPanel";
+import ApiTokensPanel from "@/components/Settings/ApiTokensPanel";
+import ServiceAccountsPanel from "@/components/Settings/ServiceAccountsPanel";
+import AuditLogPanel from "@/components/Settings/AuditLogPanel";
+import type { SecuritySettings } from "@shared/schema";
 
 export default function Settings() {
   const { toast } = useToast();
   const { theme, setTheme } = useTheme();
+  const { can } = useAuth();
   const queryClient = useQueryClient();
+  const canManageUsers = can("users:manage");
+  const canManageSettings = can("settings:manage");
   
   const [generalSettings, setGeneralSettings] = useState({
     organizationName: "QueryLinker Inc.",
@@ -35,9 +45,22 @@ export default function Settings() {
     sessionTimeout: "8",
     passwordPolicy: "strong",
     enableAuditLog: true,
+    auditRetentionDays: 365,
     enableMFA: false,
+    requireEmailVerification: false,
   });
 
+  const { data: savedSecuritySettings } = useQuery<SecuritySettings>({
+    queryKey: ["/api/settings/security"],
+    enabled: canManageSettings,
+  });
+
+  useEffect(() => {
+    if (savedSecuritySettings) {
+      setSecuritySettings(savedSecuritySettings);
+    }
+  }, [savedSecuritySettings]);
+
   const [notificationSettings, setNotificationSettings] = useState({
     emailNotifications: true,
     slackIntegration: false,
@@ -77,6 +100,28 @@ export default function Settings() {
     },
   });
 
+  // Security settings are enforced server-side, so unlike the other tabs they are persisted
+  const saveSecuritySettingsMutation = useMutation({
+    mutationFn: async (settings: SecuritySettings) => {
+      const response = await apiRequest("/api/settings/security", { method: "PUT", body: settings });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/security"] });
+      toast({
+        title: "Settings Saved",
+        description: "Your settings have been updated successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Save Settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSaveSettings = (settingsType: string, settings: any) => {
     saveSettingsMutation.mutate({ type: settingsType, settings });
   };
@@ -102,7 +147,7 @@ export default function Settings() {
 
       {/* Settings Tabs */}
       <Tabs defaultValue="general" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className={`grid w-full ${canManageUsers ? "grid-cols-6" : "grid-cols-5"}`}>
           <TabsTrigger value="general" className="flex items-center gap-2">
             <Database className="h-4 w-4" />
             General
@@ -123,6 +168,12 @@ export default function Settings() {
             <Users className="h-4 w-4" />
             System
           </TabsTrigger>
+          {canManageUsers && (
+            <TabsTrigger value="users" className="flex items-center gap-2">
+              <UserCog className="h-4 w-4" />
+              Users
+            </TabsTrigger>
+          )}
         </TabsList>
 
         {/* General Settings */}
@@ -225,6 +276,10 @@ export default function Settings() {
 
         {/* Security Settings */}
         <TabsContent value="security" className="space-y-6">
+          <MfaPanel />
+          <ApiTokensPanel />
+
+          {canManageSettings && (
           <Card data-testid="security-settings">
             <CardHeader>
               <CardTitle>Security Settings</CardTitle>
@@ -250,9 +305,9 @@ export default function Settings() {
 
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
-                    <Label>Enable Multi-Factor Authentication</Label>
+                    <Label>Require Multi-Factor Authentication</Label>
                     <p className="text-sm text-muted-foreground">
-                      Require additional verification for enhanced security
+                      Every user must enroll an authenticator app before using QueryLinker
                     </p>
                   </div>
                   <Switch
@@ -262,6 +317,20 @@ export default function Settings() {
                   />
                 </div>
 
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Require Email Verification</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Block password logins until the user confirms their email address
+                    </p>
+                  </div>
+                  <Switch
+                    checked={securitySettings.requireEmailVerification}
+                    onCheckedChange={(checked) => setSecuritySettings(prev => ({ ...prev, requireEmailVerification: checked }))}
+                    data-testid="email-verification-toggle"
+                  />
+                </div>
+
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
                     <Label>Enable Audit Logging</Label>
@@ -308,20 +377,39 @@ export default function Settings() {
                     </SelectContent>
                   </Select>
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="audit-retention">Audit Log Retention</Label>
+                  <Select value={String(securitySettings.auditRetentionDays)} onValueChange={(value) => setSecuritySettings(prev => ({ ...prev, auditRetentionDays: Number(value) }))}>
+                    <SelectTrigger data-testid="select-audit-retention">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="90">90 days</SelectItem>
+                      <SelectItem value="180">180 days</SelectItem>
+                      <SelectItem value="365">1 year</SelectItem>
+                      <SelectItem value="730">2 years</SelectItem>
+                      <SelectItem value="2555">7 years</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
 
               <div className="flex justify-end">
                 <Button 
-                  onClick={() => handleSaveSettings('security', securitySettings)}
-                  disabled={saveSettingsMutation.isPending}
+                  onClick={() => saveSecuritySettingsMutation.mutate(securitySettings)}
+                  disabled={saveSecuritySettingsMutation.isPending}
                   data-testid="save-security-settings"
                 >
                   <Save className="h-4 w-4 mr-2" />
-                  {saveSettingsMutation.isPending ? "Saving..." : "Save Changes"}
+                  {saveSecuritySettingsMutation.isPending ? "Saving..." : "Save Changes"}
                 </Button>
               </div>
             </CardContent>
           </Card>
+          )}
+
+          {can("audit:view") && <AuditLogPanel />}
         </TabsContent>
 
         {/* Notification Settings */}
@@ -649,6 +737,14 @@ export default function Settings() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* User Management */}
+        {canManageUsers && (
+          <TabsContent value="users" className="space-y-6">
+            <UsersPanel />
+            <ServiceAccountsPanel />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
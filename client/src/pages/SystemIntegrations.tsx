@@ -12,10 +12,15 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { ArrowLeft, Plus, Settings, Trash2, RefreshCw, ExternalLink } from "lucide-react";
 import { Link } from "wouter";
 import { motion } from "framer-motion";
+import { useAuth } from "@/contexts/AuthContext";
+import DataSourcesPanel from "@/components/DataSources/DataSourcesPanel";
 
 export default function SystemIntegrations() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const canManageSystems = can("systems:manage");
+  const canSyncSystems = can("systems:sync");
   const [selectedSystem, setSelectedSystem] = useState("");
   const [showAddDialog, setShowAddDialog] = useState(false);
 
@@ -195,6 +200,7 @@ export default function SystemIntegrations() {
           </div>
         </div>
         
+        {canManageSystems && (
         <div className="flex items-center space-x-3">
           <Button
             variant="outline"
@@ -275,6 +281,7 @@ export default function SystemIntegrations() {
             </DialogContent>
           </Dialog>
         </div>
+        )}
       </div>
 
       {/* Systems Grid */}
@@ -364,7 +371,7 @@ export default function SystemIntegrations() {
                           Open Workspace
                         </Button>
                       </Link>
-                    ) : (
+                    ) : canSyncSystems && (
                       <Button
                         variant="ghost"
                         size="sm"
@@ -378,6 +385,7 @@ export default function SystemIntegrations() {
                       </Button>
                     )}
 
+                    {canManageSystems && (
                     <div className="flex items-center gap-1 flex-shrink-0">
                       <Button
                         variant="ghost"
@@ -407,6 +415,7 @@ export default function SystemIntegrations() {
                         <Trash2 className="h-4 w-4" />
                       </Button>
                     </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -416,6 +425,8 @@ export default function SystemIntegrations() {
         )}
       </div>
 
+      {can("data_sources:view") && <DataSourcesPanel />}
+
       {/* System Status Overview */}
       <Card data-testid="system-status-overview">
         <CardHeader>
@@ -62,7 +62,7 @@ export default function SystemWorkspace() {
   const authenticateMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest(`/api/auth/${system}/login`);
-      return response as { authUrl: string; redirectUri: string };
+      return await response.json() as { authUrl: string; redirectUri: string };
     },
     onSuccess: (data) => {
       // Open OAuth window
@@ -123,7 +123,6 @@ export default function SystemWorkspace() {
           method: 'POST',
           body: JSON.stringify({
             ...meetingData,
-            userId: 'demo_user', // In production, get from auth
             attendees: meetingData.attendees.split(',').map((email: string) => email.trim()).filter(Boolean)
           }),
         });
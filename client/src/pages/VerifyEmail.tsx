@@ -0,0 +1,186 @@
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Link as LinkIcon, ArrowLeft, MailCheck } from "lucide-react";
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export default function VerifyEmail() {
+  const [code, setCode] = useState("");
+  const [email, setEmail] = useState("");
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  // Extract email from URL params
+  useEffect(() => {
+    const urlParams = new URLSearchParams(window.location.search);
+    const emailParam = urlParams.get('email');
+    if (emailParam) {
+      setEmail(decodeURIComponent(emailParam));
+    } else {
+      setLocation('/login');
+    }
+  }, [setLocation]);
+
+  const verifyEmailMutation = useMutation({
+    mutationFn: async ({ email, code }: { email: string; code: string }) => {
+      const response = await apiRequest('/api/auth/verify-email', {
+        method: 'POST',
+        body: { email, code },
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Email Verified",
+        description: "Your email address is confirmed. You can now log in.",
+      });
+      setLocation('/login');
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Invalid Code",
+        description: error.message || "The verification code is invalid or has expired",
+      });
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (email: string) => {
+      const response = await apiRequest('/api/auth/resend-verification', {
+        method: 'POST',
+        body: { email },
+      });
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      setCode("");
+      toast({
+        title: "Code Sent",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Could Not Resend Code",
+        description: error.message || "Failed to send a new verification code",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!code || code.length !== 6) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Code",
+        description: "Please enter the 6-digit verification code",
+      });
+      return;
+    }
+
+    verifyEmailMutation.mutate({ email, code });
+  };
+
+  const handleCodeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value.replace(/\D/g, '').slice(0, 6); // Only digits, max 6
+    setCode(value);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-green-50 flex items-center justify-center p-4">
+      {/* Background decoration */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -left-40 w-96 h-96 bg-gradient-to-br from-cyan-300 to-blue-400 rounded-full opacity-20 blur-3xl"></div>
+        <div className="absolute -bottom-40 -right-40 w-96 h-96 bg-gradient-to-br from-green-300 to-cyan-400 rounded-full opacity-20 blur-3xl"></div>
+      </div>
+
+      <Card className="w-full max-w-md bg-white/80 backdrop-blur-sm shadow-2xl border-0 rounded-3xl overflow-hidden relative p-8">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <button
+            onClick={() => setLocation('/login')}
+            className="flex items-center mb-6 text-gray-600 hover:text-gray-800 transition-colors"
+            data-testid="button-back"
+          >
+            <ArrowLeft size={16} className="mr-2" />
+            Back to Login
+          </button>
+
+          <div className="flex items-center justify-center mb-4">
+            <div className="w-12 h-12 bg-gradient-to-br from-blue-500 to-purple-600 rounded-xl flex items-center justify-center mr-3">
+              <LinkIcon className="text-white text-xl" />
+            </div>
+            <span className="text-2xl font-bold text-gray-800">QueryLinker</span>
+          </div>
+
+          <h1 className="text-2xl font-bold text-gray-800 mb-2">
+            Verify Your Email
+          </h1>
+          <p className="text-gray-600 text-sm">
+            We've sent a 6-digit code to <strong>{email}</strong>
+          </p>
+        </div>
+
+        {/* Verification Code form */}
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="code" className="text-sm text-gray-700">Verification Code</Label>
+            <div className="relative">
+              <Input
+                id="code"
+                type="text"
+                placeholder="123456"
+                value={code}
+                onChange={handleCodeChange}
+                className="w-full px-4 py-3 pl-12 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent text-center text-2xl font-mono tracking-widest"
+                maxLength={6}
+                required
+                data-testid="input-code"
+              />
+              <MailCheck className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
+            </div>
+            <p className="text-xs text-gray-500 text-center">
+              Enter the 6-digit code from your email
+            </p>
+          </div>
+
+          <Button
+            type="submit"
+            disabled={verifyEmailMutation.isPending || code.length !== 6}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white py-3 rounded-xl font-semibold transition-colors disabled:opacity-50"
+            data-testid="button-verify"
+          >
+            {verifyEmailMutation.isPending
+              ? "Verifying..."
+              : "Verify Email"
+            }
+          </Button>
+        </form>
+
+        {/* Resend code section */}
+        <div className="text-center mt-6">
+          <span className="text-sm text-gray-600">
+            Didn't receive the code?
+            <button
+              type="button"
+              onClick={() => resendMutation.mutate(email)}
+              disabled={resendMutation.isPending}
+              className="text-blue-600 hover:text-blue-800 font-semibold ml-1 disabled:opacity-50"
+              data-testid="button-resend"
+            >
+              {resendMutation.isPending ? "Sending..." : "Send again"}
+            </button>
+          </span>
+        </div>
+      </Card>
+    </div>
+  );
+}
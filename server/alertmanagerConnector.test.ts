@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { syncService } from './connectors';
+import { AlertmanagerConnector } from './alertmanagerConnector';
+import { storage } from './storage';
+import { makeDataSource, readFixture, startFakeServer } from './testHelpers';
+
+const CHECKOUT = '3a5c1f2b9d8e7f60';
+const DISK = '7b2e4d6c8a0f1e3d';
+
+async function incidentsOf(dataSourceId: number) {
+  return new Map((await storage.getIncidentsByDataSource(dataSourceId)).map(incident => [incident.externalId, incident] as const));
+}
+
+test('firing alerts are polled from the v2 API and resolved once they stop firing', async () => {
+  let firing: any[] = readFixture('alertmanager-alerts.json');
+  const server = await startFakeServer({ 'GET /api/v2/alerts': () => firing });
+
+  try {
+    const dataSource = await storage.createDataSource({
+      name: 'Alertmanager',
+      type: 'alertmanager',
+      baseUrl: server.url,
+      apiKey: 'proxy-token',
+    });
+
+    const first = await syncService.syncDataSource(dataSource);
+    assert.equal(first.incidentsCreated, 2);
+    assert.equal(server.requests[0].headers.authorization, 'Bearer proxy-token');
+
+    let incidents = await incidentsOf(dataSource.id);
+    const checkout = incidents.get(CHECKOUT)!;
+    assert.equal(checkout.title, 'Checkout p95 latency above 2s');
+    assert.equal(checkout.status, 'investigating');
+    assert.equal(checkout.severity, 'critical');
+    assert.equal(checkout.systemName, 'checkout');
+    // endsAt of a firing alert is only Alertmanager's guess
+    assert.equal(checkout.resolvedAt, null);
+    assert.equal(incidents.get(DISK)!.severity, 'medium');
+    assert.deepEqual((await storage.getIncidentUpdates(checkout.id)).map(update => update.message), ['Alert firing']);
+
+    // The checkout alert stops firing and drops out of the listing
+    firing = firing.filter(alert => alert.fingerprint !== CHECKOUT);
+    const second = await syncService.syncDataSource(dataSource);
+    assert.equal(second.incidentsResolved, 1);
+    assert.equal(second.incidentsUnchanged, 1);
+
+    incidents = await incidentsOf(dataSource.id);
+    assert.equal(incidents.get(CHECKOUT)!.status, 'resolved');
+    assert.ok(incidents.get(CHECKOUT)!.resolvedAt);
+    assert.equal(incidents.get(DISK)!.status, 'investigating');
+  } finally {
+    await server.close();
+  }
+});
+
+test('a resolved alert pushed by the webhook receiver resolves its incident', () => {
+  const connector = new AlertmanagerConnector({ dataSource: makeDataSource({ type: 'alertmanager' }) });
+  const [alert] = readFixture('alertmanager-alerts.json');
+  const [pushed] = connector.parseWebhook({
+    version: '4',
+    receiver: 'querylinker',
+    status: 'resolved',
+    alerts: [{ ...alert, status: 'resolved', endsAt: '2024-05-01T10:20:00.000Z' }],
+  });
+
+  assert.equal(pushed.incident.externalId, CHECKOUT);
+  assert.equal(pushed.incident.status, 'resolved');
+  assert.equal(pushed.incident.isActive, false);
+  assert.equal(pushed.incident.resolvedAt?.toISOString(), '2024-05-01T10:20:00.000Z');
+  assert.throws(() => connector.parseWebhook({ alerts: 'none' }), /Not an Alertmanager webhook payload/);
+});
@@ -0,0 +1,179 @@
+import { z } from 'zod';
+import { BaseConnector, type PushedIncident } from './connectors';
+import { registerConnector } from './connectorRegistry';
+import type { Incident, InsertIncident, InsertIncidentUpdate, InsertServiceComponent } from '@shared/schema';
+
+/**
+ * Prometheus Alertmanager. Each alert, identified by its fingerprint, is one
+ * incident. Syncs poll the API v2 alert listing, and Alertmanager's webhook
+ * receiver pushes alerts as they fire and resolve in between.
+ *
+ * The listing only holds alerts that are still firing, so a resolved alert
+ * simply drops out of it and is closed by reconciliation, unless a webhook
+ * push resolved it first.
+ */
+
+const SEVERITY_MAP: Record<string, string> = {
+  critical: 'critical',
+  page: 'critical',
+  error: 'high',
+  high: 'high',
+  major: 'high',
+  warning: 'medium',
+  medium: 'medium',
+  minor: 'low',
+  low: 'low',
+  info: 'low',
+  none: 'low',
+};
+
+// The fields shared by API v2 alerts and webhook alerts. Only webhook alerts
+// carry a firing/resolved status; everything the API lists is firing.
+interface Alert {
+  fingerprint: string;
+  labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+  startsAt: string;
+  endsAt?: string;
+  generatorURL?: string;
+  status?: 'firing' | 'resolved' | { state: string };
+}
+
+const isResolved = (alert: Alert) => alert.status === 'resolved';
+
+export class AlertmanagerConnector extends BaseConnector {
+  // Alerts listed by the lookup in fetchIncident, fetched once per sync
+  private recheck?: Promise<Map<string, InsertIncident>>;
+
+  private get headers(): Record<string, string> {
+    const { apiKey } = this.config.dataSource;
+    return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+  }
+
+  async testConnection(): Promise<string> {
+    const status = await this.makeRequest(`${this.config.dataSource.baseUrl}/api/v2/status`, this.headers);
+    const incidents = await this.fetchIncidents();
+    const version = status.versionInfo?.version ? ` ${status.versionInfo.version}` : '';
+    return `Alertmanager${version}, cluster ${status.cluster?.status ?? 'unknown'}, ${incidents.length} alerts firing`;
+  }
+
+  async fetchIncidents(): Promise<InsertIncident[]> {
+    const alerts: Alert[] = await this.makeRequest(`${this.config.dataSource.baseUrl}/api/v2/alerts`, this.headers);
+    return alerts.map(alert => this.mapAlert(alert));
+  }
+
+  /**
+   * Alertmanager has no lookup by fingerprint, so an alert missing from the
+   * sync's listing is confirmed against a second listing. Resolves to null
+   * once the alert has stopped firing.
+   */
+  async fetchIncident(externalId: string): Promise<InsertIncident | null> {
+    if (!this.recheck) {
+      this.recheck = this.fetchIncidents()
+        .then(incidents => new Map(incidents.map(incident => [incident.externalId, incident] as const)));
+      // Let a later lookup retry instead of reusing the failure
+      this.recheck.catch(() => { this.recheck = undefined; });
+    }
+    return (await this.recheck).get(externalId) ?? null;
+  }
+
+  async fetchComponents(): Promise<InsertServiceComponent[]> {
+    return [];
+  }
+
+  // The firing entry a webhook push would have added, for alerts only seen by polling
+  async fetchIncidentUpdates(incident: Incident): Promise<InsertIncidentUpdate[]> {
+    if (incident.status === 'resolved' || !incident.startedAt) return [];
+    return [this.timelineEntry(incident, 'firing', new Date(incident.startedAt), { source: 'alertmanager' })];
+  }
+
+  /**
+   * Alertmanager webhook payloads (version 4) batch the alerts of one group.
+   * Every push adds a timeline entry per alert for the state it reports.
+   */
+  parseWebhook(payload: any): PushedIncident[] {
+    if (!Array.isArray(payload?.alerts)) {
+      throw new Error('Not an Alertmanager webhook payload');
+    }
+
+    return payload.alerts.map((alert: Alert) => {
+      const resolved = isResolved(alert);
+      return {
+        incident: this.mapAlert(alert),
+        timeline: (stored: Incident) => [this.timelineEntry(
+          stored,
+          resolved ? 'resolved' : 'firing',
+          new Date((resolved ? alert.endsAt : undefined) ?? alert.startsAt),
+          { source: 'alertmanager', receiver: payload.receiver },
+        )],
+      };
+    });
+  }
+
+  private timelineEntry(
+    incident: Incident,
+    state: 'firing' | 'resolved',
+    timestamp: Date,
+    metadata: Record<string, unknown>,
+  ): InsertIncidentUpdate {
+    return {
+      incidentId: incident.id,
+      // Firing and resolving again later is a new occurrence with new timestamps
+      externalId: `${state}:${timestamp.toISOString()}`,
+      updateType: state === 'resolved' ? 'resolved' : 'new_update',
+      previousStatus: null,
+      newStatus: state === 'resolved' ? 'resolved' : 'investigating',
+      message: state === 'resolved' ? 'Alert resolved' : 'Alert firing',
+      timestamp,
+      metadata,
+    };
+  }
+
+  // Polled and pushed alerts map to the same incident, so switching between them is no change
+  private mapAlert(alert: Alert): InsertIncident {
+    const labels = alert.labels || {};
+    const annotations = alert.annotations || {};
+    const resolved = isResolved(alert);
+    const severity = SEVERITY_MAP[(labels.severity || '').toLowerCase()] || 'medium';
+    const service = labels.service || labels.job;
+
+    return {
+      externalId: alert.fingerprint,
+      dataSourceId: this.config.dataSource.id,
+      systemName: service || 'Alertmanager',
+      title: annotations.summary || labels.alertname || 'Alert',
+      description: annotations.description || '',
+      status: resolved ? 'resolved' : 'investigating',
+      // Alerts fire again under the same fingerprint after they were closed
+      isActive: !resolved,
+      severity,
+      impact: severity === 'critical' ? 'major_outage' : severity === 'high' ? 'partial_outage' : 'degraded_performance',
+      startedAt: new Date(alert.startsAt),
+      // A firing alert's endsAt is only when Alertmanager will assume it resolved
+      resolvedAt: resolved && alert.endsAt ? new Date(alert.endsAt) : null,
+      updatedAt: new Date((resolved ? alert.endsAt : undefined) ?? alert.startsAt),
+      externalUrl: alert.generatorURL || null,
+      affectedServices: service ? [service] : [],
+      tags: ['alertmanager', labels.alertname, labels.severity].filter(Boolean),
+      metadata: {
+        source: 'alertmanager',
+        fingerprint: alert.fingerprint,
+        labels,
+        annotations,
+      },
+    };
+  }
+}
+
+registerConnector({
+  type: 'alertmanager',
+  name: 'Prometheus Alertmanager',
+  description: 'Firing alerts polled from the Alertmanager API and pushed by its webhook receiver',
+  capabilities: ['incidents', 'updates', 'webhooks'],
+  configSchema: z.object({
+    baseUrl: z.string().url().describe('Alertmanager URL'),
+    // For Alertmanagers behind an authenticating proxy
+    apiKey: z.string().optional().describe('Bearer token'),
+  }),
+  create: config => new AlertmanagerConnector(config),
+});
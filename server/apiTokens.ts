@@ -0,0 +1,77 @@
+import { createHash, randomBytes } from 'crypto';
+import type { Request } from 'express';
+import { storage } from './storage';
+import type { ApiToken, User } from '@shared/schema';
+
+/**
+ * API tokens for scripted access. The secret is shown once at creation and
+ * only its sha256 is stored; with 256 bits of entropy a slow hash buys
+ * nothing. Tokens act as their user (a person or a service account) but only
+ * within the permissions listed in their scopes.
+ */
+
+export type ApiTokenKind = 'personal' | 'service';
+
+const TOKEN_PREFIXES: Record<ApiTokenKind, string> = {
+  personal: 'ql_pat_',
+  service: 'ql_sat_',
+};
+
+const DISPLAY_PREFIX_LENGTH = 12;
+const LAST_USED_RESOLUTION = 60 * 1000; // don't write on every request from a busy script
+
+export const API_TOKEN_MAX_LIFETIME_DAYS = 365;
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function generateApiToken(kind: ApiTokenKind) {
+  const token = `${TOKEN_PREFIXES[kind]}${randomBytes(32).toString('base64url')}`;
+  return { token, tokenHash: hashApiToken(token), tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+export function getBearerToken(req: Request): string | undefined {
+  const header = req.get('authorization');
+  if (!header) return undefined;
+
+  const [scheme, token] = header.split(' ');
+  return scheme?.toLowerCase() === 'bearer' ? (token || '') : undefined;
+}
+
+function toTime(value: Date | string | null | undefined): number {
+  return value ? new Date(value).getTime() : 0;
+}
+
+export function isApiTokenUsable(apiToken: ApiToken): boolean {
+  return !apiToken.revokedAt && (!apiToken.expiresAt || toTime(apiToken.expiresAt) > Date.now());
+}
+
+/**
+ * Resolve a presented token to its token record and active user, recording
+ * when and from where it was last used. Returns undefined for unknown,
+ * revoked or expired tokens.
+ */
+export async function authenticateApiToken(req: Request, token: string): Promise<{ apiToken: ApiToken; user: User } | undefined> {
+  if (!token) return undefined;
+
+  const apiToken = await storage.getApiTokenByHash(hashApiToken(token));
+  if (!apiToken || !isApiTokenUsable(apiToken)) return undefined;
+
+  const user = await storage.getUser(apiToken.userId);
+  if (!user || user.isActive === false) return undefined;
+
+  if (Date.now() - toTime(apiToken.lastUsedAt) > LAST_USED_RESOLUTION) {
+    await storage.updateApiToken(apiToken.id, { lastUsedAt: new Date(), lastUsedIp: req.ip || null });
+  }
+
+  return { apiToken, user };
+}
+
+/**
+ * Token metadata safe to return to clients; the hash never leaves the server.
+ */
+export function toPublicApiToken(apiToken: ApiToken) {
+  const { tokenHash: _tokenHash, ...publicToken } = apiToken;
+  return { ...publicToken, isExpired: !apiToken.revokedAt && !isApiTokenUsable(apiToken) };
+}
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AuditEvent } from '@shared/schema';
+import { auditEventsToCsv } from './audit';
+
+const event = (overrides: Partial<AuditEvent>): AuditEvent => ({
+  id: 1,
+  createdAt: new Date('2024-05-01T10:00:00Z'),
+  actorId: 'user-1',
+  action: 'system.update',
+  targetType: 'system',
+  targetId: '1',
+  ipAddress: '10.0.0.1',
+  before: null,
+  after: null,
+  metadata: null,
+  ...overrides,
+} as AuditEvent);
+
+test('cells that a spreadsheet would run as formulas are prefixed with a quote', () => {
+  const [, ...rows] = auditEventsToCsv([
+    event({ targetId: '=HYPERLINK("http://evil.example","x")' }),
+    event({ targetId: '+1+1' }),
+    event({ targetId: '-2+3' }),
+    event({ targetId: '@SUM(A1)' }),
+    event({ targetId: 'plain' }),
+  ]).split('\n');
+
+  assert.deepEqual(rows.map(row => row.split(',')[5]), [
+    `"'=HYPERLINK(""http://evil.example""`,
+    "'+1+1",
+    "'-2+3",
+    "'@SUM(A1)",
+    'plain',
+  ]);
+});
+
+test('dates and JSON columns are exported unchanged', () => {
+  const [header, row] = auditEventsToCsv([event({ after: { name: '=cmd' } })]).split('\n');
+
+  assert.equal(header, 'id,createdAt,actorId,action,targetType,targetId,ipAddress,before,after,metadata');
+  assert.equal(row, '1,2024-05-01T10:00:00.000Z,user-1,system.update,system,1,10.0.0.1,,"{""name"":""=cmd""}",');
+});
@@ -0,0 +1,105 @@
+import type { Request } from 'express';
+import { storage } from './storage';
+import { getSecuritySettings } from './auth';
+import type { AuditEvent, InsertAuditEvent } from '@shared/schema';
+
+type AuditEventInput = Omit<InsertAuditEvent, 'id' | 'actorId' | 'ipAddress' | 'createdAt'>;
+
+// Switching the audit log off must itself leave a trace
+const ALWAYS_RECORDED_ACTIONS = new Set(['settings.security.update']);
+
+const RETENTION_CHECK_INTERVAL = 24 * 60 * 60 * 1000; // daily
+
+// Bookkeeping columns that change on every write and would only add noise to a diff
+const IGNORED_DIFF_FIELDS = new Set(['updatedAt', 'lastConfigUpdate']);
+
+/**
+ * Append an audit event attributed to the request's user and source IP.
+ * Failures are logged rather than thrown so auditing never breaks the action
+ * being audited. Nothing is recorded while the audit log is switched off in
+ * the security settings.
+ */
+export async function recordAuditEvent(req: Request, event: AuditEventInput): Promise<void> {
+  try {
+    if (!ALWAYS_RECORDED_ACTIONS.has(event.action) && !(await getSecuritySettings()).enableAuditLog) {
+      return;
+    }
+
+    await storage.createAuditEvent({
+      ...event,
+      actorId: req.currentUser?.id ?? req.session?.userId ?? null,
+      ipAddress: req.ip || null,
+    });
+  } catch (error) {
+    console.error('Failed to record audit event:', event.action, error);
+  }
+}
+
+/**
+ * Reduce two versions of a record to the fields that differ, for the
+ * before/after columns of an audit event.
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  fields.forEach(field => {
+    if (IGNORED_DIFF_FIELDS.has(field)) return;
+    const oldValue = before?.[field] ?? null;
+    const newValue = after?.[field] ?? null;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changedBefore[field] = oldValue;
+      changedAfter[field] = newValue;
+    }
+  });
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+const CSV_COLUMNS: (keyof AuditEvent)[] = ['id', 'createdAt', 'actorId', 'action', 'targetType', 'targetId', 'ipAddress', 'before', 'after', 'metadata'];
+
+function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Spreadsheets evaluate cells starting with these as formulas, and names in the diffs are user-chosen
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const rows = events.map(event => CSV_COLUMNS.map(column => toCsvValue(event[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+/**
+ * Delete events older than the configured retention period. This is the only
+ * path that removes audit events.
+ */
+export async function pruneAuditEvents(): Promise<number> {
+  const { auditRetentionDays } = await getSecuritySettings();
+  const cutoff = new Date(Date.now() - auditRetentionDays * 24 * 60 * 60 * 1000);
+  const deleted = await storage.deleteAuditEventsBefore(cutoff);
+  if (deleted > 0) {
+    console.log(`Pruned ${deleted} audit events older than ${auditRetentionDays} days`);
+  }
+  return deleted;
+}
+
+let retentionTimer: NodeJS.Timeout | null = null;
+
+export function startAuditRetention(): void {
+  const run = () => pruneAuditEvents().catch(error => console.error('Audit retention run failed:', error));
+  run();
+  retentionTimer = setInterval(run, RETENTION_CHECK_INTERVAL);
+}
+
+export function stopAuditRetention(): void {
+  if (retentionTimer) {
+    clearInterval(retentionTimer);
+    retentionTimer = null;
+  }
+}
@@ -0,0 +1,274 @@
+import session from 'express-session';
+import connectPg from 'connect-pg-simple';
+import createMemoryStore from 'memorystore';
+import type { Express, Request, RequestHandler } from 'express';
+import { pool, isDatabaseConfigured } from './db';
+import { storage } from './storage';
+import { securitySettingsSchema, type ApiToken, type SecuritySettings, type User } from '@shared/schema';
+import { normalizeRole, getRolePermissions, hasPermission, type Permission, type Role } from '@shared/permissions';
+import { authenticateApiToken, getBearerToken } from './apiTokens';
+
+declare module 'express-session' {
+  interface SessionData {
+    userId: string;
+    // Set between a correct password and a correct second factor
+    pendingMfaUserId: string;
+    pendingMfaExpires: number;
+    // Secret generated during enrollment, persisted only once a code confirms it
+    pendingMfaSecret: string;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      currentUser?: User;
+      // Set when the request authenticated with an API token rather than a session
+      apiToken?: ApiToken;
+      // Unparsed JSON body, kept for webhook signature checks
+      rawBody?: Buffer;
+    }
+  }
+}
+
+const SESSION_TTL = 7 * 24 * 60 * 60 * 1000; // 1 week
+const MFA_CHALLENGE_TTL = 5 * 60 * 1000; // 5 minutes
+
+// Also signs values that must round-trip through third parties, such as OAuth state
+export function getSessionSecret(): string {
+  return process.env.SESSION_SECRET || 'querylinker-dev-session-secret';
+}
+
+/**
+ * Build the session middleware. Sessions live in the `sessions` table when a
+ * database is configured, otherwise in an in-process store for development.
+ */
+export function getSession(): RequestHandler {
+  let store: session.Store;
+
+  if (isDatabaseConfigured) {
+    const PgStore = connectPg(session);
+    store = new PgStore({
+      pool,
+      createTableIfMissing: false,
+      ttl: SESSION_TTL / 1000,
+      tableName: 'sessions',
+    });
+  } else {
+    const MemoryStore = createMemoryStore(session);
+    store = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+  }
+
+  if (!process.env.SESSION_SECRET) {
+    console.warn('SESSION_SECRET not set, using an insecure development secret');
+  }
+
+  return session({
+    name: 'querylinker.sid',
+    secret: getSessionSecret(),
+    store,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: SESSION_TTL,
+    },
+  });
+}
+
+export function setupAuth(app: Express) {
+  app.set('trust proxy', 1);
+  app.use(getSession());
+}
+
+// Bootstrap admins come from ADMIN_EMAILS so a fresh install has someone who can assign roles
+function getAdminEmails(): string[] {
+  return (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function getEffectiveRole(user: User): Role {
+  if (user.email && getAdminEmails().includes(user.email.toLowerCase())) {
+    return 'admin';
+  }
+  return normalizeRole(user.role);
+}
+
+// Credentials, one-time codes and second-factor secrets never leave the server
+const PRIVATE_USER_FIELDS = [
+  'password',
+  'passwordResetCode',
+  'passwordResetExpires',
+  'invitationToken',
+  'emailVerificationCode',
+  'mfaSecret',
+  'mfaRecoveryCodes',
+  'mfaLastUsedStep',
+] as const satisfies readonly (keyof User)[];
+type PrivateUserField = typeof PRIVATE_USER_FIELDS[number];
+
+/**
+ * Strip credentials and reset state before a user object leaves the server.
+ */
+export function toPublicUser(user: User) {
+  const publicUser: Partial<User> = { ...user };
+  for (const field of PRIVATE_USER_FIELDS) {
+    delete publicUser[field];
+  }
+  const role = getEffectiveRole(user);
+  return { ...(publicUser as Omit<User, PrivateUserField>), role, permissions: getRolePermissions(role) };
+}
+
+export async function getSecuritySettings(): Promise<SecuritySettings> {
+  const setting = await storage.getAppSetting('security');
+  return securitySettingsSchema.parse(setting?.value ?? {});
+}
+
+// The org policy forces users without a second factor through enrollment before anything else
+export async function isMfaEnrollmentRequired(user: User): Promise<boolean> {
+  if (user.mfaEnabled) return false;
+  const settings = await getSecuritySettings();
+  return settings.enableMFA;
+}
+
+/**
+ * Public user plus the session state the client needs to pick a route.
+ */
+export async function toSessionUser(user: User) {
+  return { ...toPublicUser(user), mfaEnrollmentRequired: await isMfaEnrollmentRequired(user) };
+}
+
+/**
+ * Start an authenticated session for the user, rotating the session id to
+ * prevent fixation.
+ */
+export function establishSession(req: Request, userId: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((regenerateError) => {
+      if (regenerateError) return reject(regenerateError);
+      req.session.userId = userId;
+      req.session.save((saveError) => (saveError ? reject(saveError) : resolve()));
+    });
+  });
+}
+
+/**
+ * Park a password-verified user until they present their second factor. The
+ * session id is rotated here too so the challenge cannot be fixated.
+ */
+export function beginMfaChallenge(req: Request, userId: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((regenerateError) => {
+      if (regenerateError) return reject(regenerateError);
+      req.session.pendingMfaUserId = userId;
+      req.session.pendingMfaExpires = Date.now() + MFA_CHALLENGE_TTL;
+      req.session.save((saveError) => (saveError ? reject(saveError) : resolve()));
+    });
+  });
+}
+
+export function getPendingMfaUserId(req: Request): string | undefined {
+  const { pendingMfaUserId, pendingMfaExpires } = req.session;
+  if (!pendingMfaUserId || !pendingMfaExpires || pendingMfaExpires < Date.now()) {
+    return undefined;
+  }
+  return pendingMfaUserId;
+}
+
+export function destroySession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((error) => (error ? reject(error) : resolve()));
+  });
+}
+
+async function loadSessionUser(req: Request): Promise<User | undefined> {
+  const userId = req.session?.userId;
+  if (!userId) return undefined;
+
+  const user = await storage.getUser(userId);
+  if (!user || user.isActive === false) {
+    await destroySession(req);
+    return undefined;
+  }
+  return user;
+}
+
+// A request that presents a bearer token is judged on that token alone and never falls back to the session cookie
+async function loadRequestUser(req: Request): Promise<User | undefined> {
+  const bearerToken = getBearerToken(req);
+  if (bearerToken === undefined) {
+    return loadSessionUser(req);
+  }
+
+  const authenticated = await authenticateApiToken(req, bearerToken);
+  if (!authenticated) return undefined;
+
+  req.apiToken = authenticated.apiToken;
+  return authenticated.user;
+}
+
+// Resolve the session or API token user and expose it as req.currentUser; rejects with 401 otherwise
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  try {
+    const user = await loadRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    req.currentUser = user;
+    next();
+  } catch (error) {
+    console.error("Error resolving session user:", error);
+    res.status(500).json({ message: "Failed to resolve session" });
+  }
+};
+
+// Like isAuthenticated, but additionally rejects with 403 unless the user's role (and the API token's
+// scopes, if one was used) grants every permission and they have satisfied the org MFA policy
+export function requirePermission(...permissions: Permission[]): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const user = await loadRequestUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      // Tokens are issued from an enrolled session, so the MFA policy only gates interactive logins
+      if (!req.apiToken && await isMfaEnrollmentRequired(user)) {
+        return res.status(403).json({ message: "MFA enrollment required", mfaEnrollmentRequired: true });
+      }
+
+      const role = getEffectiveRole(user);
+      const scopes = req.apiToken?.scopes;
+      const missing = permissions.filter(permission =>
+        !hasPermission(role, permission) || (scopes !== undefined && !scopes.includes(permission))
+      );
+      if (missing.length > 0) {
+        return res.status(403).json({ message: "Forbidden", missingPermissions: missing });
+      }
+
+      req.currentUser = user;
+      next();
+    } catch (error) {
+      console.error("Error checking permissions:", error);
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+}
+
+// Account security (second factors, API tokens) can only be changed from a signed-in browser session,
+// so a leaked token cannot be used to mint more tokens or disable MFA
+export const requireSessionAuth: RequestHandler = (req, res, next) => {
+  if (req.apiToken) {
+    return res.status(403).json({ message: "This action is not available to API tokens" });
+  }
+  next();
+};
+
+export function getSessionUserId(req: Request): string | undefined {
+  return req.session?.userId;
+}
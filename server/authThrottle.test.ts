@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request } from 'express';
+import { storage } from './storage';
+import { getThrottleRetryAfter, recordAuthFailure } from './authThrottle';
+
+const requestFrom = (ip: string) => ({ ip, session: {} }) as unknown as Request;
+
+test('concurrent failures are each counted', async () => {
+  const req = requestFrom('10.0.0.1');
+  await Promise.all(Array.from({ length: 4 }, () => recordAuthFailure(req, 'login', 'count@example.com')));
+
+  assert.equal((await storage.getAuthAttempt('login:account:count@example.com'))?.failures, 4);
+  assert.equal((await storage.getAuthAttempt('login:ip:10.0.0.1'))?.failures, 4);
+  assert.equal(await getThrottleRetryAfter(req, 'login', 'count@example.com'), 0);
+});
+
+test('a burst of concurrent failures locks the account out exactly once', async () => {
+  const req = requestFrom('10.0.0.2');
+  const results = await Promise.all(
+    Array.from({ length: 8 }, () => recordAuthFailure(req, 'login', 'Burst@Example.com')),
+  );
+
+  assert.equal(results.filter(Boolean).length, 1);
+  const attempt = await storage.getAuthAttempt('login:account:burst@example.com');
+  assert.equal(attempt?.lockouts, 1);
+  assert.ok(await getThrottleRetryAfter(req, 'login', 'burst@example.com') > 0);
+
+  const lockouts = (await storage.getAuditEvents({ action: 'auth.lockout' })).events
+    .filter(event => event.targetId === 'burst@example.com');
+  assert.equal(lockouts.length, 1);
+});
+
+test('the IP counter locks independently of the account', async () => {
+  const req = requestFrom('10.0.0.3');
+  await Promise.all(Array.from({ length: 20 }, (_, i) => recordAuthFailure(req, 'login', `user${i}@example.com`)));
+
+  const attempt = await storage.getAuthAttempt('login:ip:10.0.0.3');
+  assert.equal(attempt?.lockouts, 1);
+  assert.ok(await getThrottleRetryAfter(req, 'login', 'someone-else@example.com') > 0);
+});
@@ -0,0 +1,130 @@
+import type { Request, RequestHandler } from 'express';
+import { storage } from './storage';
+import { recordAuditEvent } from './audit';
+
+export type ThrottleScope = 'login' | 'mfa' | 'password-reset-request' | 'password-reset-code';
+
+interface ThrottlePolicy {
+  maxAccountFailures: number;
+  maxIpFailures: number;
+}
+
+// Per-IP limits are looser so a shared office NAT is not locked out by one user's typos
+const THROTTLE_POLICIES: Record<ThrottleScope, ThrottlePolicy> = {
+  login: { maxAccountFailures: 5, maxIpFailures: 20 },
+  mfa: { maxAccountFailures: 5, maxIpFailures: 20 },
+  'password-reset-request': { maxAccountFailures: 3, maxIpFailures: 10 },
+  'password-reset-code': { maxAccountFailures: 5, maxIpFailures: 20 },
+};
+
+const FAILURE_WINDOW = 15 * 60 * 1000; // failures older than this no longer count
+const LOCKOUT_BASE = 60 * 1000; // first lockout lasts 1 minute, then doubles
+const LOCKOUT_MAX = 60 * 60 * 1000; // 1 hour
+const LOCKOUT_DECAY = 24 * 60 * 60 * 1000; // a quiet day resets the lockout escalation
+
+interface ThrottleTarget {
+  key: string;
+  kind: 'ip' | 'account';
+  identifier: string;
+  maxFailures: number;
+}
+
+function getTargets(req: Request, scope: ThrottleScope, account?: string | null): ThrottleTarget[] {
+  const policy = THROTTLE_POLICIES[scope];
+  const ip = req.ip || 'unknown';
+  const targets: ThrottleTarget[] = [
+    { key: `${scope}:ip:${ip}`, kind: 'ip', identifier: ip, maxFailures: policy.maxIpFailures },
+  ];
+
+  if (account) {
+    const identifier = account.trim().toLowerCase();
+    targets.push({ key: `${scope}:account:${identifier}`, kind: 'account', identifier, maxFailures: policy.maxAccountFailures });
+  }
+  return targets;
+}
+
+function toTime(value: Date | string | null | undefined): number {
+  return value ? new Date(value).getTime() : 0;
+}
+
+/**
+ * Seconds until every lock on this IP/account pair has expired, or 0 when
+ * the request may proceed.
+ */
+export async function getThrottleRetryAfter(req: Request, scope: ThrottleScope, account?: string | null): Promise<number> {
+  const now = Date.now();
+  let retryAfter = 0;
+
+  for (const target of getTargets(req, scope, account)) {
+    const attempt = await storage.getAuthAttempt(target.key);
+    const lockedUntil = toTime(attempt?.lockedUntil);
+    if (lockedUntil > now) {
+      retryAfter = Math.max(retryAfter, Math.ceil((lockedUntil - now) / 1000));
+    }
+  }
+  return retryAfter;
+}
+
+/**
+ * Count a failed attempt against the IP and account. Returns true when this
+ * failure triggered a lockout for either of them.
+ */
+export async function recordAuthFailure(req: Request, scope: ThrottleScope, account?: string | null): Promise<boolean> {
+  const now = Date.now();
+  let lockedOut = false;
+
+  for (const target of getTargets(req, scope, account)) {
+    const attempt = await storage.incrementAuthFailures(
+      target.key,
+      new Date(now),
+      new Date(now - FAILURE_WINDOW),
+      new Date(now - LOCKOUT_DECAY),
+    );
+    // Each concurrent failure gets its own count, so exactly one of them locks
+    if (attempt.failures !== target.maxFailures) continue;
+
+    const duration = Math.min(LOCKOUT_BASE * 2 ** attempt.lockouts, LOCKOUT_MAX);
+    const locked = await storage.lockAuthAttempt(target.key, new Date(now + duration));
+    lockedOut = true;
+
+    await recordAuditEvent(req, {
+      action: 'auth.lockout',
+      targetType: target.kind,
+      targetId: target.identifier,
+      metadata: { scope, lockouts: locked.lockouts, lockedUntil: new Date(now + duration).toISOString() },
+    });
+  }
+  return lockedOut;
+}
+
+/**
+ * Reset the account counter after a successful attempt. The IP counter is
+ * left alone so one valid login cannot be used to launder guesses against
+ * other accounts.
+ */
+export async function clearAuthFailures(scope: ThrottleScope, account: string): Promise<void> {
+  await storage.deleteAuthAttempt(`${scope}:account:${account.trim().toLowerCase()}`);
+}
+
+/**
+ * Reject the request with 429 while its IP or the account named in the body
+ * is locked out for this scope.
+ */
+export function authThrottle(scope: ThrottleScope, getAccount: (req: Request) => string | null | undefined = (req) => req.body?.email): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const retryAfter = await getThrottleRetryAfter(req, scope, getAccount(req));
+      if (retryAfter > 0) {
+        res.set('Retry-After', String(retryAfter));
+        return res.status(429).json({
+          message: `Too many failed attempts. Try again in ${Math.ceil(retryAfter / 60)} minute(s).`,
+          retryAfter,
+        });
+      }
+      next();
+    } catch (error) {
+      console.error("Error checking auth throttle:", error);
+      res.status(500).json({ message: "Failed to check login attempts" });
+    }
+  };
+}
@@ -0,0 +1,8 @@
+// Connector modules register themselves when imported. The built-in
+// connectors in connectors.ts do so already; list every other module here.
+import './webhooks';
+import './alertmanagerConnector';
+import './pagerdutyConnector';
+import './opsgenieConnector';
+import './servicenowConnector';
+import './zendeskConnector';
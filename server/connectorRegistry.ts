@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import type {
+  DataSource,
+  InsertDataSource,
+  ConnectorCapability,
+  ConnectorConfigField,
+  ConnectorDescriptor,
+} from '@shared/schema';
+import type { BaseConnector, ConnectorConfig } from './connectors';
+
+/**
+ * Connector types available to data sources. A connector module registers a
+ * definition when it is imported: the type it handles, a zod schema for the
+ * data source fields it reads, what it can do and how to construct it. The
+ * built-in connectors register from connectors.ts, every other module is
+ * listed in connectorModules.ts.
+ */
+
+// The data source columns a connector's config schema may constrain
+export type ConnectorConfigShape = {
+  baseUrl?: z.ZodTypeAny;
+  apiKey?: z.ZodTypeAny;
+  metadata?: z.ZodTypeAny;
+  oauthConfig?: z.ZodTypeAny;
+};
+
+export interface ConnectorDefinition {
+  type: string;
+  name: string;
+  description: string;
+  capabilities: ConnectorCapability[];
+  configSchema: z.ZodObject<ConnectorConfigShape>;
+  connect?: 'form' | 'oauth';
+  create(config: ConnectorConfig): BaseConnector;
+}
+
+const definitions = new Map<string, ConnectorDefinition>();
+
+export function registerConnector(definition: ConnectorDefinition): void {
+  if (definitions.has(definition.type)) {
+    throw new Error(`Connector type ${definition.type} is already registered`);
+  }
+  definitions.set(definition.type, definition);
+}
+
+export function getConnectorDefinition(type: string): ConnectorDefinition | undefined {
+  return definitions.get(type);
+}
+
+export function hasCapability(type: string, capability: ConnectorCapability): boolean {
+  return !!definitions.get(type)?.capabilities.includes(capability);
+}
+
+export function createConnector(dataSource: DataSource, window: Omit<ConnectorConfig, 'dataSource'> = {}): BaseConnector {
+  const definition = definitions.get(dataSource.type);
+  if (!definition) {
+    throw new Error(`Unsupported connector type: ${dataSource.type}`);
+  }
+  return definition.create({ dataSource, ...window });
+}
+
+type ConnectorColumns = Partial<Record<keyof ConnectorConfigShape, unknown>>;
+
+// The connector-specific columns of a data source, as its config schema sees them
+function connectorConfigOf(dataSource: ConnectorColumns): Record<string, unknown> {
+  const { baseUrl, apiKey, metadata, oauthConfig } = dataSource;
+  return Object.fromEntries(
+    Object.entries({ baseUrl, apiKey, metadata, oauthConfig }).filter(([, value]) => value !== undefined && value !== null),
+  );
+}
+
+const humanize = (key: string) => key
+  .replace(/_/g, ' ')
+  .replace(/([a-z])([A-Z])/g, '$1 $2')
+  .replace(/^./, c => c.toUpperCase());
+
+function describeField(key: string, schema: z.ZodTypeAny, secret: boolean): ConnectorConfigField[] {
+  let label = schema.description;
+  let required = true;
+  let defaultValue: unknown;
+
+  // Peel wrappers off to reach the underlying type, keeping what they say about it
+  for (;;) {
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+      required = false;
+      schema = schema.unwrap();
+    } else if (schema instanceof z.ZodDefault) {
+      required = false;
+      defaultValue = schema._def.defaultValue();
+      schema = schema._def.innerType;
+    } else if (schema instanceof z.ZodEffects) {
+      schema = schema.innerType();
+    } else {
+      break;
+    }
+    label = label ?? schema.description;
+  }
+
+  if (schema instanceof z.ZodObject) {
+    // A JSON column: describe its fields, required only if the column is
+    return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).flatMap(([child, childSchema]) =>
+      describeField(`${key}.${child}`, childSchema, secret).map(field => ({ ...field, required: field.required && required })));
+  }
+
+  const field: ConnectorConfigField = {
+    key,
+    label: label ?? humanize(key.split('.').pop()!),
+    type: 'text',
+    required,
+  };
+  if (secret) {
+    field.type = 'secret';
+  } else if (schema instanceof z.ZodString && schema.isURL) {
+    field.type = 'url';
+  } else if (schema instanceof z.ZodNumber) {
+    field.type = 'number';
+  } else if (schema instanceof z.ZodBoolean) {
+    field.type = 'boolean';
+  } else if (schema instanceof z.ZodEnum) {
+    field.type = 'select';
+    field.options = schema.options;
+  }
+  if (typeof defaultValue === 'string' || typeof defaultValue === 'number' || typeof defaultValue === 'boolean') {
+    field.defaultValue = defaultValue;
+  }
+  return [field];
+}
+
+export function describeConnectors(): ConnectorDescriptor[] {
+  return Array.from(definitions.values()).map(definition => ({
+    type: definition.type,
+    name: definition.name,
+    description: definition.description,
+    capabilities: definition.capabilities,
+    connect: definition.connect ?? 'form',
+    // Credentials are write-only, so the form treats them as secrets
+    fields: Object.entries(definition.configSchema.shape).flatMap(([key, schema]) =>
+      describeField(key, schema as z.ZodTypeAny, key === 'apiKey' || key === 'oauthConfig')),
+  }));
+}
+
+export type ConnectorConfigResult =
+  | { success: true; data: Partial<InsertDataSource> }
+  | { success: false; message: string; errors?: z.ZodIssue[] };
+
+/**
+ * Validate the connector-specific fields of a data source against its
+ * connector's schema. On success `data` holds those fields with defaults
+ * applied, ready to merge back over the data source.
+ */
+export function parseConnectorConfig(type: unknown, dataSource: ConnectorColumns): ConnectorConfigResult {
+  const definition = typeof type === 'string' ? definitions.get(type) : undefined;
+  if (!definition) {
+    return { success: false, message: `Unsupported connector type: ${type}` };
+  }
+
+  const parsed = definition.configSchema.safeParse(connectorConfigOf(dataSource));
+  if (!parsed.success) {
+    return { success: false, message: `Invalid ${definition.name} configuration`, errors: parsed.error.errors };
+  }
+  return { success: true, data: parsed.data as Partial<InsertDataSource> };
+}
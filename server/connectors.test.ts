@@ -0,0 +1,260 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { BaseConnector, GitHubStatusConnector, JiraConnector, syncService } from './connectors';
+import { createConnector, parseConnectorConfig, registerConnector } from './connectorRegistry';
+import { storage } from './storage';
+import { ServiceNowConnector } from './servicenowConnector';
+import { makeDataSource, makeIncident, startFakeServer, withFakeConnector, type RecordedRequest } from './testHelpers';
+import type { Incident, InsertIncident, InsertIncidentUpdate, InsertServiceComponent } from '@shared/schema';
+
+// What the fake source lists, and the timeline it returns for each incident
+const source = {
+  incremental: false,
+  incidents: [] as InsertIncident[],
+  timelines: new Map<string, { id: string; message: string }[]>(),
+  timelineFetches: [] as string[],
+};
+
+class FakeConnector extends BaseConnector {
+  get isIncremental(): boolean {
+    return source.incremental;
+  }
+
+  async fetchIncidents(): Promise<InsertIncident[]> {
+    return source.incidents.map(incident => ({ ...incident, dataSourceId: this.config.dataSource.id }));
+  }
+
+  async fetchComponents(): Promise<InsertServiceComponent[]> {
+    return [];
+  }
+
+  async fetchIncidentUpdates(incident: Incident): Promise<InsertIncidentUpdate[]> {
+    source.timelineFetches.push(incident.externalId);
+    return (source.timelines.get(incident.externalId) || []).map(entry => ({
+      incidentId: incident.id,
+      externalId: entry.id,
+      updateType: 'new_update',
+      message: entry.message,
+      timestamp: new Date('2024-05-01T10:00:00Z'),
+    }));
+  }
+}
+
+registerConnector({
+  type: 'fake-timeline',
+  name: 'Fake',
+  description: 'Test connector',
+  capabilities: ['incidents', 'updates'],
+  configSchema: z.object({}),
+  create: config => new FakeConnector(config),
+});
+
+const incident = (externalId: string, status: string): InsertIncident => ({
+  externalId,
+  title: `Incident ${externalId}`,
+  status,
+  severity: 'medium',
+  startedAt: new Date('2024-05-01T09:00:00Z'),
+  updatedAt: new Date('2024-05-01T09:00:00Z'),
+});
+
+async function timelineOf(dataSourceId: number, externalId: string): Promise<string[]> {
+  const stored = (await storage.getIncidentsByDataSource(dataSourceId)).find(row => row.externalId === externalId);
+  return (await storage.getIncidentUpdates(stored!.id)).map(update => update.message);
+}
+
+test('notes added to an unchanged open incident are synced', async () => {
+  const dataSource = await storage.createDataSource({ name: 'Open', type: 'fake-timeline', baseUrl: 'http://fake' });
+  source.incidents = [incident('open-1', 'investigating')];
+  source.timelines = new Map([['open-1', [{ id: 'n1', message: 'Looking into it' }]]]);
+  await syncService.syncDataSource(dataSource);
+
+  source.timelines.get('open-1')!.push({ id: 'n2', message: 'Found the cause' });
+  const stats = await syncService.syncDataSource(dataSource);
+
+  assert.equal(stats.incidentsUnchanged, 1);
+  assert.equal(stats.updatesCreated, 1);
+  assert.deepEqual(await timelineOf(dataSource.id, 'open-1'), ['Looking into it', 'Found the cause']);
+});
+
+test('an incident that changed once counts as unchanged on later syncs', async () => {
+  const dataSource = await storage.createDataSource({ name: 'Unchanged', type: 'fake-timeline', baseUrl: 'http://fake' });
+  source.incidents = [incident('steady-1', 'investigating')];
+  source.timelines = new Map();
+  await syncService.syncDataSource(dataSource);
+
+  source.incidents = [incident('steady-1', 'identified')];
+  assert.equal((await syncService.syncDataSource(dataSource)).incidentsUpdated, 1);
+
+  for (let run = 0; run < 2; run++) {
+    const stats = await syncService.syncDataSource(dataSource);
+    assert.equal(stats.incidentsUpdated, 0);
+    assert.equal(stats.incidentsUnchanged, 1);
+  }
+});
+
+test('resolved incidents without a timeline are backfilled once, on full syncs only', async () => {
+  const dataSource = await storage.createDataSource({ name: 'Resolved', type: 'fake-timeline', baseUrl: 'http://fake' });
+  source.incidents = [incident('old-1', 'resolved')];
+  source.timelines = new Map();
+  await syncService.syncDataSource(dataSource);
+
+  // The source's timeline shows up later, as for incidents synced before timelines were
+  source.timelines.set('old-1', [{ id: 'r1', message: 'Resolved after a rollback' }]);
+  source.incremental = true;
+  source.timelineFetches = [];
+  await syncService.syncDataSource(dataSource);
+  assert.deepEqual(source.timelineFetches, []);
+
+  source.incremental = false;
+  await syncService.syncDataSource(dataSource);
+  assert.deepEqual(await timelineOf(dataSource.id, 'old-1'), ['Resolved after a rollback']);
+
+  source.timelineFetches = [];
+  await syncService.syncDataSource(dataSource);
+  assert.deepEqual(source.timelineFetches, []);
+});
+
+test('a resolved incident is refetched when it changes, not on every sync after', async () => {
+  const dataSource = await storage.createDataSource({ name: 'Closed', type: 'fake-timeline', baseUrl: 'http://fake' });
+  source.incremental = false;
+  source.incidents = [incident('closed-1', 'resolved')];
+  source.timelines = new Map([['closed-1', [{ id: 'c1', message: 'Closed' }]]]);
+  await syncService.syncDataSource(dataSource);
+
+  source.incidents = [{ ...incident('closed-1', 'resolved'), severity: 'high' }];
+  source.timelineFetches = [];
+  await syncService.syncDataSource(dataSource);
+  assert.deepEqual(source.timelineFetches, ['closed-1']);
+
+  source.timelineFetches = [];
+  await syncService.syncDataSource(dataSource);
+  await syncService.syncDataSource(dataSource);
+  assert.deepEqual(source.timelineFetches, []);
+});
+
+test('an unsaved OAuth source is tested with the token it was given', async () => {
+  const server = await startFakeServer({ 'GET /api/now/table/incident': () => ({ result: [{ sys_id: 'abc' }] }) });
+  try {
+    // What POST /api/data-sources/test builds from the form
+    const dataSource = makeDataSource({ id: 0, type: 'servicenow', baseUrl: server.url, oauthConfig: { access_token: 'fresh-token' } });
+    const message = await new ServiceNowConnector({ dataSource }).testConnection();
+
+    assert.match(message, /incidents are readable/);
+    assert.equal(server.requests[0].headers.authorization, 'Bearer fresh-token');
+  } finally {
+    await server.close();
+  }
+});
+
+test('GitHub Status reads the configured status page, which defaults to githubstatus.com', async () => {
+  const config = parseConnectorConfig('github-status', {});
+  assert.ok(config.success);
+  assert.equal(config.data.baseUrl, 'https://www.githubstatus.com');
+
+  const server = await startFakeServer({
+    'GET /api/v2/status.json': () => ({ page: { name: 'GitHub' }, status: { description: 'All Systems Operational' } }),
+  });
+  try {
+    const connector = createConnector(makeDataSource({ type: 'github-status', baseUrl: `${server.url}/` }));
+    assert.ok(connector instanceof GitHubStatusConnector);
+    assert.equal(await connector.testConnection(), 'GitHub: All Systems Operational');
+  } finally {
+    await server.close();
+  }
+});
+
+const jiraIssue = (id: number, updated = '2024-05-01T09:30:00Z') => ({
+  id: String(id),
+  key: `OPS-${id}`,
+  fields: {
+    summary: `Issue ${id}`,
+    status: { name: 'In Progress' },
+    priority: { name: 'High' },
+    created: '2024-05-01T09:00:00Z',
+    updated,
+    project: { name: 'Operations', key: 'OPS' },
+    issuetype: { name: 'Incident' },
+  },
+});
+
+const jiraChange = (id: number) => ({
+  id: String(id),
+  created: '2024-05-01T09:30:00Z',
+  author: { displayName: 'Sam Agent' },
+  items: [],
+});
+
+const startAt = (request: RecordedRequest) => Number(new URL(request.url, 'http://x').searchParams.get('startAt'));
+
+// An unsaved source, so requests use the token it was given
+function withJira(
+  routes: Parameters<typeof withFakeConnector>[0],
+  run: (connector: JiraConnector, requests: RecordedRequest[]) => Promise<void>,
+  window: { lastSyncTime?: Date; resumeFrom?: Date } = {},
+) {
+  return withFakeConnector(
+    routes,
+    { id: 0, type: 'jira', oauthConfig: { access_token: 'jira-token' } },
+    dataSource => new JiraConnector({ dataSource, ...window }),
+    (connector, server) => run(connector, server.requests),
+  );
+}
+
+test('a Jira search stopped at the page cap is reported as truncated', async () => {
+  const search = (request: RecordedRequest) => ({
+    total: 10000,
+    issues: Array.from({ length: 100 }, (_, i) => jiraIssue(startAt(request) + i)),
+  });
+
+  await withJira({ 'GET /rest/api/3/search': search }, async (connector, requests) => {
+    const incidents = await connector.fetchIncidents();
+
+    assert.equal(requests.length, 50);
+    assert.equal(incidents.length, 5000);
+    assert.equal(connector.incidentsTruncated, true);
+  });
+
+  await withJira({ 'GET /rest/api/3/search': () => ({ total: 1, issues: [jiraIssue(1)] }) }, async connector => {
+    await connector.fetchIncidents();
+    assert.equal(connector.incidentsTruncated, false);
+  });
+});
+
+test('a truncated incremental Jira search is continued from the last issue read', async () => {
+  const lastSyncTime = new Date(Date.now() - 3 * 60 * 60 * 1000);
+  const updatedAt = (index: number) => new Date(lastSyncTime.getTime() + index * 1000).toISOString();
+  const search = (request: RecordedRequest) => ({
+    total: 10000,
+    issues: Array.from({ length: 100 }, (_, i) => jiraIssue(startAt(request) + i, updatedAt(startAt(request) + i))),
+  });
+
+  let resumeFrom: Date | undefined;
+  await withJira({ 'GET /rest/api/3/search': search }, async connector => {
+    await connector.fetchIncidents();
+    resumeFrom = connector.incidentsResumeFrom;
+  }, { lastSyncTime });
+  assert.equal(resumeFrom?.toISOString(), updatedAt(4999));
+
+  await withJira({ 'GET /rest/api/3/search': () => ({ total: 0, issues: [] }) }, async (connector, requests) => {
+    await connector.fetchIncidents();
+
+    const jql = new URL(requests[0].url, 'http://x').searchParams.get('jql')!;
+    const minutes = Number(jql.match(/updated >= "-(\d+)m"/)![1]);
+    assert.ok(Math.abs(minutes - (Date.now() - resumeFrom!.getTime()) / 60000) <= 1);
+  }, { lastSyncTime, resumeFrom });
+});
+
+test('the Jira changelog is read page by page', async () => {
+  const changelog = (request: RecordedRequest) => startAt(request) === 0
+    ? { values: [jiraChange(1), jiraChange(2)], isLast: false }
+    : { values: [jiraChange(3)], isLast: true };
+
+  await withJira({ 'GET /rest/api/3/issue/10001/changelog': changelog }, async (connector, requests) => {
+    const updates = await connector.fetchIncidentUpdates(makeIncident({ externalId: '10001' }));
+
+    assert.deepEqual(updates.map(update => update.externalId), ['1', '2', '3']);
+    assert.deepEqual(requests.map(startAt), [0, 2]);
+  });
+});
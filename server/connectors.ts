@@ -1,10 +1,48 @@
 import axios from 'axios';
+import { EventEmitter } from 'events';
+import { z } from 'zod';
 import { storage } from './storage';
-import type { DataSource, InsertIncident, InsertServiceComponent, InsertIncidentUpdate } from '@shared/schema';
+import { withAccessToken } from './tokenManager';
+import { registerConnector, createConnector, hasCapability } from './connectorRegistry';
+import type {
+  DataSource,
+  Incident,
+  InsertIncident,
+  InsertServiceComponent,
+  InsertIncidentUpdate,
+  InsertSolution,
+  InsertSupportTicket,
+  IncidentTransition,
+  IncidentTransitionEvent,
+} from '@shared/schema';
+
+// An incident pushed to a webhook. Timeline entries need the stored
+// incident's id, so they are built once the incident has been saved.
+export interface PushedIncident {
+  incident: InsertIncident;
+  timeline?: (stored: Incident) => InsertIncidentUpdate[];
+}
+
+// Knowledge articles a source publishes. A listing cut short by a page cap
+// is `truncated`: articles missing from it may well still be published.
+export interface SolutionListing {
+  solutions: InsertSolution[];
+  truncated: boolean;
+}
+
+// Support tickets changed since the last sync. A listing cut short by a page
+// cap is `truncated`: tickets past the cap were not read, and `resumeFrom`
+// is the update time of the last ticket that was, if the listing can go on from there.
+export interface TicketListing {
+  tickets: InsertSupportTicket[];
+  truncated: boolean;
+  resumeFrom?: Date;
+}
 
 export interface ConnectorConfig {
   dataSource: DataSource;
-  lastSyncTime?: Date;
+  lastSyncTime?: Date; // start of the last successful sync, for connectors that can fetch only what changed since
+  resumeFrom?: Date; // where the previous sync's truncated listing stopped, in the source's update times
 }
 
 export abstract class BaseConnector {
@@ -16,7 +54,32 @@ export abstract class BaseConnector {
 
   abstract fetchIncidents(): Promise<InsertIncident[]>;
   abstract fetchComponents(): Promise<InsertServiceComponent[]>;
-  abstract fetchIncidentUpdates(incidentId: string): Promise<InsertIncidentUpdate[]>;
+  // Timeline of one stored incident. Entries carry the source's own id as
+  // `externalId` so later syncs only add what is new.
+  abstract fetchIncidentUpdates(incident: Incident): Promise<InsertIncidentUpdate[]>;
+  // Look up one incident directly, to confirm what became of an incident that
+  // dropped out of fetchIncidents. Resolves to null when the source no longer
+  // has it. Connectors without a lookup leave this undefined.
+  fetchIncident?(externalId: string): Promise<InsertIncident | null>;
+  // Knowledge articles to keep as solutions. Connectors with the 'knowledge'
+  // capability implement this and return every article the source publishes.
+  fetchSolutions?(): Promise<SolutionListing>;
+  // Customer tickets for connectors with the 'tickets' capability: the ones
+  // changed since `lastSyncTime` when set, otherwise the source's full export.
+  fetchSupportTickets?(): Promise<TicketListing>;
+  // Turn a payload the source pushed to its webhook into incidents. Connectors
+  // with the 'webhooks' capability implement this; it throws on payloads it
+  // does not understand.
+  parseWebhook?(payload: any): PushedIncident[];
+
+  /**
+   * Check that the source answers with the configured settings and say what
+   * was found. Throws when it does not.
+   */
+  async testConnection(): Promise<string> {
+    const incidents = await this.fetchIncidents();
+    return `Connected, ${incidents.length} incidents listed`;
+  }
   
   protected async makeRequest(url: string, headers: Record<string, string> = {}) {
     try {
@@ -29,19 +92,156 @@ export abstract class BaseConnector {
       });
       return response.data;
     } catch (error) {
-      console.error(`API request failed for ${url}:`, error);
+      // The scheduler logs the failure once per run; a one-line summary is enough here
+      const reason = axios.isAxiosError(error)
+        ? (error.response ? `HTTP ${error.response.status}` : error.code || error.message)
+        : error instanceof Error ? error.message : String(error);
+      console.error(`API request failed for ${url}: ${reason}`);
       throw error;
     }
   }
+
+  /**
+   * Whether fetchIncidents returns only what changed since `lastSyncTime`
+   * rather than everything the source currently lists. Incidents missing from
+   * an incremental listing say nothing about whether they still exist.
+   */
+  get isIncremental(): boolean {
+    return false;
+  }
+
+  /**
+   * Whether the last fetchIncidents stopped at a page cap, leaving incidents
+   * unread. Those may have changed, and incidents missing from the listing
+   * may still be open.
+   */
+  get incidentsTruncated(): boolean {
+    return false;
+  }
+
+  /**
+   * With incidentsTruncated, the update time of the last incident listed,
+   * from which the next sync continues. Undefined when the listing cannot
+   * be resumed.
+   */
+  get incidentsResumeFrom(): Date | undefined {
+    return undefined;
+  }
+
+  protected isNotFound(error: unknown): boolean {
+    return axios.isAxiosError(error) && error.response?.status === 404;
+  }
+
+  /**
+   * Run `request` with the source's OAuth access token, refreshed by the
+   * token manager when needed. Sources being tested before they are saved
+   * have no id to refresh under, so they use the token they were given.
+   */
+  protected withAccessToken<T>(request: (accessToken: string) => Promise<T>): Promise<T> {
+    const { dataSource } = this.config;
+    if (!dataSource.id) {
+      const accessToken = (dataSource.oauthConfig as { access_token?: string } | null)?.access_token;
+      if (!accessToken) {
+        return Promise.reject(new Error(`${dataSource.name} has no access token`));
+      }
+      return request(accessToken);
+    }
+    return withAccessToken(dataSource.id, request);
+  }
+}
+
+// Plain text of an HTML article or description, keeping paragraph breaks
+export const stripHtml = (html: string) => html
+  .replace(/<(br|\/p|\/div|\/li|\/h\d)[^>]*>/gi, '\n')
+  .replace(/<[^>]+>/g, '')
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;/g, "'")
+  .replace(/&amp;/g, '&')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+// Map StatusPage incident_updates oldest first, so each entry knows the status it replaced
+function mapStatusPageUpdates(
+  incident: Incident,
+  updates: any[],
+  source: string,
+  mapStatus: (status: string) => string,
+): InsertIncidentUpdate[] {
+  const ordered = [...updates].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  return ordered.map((update, index) => {
+    const newStatus = mapStatus(update.status);
+    const previousStatus = index > 0 ? mapStatus(ordered[index - 1].status) : null;
+    const updateType = newStatus === previousStatus
+      ? 'new_update'
+      : newStatus === 'resolved' ? 'resolved' : 'status_change';
+
+    return {
+      incidentId: incident.id,
+      externalId: update.id,
+      updateType,
+      previousStatus,
+      newStatus,
+      message: update.body,
+      timestamp: new Date(update.created_at),
+      metadata: {
+        source,
+        displayAt: update.display_at,
+      },
+    };
+  });
+}
+
+// StatusPage webhooks carry the same incident object as the REST API
+function parseStatusPageWebhook(
+  payload: any,
+  mapIncident: (incident: any) => InsertIncident,
+  source: string,
+  mapStatus: (status: string) => string,
+): PushedIncident[] {
+  // Component-only notifications have no incident to record
+  if (payload?.component_update && !payload.incident) return [];
+  if (!payload?.incident?.id) {
+    throw new Error('Not a Statuspage incident notification');
+  }
+
+  const { incident } = payload;
+  return [{
+    incident: mapIncident(incident),
+    timeline: stored => mapStatusPageUpdates(stored, incident.incident_updates || [], source, mapStatus),
+  }];
 }
 
 // StatusPage.io connector for public status pages
 export class StatusPageConnector extends BaseConnector {
+  async testConnection(): Promise<string> {
+    const data = await this.makeRequest(`${this.config.dataSource.baseUrl}/api/v2/status.json`);
+    return `${data.page.name}: ${data.status.description}`;
+  }
+
   async fetchIncidents(): Promise<InsertIncident[]> {
     const { baseUrl } = this.config.dataSource;
     const data = await this.makeRequest(`${baseUrl}/api/v2/incidents.json`);
     
-    return data.incidents.map((incident: any) => ({
+    return data.incidents.map((incident: any) => this.mapIncident(incident));
+  }
+
+  async fetchIncident(externalId: string): Promise<InsertIncident | null> {
+    const { baseUrl } = this.config.dataSource;
+    try {
+      const data = await this.makeRequest(`${baseUrl}/api/v2/incidents/${externalId}.json`);
+      return this.mapIncident(data.incident);
+    } catch (error) {
+      if (this.isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  private mapIncident(incident: any): InsertIncident {
+    return {
       externalId: incident.id,
       dataSourceId: this.config.dataSource.id,
       systemName: incident.name || 'StatusPage Incident',
@@ -62,7 +262,7 @@ export class StatusPageConnector extends BaseConnector {
         resolving: incident.resolving_at,
         componentIds: incident.component_ids,
       },
-    }));
+    };
   }
 
   async fetchComponents(): Promise<InsertServiceComponent[]> {
@@ -85,22 +285,15 @@ export class StatusPageConnector extends BaseConnector {
     }));
   }
 
-  async fetchIncidentUpdates(incidentId: string): Promise<InsertIncidentUpdate[]> {
+  async fetchIncidentUpdates(incident: Incident): Promise<InsertIncidentUpdate[]> {
     const { baseUrl } = this.config.dataSource;
-    const data = await this.makeRequest(`${baseUrl}/api/v2/incidents/${incidentId}.json`);
+    const data = await this.makeRequest(`${baseUrl}/api/v2/incidents/${incident.externalId}.json`);
     
-    return data.incident.incident_updates.map((update: any) => ({
-      incidentId: parseInt(incidentId),
-      updateType: 'status_change',
-      newStatus: this.mapStatus(update.status),
-      message: update.body,
-      timestamp: new Date(update.created_at),
-      metadata: {
-        source: 'statuspage',
-        updateId: update.id,
-        displayAt: update.display_at,
-      },
-    }));
+    return mapStatusPageUpdates(incident, data.incident.incident_updates || [], 'statuspage', status => this.mapStatus(status));
+  }
+
+  parseWebhook(payload: any): PushedIncident[] {
+    return parseStatusPageWebhook(payload, incident => this.mapIncident(incident), 'statuspage', status => this.mapStatus(status));
   }
 
   private mapStatus(status: string): string {
@@ -127,10 +320,34 @@ export class StatusPageConnector extends BaseConnector {
 
 // GitHub Status connector for GitHub's status page
 export class GitHubStatusConnector extends BaseConnector {
+  // https://www.githubstatus.com unless the source says otherwise
+  private get apiUrl(): string {
+    return `${this.config.dataSource.baseUrl.replace(/\/+$/, '')}/api/v2`;
+  }
+
+  async testConnection(): Promise<string> {
+    const data = await this.makeRequest(`${this.apiUrl}/status.json`);
+    return `${data.page.name}: ${data.status.description}`;
+  }
+
   async fetchIncidents(): Promise<InsertIncident[]> {
-    const data = await this.makeRequest('https://kctbh9vrtdwd.statuspage.io/api/v2/incidents.json');
+    const data = await this.makeRequest(`${this.apiUrl}/incidents.json`);
     
-    return data.incidents.map((incident: any) => ({
+    return data.incidents.map((incident: any) => this.mapIncident(incident));
+  }
+
+  async fetchIncident(externalId: string): Promise<InsertIncident | null> {
+    try {
+      const data = await this.makeRequest(`${this.apiUrl}/incidents/${externalId}.json`);
+      return this.mapIncident(data.incident);
+    } catch (error) {
+      if (this.isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  private mapIncident(incident: any): InsertIncident {
+    return {
       externalId: incident.id,
       dataSourceId: this.config.dataSource.id,
       systemName: 'GitHub',
@@ -149,11 +366,11 @@ export class GitHubStatusConnector extends BaseConnector {
         source: 'github-status',
         incidentId: incident.id,
       },
-    }));
+    };
   }
 
   async fetchComponents(): Promise<InsertServiceComponent[]> {
-    const data = await this.makeRequest('https://kctbh9vrtdwd.statuspage.io/api/v2/components.json');
+    const data = await this.makeRequest(`${this.apiUrl}/components.json`);
     
     return data.components.map((component: any) => ({
       dataSourceId: this.config.dataSource.id,
@@ -171,8 +388,14 @@ export class GitHubStatusConnector extends BaseConnector {
     }));
   }
 
-  async fetchIncidentUpdates(incidentId: string): Promise<InsertIncidentUpdate[]> {
-    return []; // GitHub provides updates within incidents
+  async fetchIncidentUpdates(incident: Incident): Promise<InsertIncidentUpdate[]> {
+    const data = await this.makeRequest(`${this.apiUrl}/incidents/${incident.externalId}.json`);
+    
+    return mapStatusPageUpdates(incident, data.incident.incident_updates || [], 'github-status', status => this.mapStatus(status));
+  }
+
+  parseWebhook(payload: any): PushedIncident[] {
+    return parseStatusPageWebhook(payload, incident => this.mapIncident(incident), 'github-status', status => this.mapStatus(status));
   }
 
   private mapStatus(status: string): string {
@@ -243,8 +466,8 @@ export class AzureStatusConnector extends BaseConnector {
     })) || [];
   }
 
-  async fetchIncidentUpdates(incidentId: string): Promise<InsertIncidentUpdate[]> {
-    return [];
+  async fetchIncidentUpdates(incident: Incident): Promise<InsertIncidentUpdate[]> {
+    return []; // the Azure status feed has no per-issue history
   }
 
   private mapStatus(status: string): string {
@@ -266,30 +489,109 @@ export class AzureStatusConnector extends BaseConnector {
   }
 }
 
+const DEFAULT_JIRA_JQL = 'project in (projectsWhereUserHasPermission("BROWSE_PROJECTS"))';
+const JIRA_PAGE_SIZE = 100;
+const JIRA_MAX_PAGES = 50;
+const JIRA_SYNC_OVERLAP_MINUTES = 5; // re-read a little before the last sync so clock skew loses nothing
+
 // Jira connector for issue tracking
 export class JiraConnector extends BaseConnector {
+  private truncated = false;
+  private stoppedAt: Date | undefined;
+
   private get jiraBaseUrl(): string {
     return this.config.dataSource.baseUrl;
   }
 
-  private get oauthConfig(): any {
-    return this.config.dataSource.oauthConfig;
+  // Jira access tokens expire hourly; the token manager refreshes them as needed
+  private jiraRequest(url: string) {
+    return this.withAccessToken(accessToken => this.makeRequest(url, {
+      'Authorization': `Bearer ${accessToken}`,
+      'Accept': 'application/json',
+    }));
+  }
+
+  get isIncremental(): boolean {
+    return !!this.config.lastSyncTime;
+  }
+
+  get incidentsTruncated(): boolean {
+    return this.truncated;
+  }
+
+  get incidentsResumeFrom(): Date | undefined {
+    return this.stoppedAt;
+  }
+
+  async testConnection(): Promise<string> {
+    const user = await this.jiraRequest(`${this.jiraBaseUrl}/rest/api/3/myself`);
+    return `Connected to ${this.jiraBaseUrl} as ${user.displayName}`;
+  }
+
+  /**
+   * Full syncs list the open issues matching the configured filter.
+   * Incremental syncs list everything the filter matches that changed since
+   * the last sync, closed issues included, so resolutions are picked up.
+   * After a truncated incremental sync they continue from the last issue it read.
+   */
+  private buildJql(): string {
+    const configured = (this.config.dataSource.metadata as Record<string, unknown> | null)?.jql;
+    const filter = (typeof configured === 'string' && configured.trim() ? configured : DEFAULT_JIRA_JQL)
+      .replace(/\s+order\s+by\s+[\s\S]*$/i, '')
+      .trim();
+    const { lastSyncTime, resumeFrom } = this.config;
+
+    if (!lastSyncTime) {
+      return `(${filter}) AND status != Done ORDER BY updated DESC`;
+    }
+
+    // Relative JQL dates avoid depending on the Jira user's time zone. A
+    // resume point is Jira's own update time, so it needs no overlap.
+    const minutes = resumeFrom
+      ? Math.ceil((Date.now() - resumeFrom.getTime()) / 60000)
+      : Math.ceil((Date.now() - lastSyncTime.getTime()) / 60000) + JIRA_SYNC_OVERLAP_MINUTES;
+    return `(${filter}) AND updated >= "-${minutes}m" ORDER BY updated ASC`;
   }
 
   async fetchIncidents(): Promise<InsertIncident[]> {
-    if (!this.oauthConfig?.access_token) {
-      throw new Error('Jira OAuth token not found');
+    const jql = this.buildJql();
+    const issues: any[] = [];
+    let total = 0;
+
+    for (let page = 0; page < JIRA_MAX_PAGES; page++) {
+      const url = `${this.jiraBaseUrl}/rest/api/3/search?jql=${encodeURIComponent(jql)}&startAt=${issues.length}&maxResults=${JIRA_PAGE_SIZE}`;
+      const data = await this.jiraRequest(url);
+
+      const pageIssues: any[] = data.issues || [];
+      issues.push(...pageIssues);
+      total = data.total ?? 0;
+
+      if (pageIssues.length === 0 || issues.length >= total) break;
     }
 
-    const jql = 'project in (projectsWhereUserHasPermission("BROWSE_PROJECTS")) AND status != Done ORDER BY updated DESC';
-    const url = `${this.jiraBaseUrl}/rest/api/3/search?jql=${encodeURIComponent(jql)}&maxResults=100`;
-    
-    const data = await this.makeRequest(url, {
-      'Authorization': `Bearer ${this.oauthConfig.access_token}`,
-      'Accept': 'application/json',
-    });
+    this.truncated = issues.length < total;
+    if (this.truncated) {
+      console.warn(`Jira search for ${this.config.dataSource.name} stopped after ${issues.length} of ${total} issues`);
+      // Incremental searches run in update order, so the next one can start where this one stopped
+      const lastUpdated = issues.length ? Date.parse(issues[issues.length - 1].fields?.updated) : NaN;
+      this.stoppedAt = this.isIncremental && Number.isFinite(lastUpdated) ? new Date(lastUpdated) : undefined;
+    }
 
-    return data.issues?.map((issue: any) => ({
+    return issues.map(issue => this.mapIssue(issue));
+  }
+
+  async fetchIncident(externalId: string): Promise<InsertIncident | null> {
+    try {
+      const issue = await this.jiraRequest(`${this.jiraBaseUrl}/rest/api/3/issue/${externalId}`);
+      return this.mapIssue(issue);
+    } catch (error) {
+      if (this.isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  private mapIssue(issue: any): InsertIncident {
+    return {
       externalId: issue.id,
       dataSourceId: this.config.dataSource.id,
       systemName: 'Jira',
@@ -312,20 +614,13 @@ export class JiraConnector extends BaseConnector {
         reporter: issue.fields.reporter?.displayName,
         assignee: issue.fields.assignee?.displayName,
       },
-    })) || [];
+    };
   }
 
   async fetchComponents(): Promise<InsertServiceComponent[]> {
-    if (!this.oauthConfig?.access_token) {
-      throw new Error('Jira OAuth token not found');
-    }
-
     const url = `${this.jiraBaseUrl}/rest/api/3/project`;
     
-    const data = await this.makeRequest(url, {
-      'Authorization': `Bearer ${this.oauthConfig.access_token}`,
-      'Accept': 'application/json',
-    });
+    const data = await this.jiraRequest(url);
 
     return data?.map((project: any, index: number) => ({
       dataSourceId: this.config.dataSource.id,
@@ -344,39 +639,70 @@ export class JiraConnector extends BaseConnector {
     })) || [];
   }
 
-  async fetchIncidentUpdates(incidentId: string): Promise<InsertIncidentUpdate[]> {
-    if (!this.oauthConfig?.access_token) {
-      throw new Error('Jira OAuth token not found');
-    }
+  async fetchIncidentUpdates(incident: Incident): Promise<InsertIncidentUpdate[]> {
+    const changes: any[] = [];
 
-    const url = `${this.jiraBaseUrl}/rest/api/3/issue/${incidentId}/changelog`;
-    
     try {
-      const data = await this.makeRequest(url, {
-        'Authorization': `Bearer ${this.oauthConfig.access_token}`,
-        'Accept': 'application/json',
-      });
+      for (let page = 0; page < JIRA_MAX_PAGES; page++) {
+        const url = `${this.jiraBaseUrl}/rest/api/3/issue/${incident.externalId}/changelog?startAt=${changes.length}&maxResults=${JIRA_PAGE_SIZE}`;
+        const data = await this.jiraRequest(url);
 
-      return data.values?.map((change: any) => ({
-        incidentId: parseInt(incidentId),
-        updateType: 'status_change',
-        previousStatus: change.items.find((item: any) => item.field === 'status')?.fromString,
-        newStatus: this.mapStatus(change.items.find((item: any) => item.field === 'status')?.toString || ''),
-        message: `Updated by ${change.author.displayName}`,
-        timestamp: new Date(change.created),
-        metadata: {
-          source: 'jira',
-          changeId: change.id,
-          author: change.author.displayName,
-          items: change.items,
-        },
-      })) || [];
+        const pageChanges: any[] = data.values || [];
+        changes.push(...pageChanges);
+        if (data.isLast !== false || pageChanges.length === 0) break;
+      }
+
+      return changes.map(change => this.mapChange(incident, change));
     } catch (error) {
-      console.error(`Error fetching Jira issue updates for ${incidentId}:`, error);
+      console.error(`Error fetching Jira issue updates for ${incident.externalId}:`, error);
       return [];
     }
   }
 
+  private mapChange(incident: Incident, change: any): InsertIncidentUpdate {
+    const statusItem = change.items.find((item: any) => item.field === 'status');
+    const newStatus = statusItem ? this.mapStatus(statusItem.toString || '') : null;
+
+    return {
+      incidentId: incident.id,
+      externalId: change.id,
+      updateType: !statusItem ? 'new_update' : newStatus === 'resolved' ? 'resolved' : 'status_change',
+      previousStatus: statusItem ? this.mapStatus(statusItem.fromString || '') : null,
+      newStatus,
+      message: `Updated by ${change.author.displayName}`,
+      timestamp: new Date(change.created),
+      metadata: {
+        source: 'jira',
+        author: change.author.displayName,
+        items: change.items,
+      },
+    };
+  }
+
+  /**
+   * Jira issue webhooks (jira:issue_created, _updated, _deleted) send the full
+   * issue, plus the changelog entry for updates.
+   */
+  parseWebhook(payload: any): PushedIncident[] {
+    if (!payload?.issue?.fields || !String(payload.webhookEvent || '').startsWith('jira:issue_')) {
+      throw new Error('Not a Jira issue webhook');
+    }
+
+    const incident = this.mapIssue(payload.issue);
+    if (payload.webhookEvent === 'jira:issue_deleted') {
+      // A deleted issue is gone from every future listing; close it now
+      return [{ incident: { ...incident, status: 'resolved', resolvedAt: incident.resolvedAt ?? new Date() } }];
+    }
+
+    const { changelog } = payload;
+    return [{
+      incident,
+      timeline: changelog?.id && payload.user
+        ? stored => [this.mapChange(stored, { ...changelog, author: payload.user, created: payload.timestamp })]
+        : undefined,
+    }];
+  }
+
   private mapStatus(jiraStatus: string): string {
     const statusMap: Record<string, string> = {
       'To Do': 'investigating',
@@ -422,71 +748,463 @@ export class JiraConnector extends BaseConnector {
   }
 }
 
-// Factory for creating connectors
-export class ConnectorFactory {
-  static createConnector(dataSource: DataSource): BaseConnector {
-    const config: ConnectorConfig = { dataSource };
+// Built-in connector types
+registerConnector({
+  type: 'statuspage',
+  name: 'Statuspage',
+  description: 'Public status page hosted on Atlassian Statuspage',
+  capabilities: ['incidents', 'components', 'updates', 'webhooks'],
+  configSchema: z.object({
+    baseUrl: z.string().url().describe('Status page URL'),
+  }),
+  create: config => new StatusPageConnector(config),
+});
+
+registerConnector({
+  type: 'github-status',
+  name: 'GitHub Status',
+  description: "GitHub's public status page",
+  capabilities: ['incidents', 'components', 'updates', 'webhooks'],
+  configSchema: z.object({
+    baseUrl: z.string().url().default('https://www.githubstatus.com').describe('Status page URL'),
+  }),
+  create: config => new GitHubStatusConnector(config),
+});
+
+registerConnector({
+  type: 'azure-status',
+  name: 'Azure Status',
+  description: 'Microsoft Azure service health feed',
+  capabilities: ['incidents', 'components'],
+  configSchema: z.object({
+    baseUrl: z.string().url().default('https://status.azure.com').describe('Status feed URL'),
+  }),
+  create: config => new AzureStatusConnector(config),
+});
+
+registerConnector({
+  type: 'jira',
+  name: 'Jira',
+  description: 'Jira Cloud issues, one data source per connected site',
+  capabilities: ['incidents', 'components', 'updates', 'webhooks', 'write_back'],
+  connect: 'oauth',
+  configSchema: z.object({
+    baseUrl: z.string().url().describe('Site URL'),
+    metadata: z.object({
+      jql: z.string().optional().describe('JQL filter'),
+    }).passthrough().optional(),
+    oauthConfig: z.object({
+      access_token: z.string(),
+      refresh_token: z.string().nullable().optional(),
+    }).passthrough(),
+  }),
+  create: config => new JiraConnector(config),
+});
+
+export interface SyncRunStats {
+  incremental: boolean;
+  truncated: boolean; // a listing stopped at its page cap, so the next sync starts from the previous one
+  resumeFrom: Date | null; // or, when set, from this point in the source's update times
+  incidentsCreated: number;
+  incidentsUpdated: number;
+  incidentsUnchanged: number;
+  incidentsResolved: number;
+  updatesCreated: number;
+  componentsSynced: number;
+  solutionsSynced: number;
+  ticketsSynced: number;
+}
+
+const emptyStats = (incremental: boolean): SyncRunStats => ({
+  incremental,
+  truncated: false,
+  resumeFrom: null,
+  incidentsCreated: 0,
+  incidentsUpdated: 0,
+  incidentsUnchanged: 0,
+  incidentsResolved: 0,
+  updatesCreated: 0,
+  componentsSynced: 0,
+  solutionsSynced: 0,
+  ticketsSynced: 0,
+});
+
+// Dates read back from storage may be strings, so compare everything in serialized form
+function normalizeForComparison(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  return JSON.stringify(value instanceof Date ? value.toISOString() : value);
+}
+
+// Storage stamps updatedAt with the time of every write, so it never matches what the source sent
+function hasIncidentChanged(existing: Incident, incoming: InsertIncident): boolean {
+  return (Object.keys(incoming) as (keyof InsertIncident)[]).some(
+    key => key !== 'updatedAt' && normalizeForComparison(existing[key]) !== normalizeForComparison(incoming[key]),
+  );
+}
+
+// Note a listing that stopped at its page cap. The next sync carries on from
+// the earliest point any listing reached, or starts over if one cannot resume.
+function recordTruncation(stats: SyncRunStats, resumeFrom: Date | undefined): void {
+  const earlier = stats.truncated ? stats.resumeFrom : resumeFrom;
+  stats.resumeFrom = resumeFrom && earlier ? new Date(Math.min(resumeFrom.getTime(), earlier.getTime())) : null;
+  stats.truncated = true;
+}
+
+const FULL_RESYNC_INTERVAL = 12 * 60 * 60 * 1000; // incremental sources still get a full listing this often
+const SYNC_RUN_LOOKBACK = 200; // runs searched for the last full and last successful sync
+const STALE_RECHECK_INTERVAL = 60 * 60 * 1000; // between lookups of an incident missing from the listing
+const STALE_RESOLVE_AFTER = 6 * 60 * 60 * 1000; // missing this long without a lookup counts as resolved
+
+// Close an incident the source no longer knows about
+function resolveMissing(incident: Incident, now: Date): Partial<InsertIncident> {
+  return {
+    status: 'resolved',
+    resolvedAt: incident.resolvedAt ?? now,
+    isActive: false,
+    staleSince: null,
+    metadata: { ...(incident.metadata as Record<string, unknown> | null), resolvedBy: 'reconciliation' },
+  };
+}
+
+const TRACKED_INCIDENT_FIELDS: IncidentTransition['field'][] = ['status', 'severity', 'impact', 'affectedServices'];
+
+const TRANSITION_LABELS: Record<IncidentTransition['field'], string> = {
+  status: 'Status',
+  severity: 'Severity',
+  impact: 'Impact',
+  affectedServices: 'Affected services',
+};
+
+function detectTransitions(before: Incident, after: Incident): IncidentTransition[] {
+  return TRACKED_INCIDENT_FIELDS
+    .filter(field => normalizeForComparison(before[field]) !== normalizeForComparison(after[field]))
+    .map(field => ({ field, from: before[field] ?? null, to: after[field] ?? null }));
+}
+
+function transitionUpdateType(transitions: IncidentTransition[]): IncidentTransitionEvent['updateType'] {
+  const status = transitions.find(t => t.field === 'status');
+  if (status?.to === 'resolved') return 'resolved';
+  if (status) return 'status_change';
+  if (transitions.some(t => t.field === 'severity' || t.field === 'impact')) return 'severity_change';
+  return 'new_update';
+}
+
+function describeTransition({ field, from, to }: IncidentTransition): string {
+  const format = (value: string | string[] | null) =>
+    Array.isArray(value) ? (value.length ? value.join(', ') : 'none') : value ?? 'none';
+  return `${TRANSITION_LABELS[field]} changed from ${format(from)} to ${format(to)}`;
+}
+
+/**
+ * Sync service for aggregating data from all sources. Emits
+ * `incident_transition` with an IncidentTransitionEvent whenever a sync
+ * changes the status, severity, impact or affected services of a stored
+ * incident.
+ */
+export class IncidentSyncService extends EventEmitter {
+  /**
+   * Pull incidents and components for one source into storage. Errors are
+   * thrown to the caller, which owns scheduling and sync bookkeeping.
+   */
+  async syncDataSource(dataSource: DataSource): Promise<SyncRunStats> {
+    const connector = createConnector(dataSource, await this.syncWindow(dataSource));
+    const stats = emptyStats(connector.isIncremental);
     
-    switch (dataSource.type) {
-      case 'statuspage':
-        return new StatusPageConnector(config);
-      case 'github-status':
-        return new GitHubStatusConnector(config);
-      case 'azure-status':
-        return new AzureStatusConnector(config);
-      case 'jira':
-        return new JiraConnector(config);
-      default:
-        throw new Error(`Unsupported connector type: ${dataSource.type}`);
+    // Push-only connectors have no listing to poll
+    if (hasCapability(dataSource.type, 'incidents')) {
+      // Sync incidents, leaving rows the source has not changed untouched
+      const incidents = await connector.fetchIncidents();
+      if (connector.incidentsTruncated) recordTruncation(stats, connector.incidentsResumeFrom);
+      const existingByExternalId = await this.incidentsByExternalId(dataSource);
+
+      for (const incident of incidents) {
+        const existing = existingByExternalId.get(incident.externalId);
+        const stored = await this.applyIncident(dataSource, incident, existing, stats);
+        const current = stored ?? existing;
+        if (current && hasCapability(dataSource.type, 'updates') && await this.needsTimeline(connector, current, !!stored)) {
+          stats.updatesCreated += await this.syncIncidentUpdates(connector, dataSource, current);
+        }
+      }
+
+      // Reconcile open incidents the listing no longer returns. An incremental
+      // listing leaves out everything unchanged, so only complete full listings count.
+      if (!connector.isIncremental && !connector.incidentsTruncated) {
+        const listed = new Set(incidents.map(incident => incident.externalId));
+        for (const incident of Array.from(existingByExternalId.values())) {
+          if (listed.has(incident.externalId) || incident.isActive === false || incident.status === 'resolved') continue;
+          await this.reconcileMissingIncident(connector, dataSource, incident, stats);
+        }
+      }
+    }
+    
+    // Sync components
+    if (hasCapability(dataSource.type, 'components')) {
+      const components = await connector.fetchComponents();
+
+      for (const component of components) {
+        await storage.upsertServiceComponent(component);
+      }
+      stats.componentsSynced = components.length;
     }
+
+    // Sync knowledge articles
+    if (hasCapability(dataSource.type, 'knowledge') && connector.fetchSolutions) {
+      stats.solutionsSynced = await this.syncSolutions(dataSource, await connector.fetchSolutions());
+    }
+
+    // Sync support tickets. Links to incidents are kept, since tickets never carry one.
+    if (hasCapability(dataSource.type, 'tickets') && connector.fetchSupportTickets) {
+      const { tickets, truncated, resumeFrom } = await connector.fetchSupportTickets();
+      for (const ticket of tickets) {
+        await storage.upsertSupportTicketByExternalId(ticket.externalId, dataSource.id, ticket);
+      }
+      stats.ticketsSynced = tickets.length;
+      if (truncated) recordTruncation(stats, resumeFrom);
+    }
+
+    return stats;
   }
-}
 
-// Sync service for aggregating data from all sources
-export class IncidentSyncService {
-  async syncAllDataSources(): Promise<void> {
-    try {
-      const dataSources = await storage.getDataSources();
-      const activeSources = dataSources.filter(ds => ds.isActive);
-      
-      console.log(`Syncing ${activeSources.length} active data sources...`);
-      
-      for (const dataSource of activeSources) {
+  /**
+   * Store the articles a source publishes as solutions and archive the ones
+   * it no longer does. Returns the number of articles stored.
+   */
+  private async syncSolutions(dataSource: DataSource, { solutions, truncated }: SolutionListing): Promise<number> {
+    const published = new Set<string>();
+
+    for (const article of solutions) {
+      if (!article.externalId) continue;
+      published.add(article.externalId);
+      await storage.upsertSolutionByExternalId(article.externalId, dataSource.id, { ...article, status: 'active' });
+    }
+
+    if (truncated) {
+      console.warn(`Knowledge listing for ${dataSource.name} was cut short, not archiving articles missing from it`);
+      return published.size;
+    }
+
+    for (const solution of await storage.getSolutionsByDataSource(dataSource.id)) {
+      if (solution.status === 'archived' || (solution.externalId && published.has(solution.externalId))) continue;
+      await storage.updateSolution(solution.id, { status: 'archived' });
+    }
+
+    return published.size;
+  }
+
+  /**
+   * Store incidents a source pushed to its webhook, through the same change
+   * detection as a sync. Pushes are partial by nature, so nothing is
+   * reconciled against them.
+   */
+  async ingestIncidents(dataSource: DataSource, pushed: PushedIncident[]): Promise<SyncRunStats> {
+    const stats = emptyStats(true);
+    const existingByExternalId = await this.incidentsByExternalId(dataSource);
+
+    for (const { incident, timeline } of pushed) {
+      const existing = existingByExternalId.get(incident.externalId);
+      const stored = await this.applyIncident(dataSource, incident, existing, stats) ?? existing!;
+      if (timeline) {
+        stats.updatesCreated += await this.storeIncidentUpdates(stored, timeline(stored));
+      }
+    }
+
+    return stats;
+  }
+
+  private async incidentsByExternalId(dataSource: DataSource): Promise<Map<string, Incident>> {
+    return new Map(
+      (await storage.getIncidentsByDataSource(dataSource.id)).map(incident => [incident.externalId, incident] as const),
+    );
+  }
+
+  /**
+   * Create or update one incident from the source, counting the outcome in
+   * `stats`. Resolves to the stored incident, or null when nothing changed.
+   */
+  private async applyIncident(
+    dataSource: DataSource,
+    incident: InsertIncident,
+    existing: Incident | undefined,
+    stats: SyncRunStats,
+  ): Promise<Incident | null> {
+    // An incident back in the listing is no longer stale, even if nothing else changed
+    const wasStale = !!existing?.staleSince;
+    if (!existing) {
+      stats.incidentsCreated++;
+    } else if (wasStale || hasIncidentChanged(existing, incident)) {
+      stats.incidentsUpdated++;
+    } else {
+      stats.incidentsUnchanged++;
+      return null;
+    }
+
+    const stored = await storage.upsertIncidentByExternalId(
+      incident.externalId,
+      dataSource.id,
+      wasStale ? { ...incident, staleSince: null } : incident,
+    );
+    if (existing) {
+      stats.updatesCreated += await this.recordTransitions(existing, stored);
+    }
+    return stored;
+  }
+
+  /**
+   * What connectors that support it fetch: `lastSyncTime` is the start of the
+   * last complete sync, to fetch only what changed since. It is left out to
+   * ask for a full listing: on the first sync, and whenever the last full one
+   * is older than FULL_RESYNC_INTERVAL. `resumeFrom` is where the latest
+   * sync's truncated listing stopped, for the next one to carry on from.
+   */
+  private async syncWindow(dataSource: DataSource): Promise<Omit<ConnectorConfig, 'dataSource'>> {
+    // Webhook runs only cover what was pushed, so they say nothing about what a poll has seen
+    const polled = (await storage.getSyncRuns(dataSource.id, SYNC_RUN_LOOKBACK))
+      .filter(run => run.status === 'succeeded' && run.trigger !== 'webhook');
+    // Truncated runs left changes unread, so they do not count as a sync
+    const complete = polled.filter(run => !run.truncated);
+    const lastFull = complete.find(run => !run.incremental);
+    const latest = polled[0];
+    const resumeFrom = latest?.truncated && latest.resumeFrom ? new Date(latest.resumeFrom) : undefined;
+
+    if (!lastFull || Date.now() - new Date(lastFull.startedAt).getTime() >= FULL_RESYNC_INTERVAL) {
+      return { resumeFrom };
+    }
+    return { lastSyncTime: new Date(complete[0].startedAt), resumeFrom };
+  }
+
+  /**
+   * Decide what became of an open incident that dropped out of the source's
+   * listing. It is marked stale first; a targeted lookup then either closes
+   * it or confirms it is still open. Sources without a lookup resolve stale
+   * incidents once STALE_RESOLVE_AFTER has passed.
+   */
+  private async reconcileMissingIncident(
+    connector: BaseConnector,
+    dataSource: DataSource,
+    incident: Incident,
+    stats: SyncRunStats,
+  ): Promise<void> {
+    const now = new Date();
+    const staleSince = incident.staleSince ? new Date(incident.staleSince) : null;
+    const lastChecked = incident.syncedAt ? new Date(incident.syncedAt) : null;
+    let updated: Incident | null = null;
+
+    if (connector.fetchIncident) {
+      // Confirmed-open incidents outside the listing are only looked up again every so often
+      const recheckDue = !staleSince || !lastChecked || now.getTime() - lastChecked.getTime() >= STALE_RECHECK_INTERVAL;
+      if (recheckDue) {
         try {
-          await this.syncDataSource(dataSource);
-          await storage.updateDataSourceSyncTime(dataSource.id);
+          const latest = await connector.fetchIncident(incident.externalId);
+          if (!latest) {
+            updated = await storage.updateIncident(incident.id, resolveMissing(incident, now));
+          } else {
+            const closed = latest.status === 'resolved';
+            updated = await storage.upsertIncidentByExternalId(incident.externalId, dataSource.id, {
+              ...latest,
+              ...(closed
+                ? { isActive: false, resolvedAt: latest.resolvedAt ?? now, staleSince: null }
+                : { staleSince: staleSince ?? now }),
+            });
+          }
         } catch (error) {
-          console.error(`Failed to sync data source ${dataSource.name}:`, error);
-          await storage.updateDataSourceSyncTime(dataSource.id, error instanceof Error ? error.message : String(error));
+          console.error(`Failed to look up ${dataSource.name} incident ${incident.externalId}: ${error instanceof Error ? error.message : error}`);
         }
       }
-      
-      console.log('Data source sync completed');
-    } catch (error) {
-      console.error('Error during data source sync:', error);
+    } else if (staleSince && now.getTime() - staleSince.getTime() >= STALE_RESOLVE_AFTER) {
+      updated = await storage.updateIncident(incident.id, resolveMissing(incident, now));
     }
+
+    if (!updated) {
+      if (!staleSince) await storage.updateIncident(incident.id, { staleSince: now });
+      return;
+    }
+
+    if (updated.status === 'resolved') stats.incidentsResolved++;
+    stats.updatesCreated += await this.recordTransitions(incident, updated);
   }
 
-  private async syncDataSource(dataSource: DataSource): Promise<void> {
-    console.log(`Syncing data source: ${dataSource.name} (${dataSource.type})`);
-    
-    const connector = ConnectorFactory.createConnector(dataSource);
-    
-    // Sync incidents
-    const incidents = await connector.fetchIncidents();
-    console.log(`Found ${incidents.length} incidents for ${dataSource.name}`);
-    
-    for (const incident of incidents) {
-      await storage.upsertIncidentByExternalId(incident.externalId, dataSource.id, incident);
+  /**
+   * Write a timeline entry for the tracked fields a sync changed, since the
+   * upsert itself keeps no history. Returns the number of entries written.
+   */
+  private async recordTransitions(before: Incident, after: Incident): Promise<number> {
+    const changes = detectTransitions(before, after);
+    if (changes.length === 0) return 0;
+
+    const updateType = transitionUpdateType(changes);
+    const timestamp = new Date();
+
+    await storage.createIncidentUpdate({
+      incidentId: after.id,
+      updateType,
+      previousStatus: before.status,
+      newStatus: after.status,
+      message: changes.map(describeTransition).join('; '),
+      timestamp,
+      metadata: {
+        source: 'sync',
+        changes,
+      },
+    });
+
+    const event: IncidentTransitionEvent = {
+      incidentId: after.id,
+      dataSourceId: after.dataSourceId!,
+      title: after.title,
+      systemName: after.systemName,
+      updateType,
+      changes,
+      timestamp: timestamp.toISOString(),
+    };
+    this.emit('incident_transition', event);
+
+    return 1;
+  }
+
+  /**
+   * Whether a listed incident's timeline is worth fetching. Notes and comments
+   * can be added without the incident itself changing, so open incidents are
+   * always fetched. Resolved ones are fetched when they changed, or on a full
+   * sync while nothing from the source is stored for them yet, which
+   * backfills incidents synced before their timeline was.
+   */
+  private async needsTimeline(connector: BaseConnector, incident: Incident, changed: boolean): Promise<boolean> {
+    if (changed || incident.status !== 'resolved') return true;
+    if (connector.isIncremental) return false;
+    // Recorded status transitions carry no externalId, so they do not count
+    return !(await storage.getIncidentUpdates(incident.id)).some(update => update.externalId);
+  }
+
+  /**
+   * Store the timeline entries of one incident that are not stored yet.
+   * A failing timeline fetch is logged and skipped so the rest of the sync
+   * still lands.
+   */
+  private async syncIncidentUpdates(connector: BaseConnector, dataSource: DataSource, incident: Incident): Promise<number> {
+    let updates: InsertIncidentUpdate[];
+    try {
+      updates = await connector.fetchIncidentUpdates(incident);
+    } catch (error) {
+      console.error(`Failed to fetch updates for ${dataSource.name} incident ${incident.externalId}: ${error instanceof Error ? error.message : error}`);
+      return 0;
     }
-    
-    // Sync components
-    const components = await connector.fetchComponents();
-    console.log(`Found ${components.length} components for ${dataSource.name}`);
-    
-    for (const component of components) {
-      await storage.upsertServiceComponent(component);
+
+    return this.storeIncidentUpdates(incident, updates);
+  }
+
+  // Store the entries not stored yet, recognising them by their externalId
+  private async storeIncidentUpdates(incident: Incident, updates: InsertIncidentUpdate[]): Promise<number> {
+    const known = new Set((await storage.getIncidentUpdates(incident.id)).map(update => update.externalId));
+    let created = 0;
+
+    for (const update of updates) {
+      if (update.externalId && known.has(update.externalId)) continue;
+      await storage.createIncidentUpdate(update);
+      if (update.externalId) known.add(update.externalId);
+      created++;
     }
+
+    return created;
   }
 }
 
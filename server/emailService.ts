@@ -7,6 +7,13 @@ interface VerificationEmailData {
   verificationCode: string;
 }
 
+interface InvitationEmailData {
+  to: string;
+  firstName: string;
+  inviterName: string;
+  inviteUrl: string;
+}
+
 class EmailService {
   private transporter: nodemailer.Transporter | null;
   private isConfigured: boolean;
@@ -102,6 +109,143 @@ class EmailService {
     }
   }
 
+  async sendEmailVerificationEmail(data: VerificationEmailData): Promise<boolean> {
+    try {
+      if (!this.isConfigured || !this.transporter) {
+        console.log('🔧 Development Mode - Email Verification (No SMTP config)');
+        console.log('To:', data.to);
+        console.log('Verification Code:', data.verificationCode);
+        console.log('================================================================================');
+        return true; // Return success for development
+      }
+
+      const result = await this.transporter.sendMail({
+        from: {
+          name: 'QueryLinker',
+          address: process.env.GMAIL_USER!
+        },
+        to: data.to,
+        subject: 'Verify your email address - QueryLinker',
+        html: this.getEmailVerificationTemplate(data),
+        text: this.getEmailVerificationTextContent(data)
+      });
+      console.log('Email verification code sent successfully:', result.messageId);
+      return true;
+    } catch (error) {
+      console.error('Failed to send email verification code:', error);
+      return false;
+    }
+  }
+
+  private getEmailVerificationTemplate(data: VerificationEmailData): string {
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>Verify your email - QueryLinker</title>
+</head>
+<body style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #f8f9fa;">
+    <div style="background-color: #ffffff; border-radius: 10px; padding: 40px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+        <div style="text-align: center; font-size: 28px; font-weight: bold; color: #2563eb; margin-bottom: 20px;">QueryLinker</div>
+        <p>Hello ${data.firstName || 'there'},</p>
+        <p>Thanks for signing up. Enter this code in QueryLinker to confirm your email address:</p>
+        <div style="text-align: center; margin: 30px 0;">
+            <div style="display: inline-block; background-color: #f3f4f6; border: 2px solid #2563eb; border-radius: 12px; padding: 20px 40px; font-family: 'Courier New', monospace; font-size: 36px; font-weight: bold; letter-spacing: 8px; color: #2563eb;">${data.verificationCode}</div>
+        </div>
+        <p style="font-size: 14px; color: #ef4444;">⏰ This code will expire in 24 hours.</p>
+        <p style="font-size: 14px; color: #6b7280;">If you didn't create a QueryLinker account, you can safely ignore this email.</p>
+    </div>
+</body>
+</html>
+    `;
+  }
+
+  private getEmailVerificationTextContent(data: VerificationEmailData): string {
+    return `
+Verify your email address - QueryLinker
+
+Hello ${data.firstName || 'there'},
+
+Thanks for signing up. Enter this code in QueryLinker to confirm your email address:
+
+${data.verificationCode}
+
+This code will expire in 24 hours.
+
+If you didn't create a QueryLinker account, you can safely ignore this email.
+    `;
+  }
+
+  async sendInvitationEmail(data: InvitationEmailData): Promise<boolean> {
+    try {
+      if (!this.isConfigured || !this.transporter) {
+        console.log('🔧 Development Mode - Invitation Email (No SMTP config)');
+        console.log('To:', data.to);
+        console.log('Invitation Link:', data.inviteUrl);
+        console.log('================================================================================');
+        return true; // Return success for development
+      }
+
+      const result = await this.transporter.sendMail({
+        from: {
+          name: 'QueryLinker',
+          address: process.env.GMAIL_USER!
+        },
+        to: data.to,
+        subject: `${data.inviterName} invited you to QueryLinker`,
+        html: this.getInvitationEmailTemplate(data),
+        text: this.getInvitationTextContent(data)
+      });
+      console.log('Invitation email sent successfully:', result.messageId);
+      return true;
+    } catch (error) {
+      console.error('Failed to send invitation email:', error);
+      return false;
+    }
+  }
+
+  private getInvitationEmailTemplate(data: InvitationEmailData): string {
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>You're invited - QueryLinker</title>
+</head>
+<body style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #f8f9fa;">
+    <div style="background-color: #ffffff; border-radius: 10px; padding: 40px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+        <div style="text-align: center; font-size: 28px; font-weight: bold; color: #2563eb; margin-bottom: 20px;">QueryLinker</div>
+        <p>Hello ${data.firstName || 'there'},</p>
+        <p>${data.inviterName} has invited you to join their QueryLinker workspace.</p>
+        <div style="text-align: center; margin: 30px 0;">
+            <a href="${data.inviteUrl}" style="display: inline-block; background-color: #2563eb; color: #ffffff; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: 600;">Accept Invitation</a>
+        </div>
+        <p style="font-size: 14px; color: #ef4444;">⏰ This invitation will expire in 7 days.</p>
+        <p style="font-size: 14px; color: #6b7280;">If you weren't expecting this invitation, you can safely ignore this email.</p>
+    </div>
+</body>
+</html>
+    `;
+  }
+
+  private getInvitationTextContent(data: InvitationEmailData): string {
+    return `
+You're invited to QueryLinker
+
+Hello ${data.firstName || 'there'},
+
+${data.inviterName} has invited you to join their QueryLinker workspace.
+
+Accept the invitation here:
+${data.inviteUrl}
+
+This invitation will expire in 7 days.
+
+If you weren't expecting this invitation, you can safely ignore this email.
+    `;
+  }
+
   private getVerificationCodeEmailTemplate(data: VerificationEmailData): string {
     return `
 <!DOCTYPE html>
@@ -0,0 +1,208 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+/**
+ * Envelope encryption for integration credentials. Every value gets its own
+ * random data key; the data key is wrapped with the master key and stored
+ * next to the ciphertext, so rotating the master key only means re-wrapping.
+ *
+ * Serialized form: enc:v1:<masterKeyId>:<wrappedDataKey>:<ciphertext>
+ * where both payloads are base64(iv | authTag | ciphertext) under AES-256-GCM.
+ */
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const DEV_MASTER_KEY = 'querylinker-dev-credentials-key';
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+// A 32-byte base64 key is used as-is; anything else is treated as a passphrase
+function toMasterKey(material: string): MasterKey {
+  const decoded = Buffer.from(material, 'base64');
+  const key = decoded.length === 32 ? decoded : createHash('sha256').update(material).digest();
+  const id = createHash('sha256').update(key).digest('hex').slice(0, 8);
+  return { id, key };
+}
+
+let cachedKeys: { current: MasterKey; all: Map<string, MasterKey> } | null = null;
+
+function getMasterKeys() {
+  if (cachedKeys) return cachedKeys;
+
+  if (!process.env.CREDENTIALS_ENCRYPTION_KEY) {
+    console.warn('CREDENTIALS_ENCRYPTION_KEY not set, using an insecure development key');
+  }
+  const current = toMasterKey(process.env.CREDENTIALS_ENCRYPTION_KEY || DEV_MASTER_KEY);
+
+  // Keys being rotated out stay available for decryption until re-encryption finishes
+  const previous = (process.env.CREDENTIALS_ENCRYPTION_PREVIOUS_KEYS || '')
+    .split(',')
+    .map(material => material.trim())
+    .filter(Boolean)
+    .map(toMasterKey);
+
+  const all = new Map<string, MasterKey>();
+  for (const masterKey of [current, ...previous]) {
+    all.set(masterKey.id, masterKey);
+  }
+
+  cachedKeys = { current, all };
+  return cachedKeys;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const payload = Buffer.from(sealed, 'base64');
+  const iv = payload.subarray(0, IV_BYTES);
+  const tag = payload.subarray(IV_BYTES, IV_BYTES + TAG_BYTES);
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(payload.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+export function encryptSecret(plaintext: string): string {
+  const { current } = getMasterKeys();
+  const dataKey = randomBytes(32);
+  return `${PREFIX}${current.id}:${seal(current.key, dataKey)}:${seal(dataKey, Buffer.from(plaintext, 'utf8'))}`;
+}
+
+/**
+ * Decrypt a value produced by encryptSecret. Plain values written before
+ * encryption was introduced pass through unchanged.
+ */
+export function decryptSecret(value: string): string {
+  if (!isEncrypted(value)) return value;
+
+  const [keyId, wrappedKey, ciphertext] = value.slice(PREFIX.length).split(':');
+  const masterKey = getMasterKeys().all.get(keyId);
+  if (!masterKey) {
+    throw new Error(`Credential was encrypted with unknown master key ${keyId}`);
+  }
+
+  const dataKey = open(masterKey.key, wrappedKey);
+  return open(dataKey, ciphertext).toString('utf8');
+}
+
+// jsonb columns hold the ciphertext wrapped in an object so the column type is unchanged
+interface EncryptedJson {
+  encrypted: string;
+}
+
+function isEncryptedJson(value: unknown): value is EncryptedJson {
+  return !!value && typeof value === 'object' && isEncrypted((value as EncryptedJson).encrypted);
+}
+
+export function encryptJson(value: unknown): EncryptedJson | null {
+  if (value === null || value === undefined) return null;
+  if (isEncryptedJson(value)) return value;
+  return { encrypted: encryptSecret(JSON.stringify(value)) };
+}
+
+export function decryptJson<T = unknown>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (!isEncryptedJson(value)) return value as T;
+  return JSON.parse(decryptSecret(value.encrypted));
+}
+
+function encryptNullable(value: string | null | undefined): string | null | undefined {
+  if (value === null || value === undefined || isEncrypted(value)) return value;
+  return encryptSecret(value);
+}
+
+function decryptNullable(value: string | null | undefined): string | null | undefined {
+  if (value === null || value === undefined) return value;
+  return decryptSecret(value);
+}
+
+// Field maps for each table holding credentials, applied by the storage layer on write and read
+
+type CredentialRecord = Record<string, unknown>;
+
+const SECRET_STRING_FIELDS: Record<'dataSource' | 'googleToken' | 'systemConfiguration', string[]> = {
+  dataSource: ['apiKey', 'webhookSecret'],
+  googleToken: ['accessToken', 'refreshToken'],
+  systemConfiguration: [],
+};
+
+const SECRET_JSON_FIELDS: Record<'dataSource' | 'googleToken' | 'systemConfiguration', string[]> = {
+  dataSource: ['oauthConfig'],
+  googleToken: [],
+  systemConfiguration: ['oauthCredentials'],
+};
+
+export type CredentialKind = keyof typeof SECRET_STRING_FIELDS;
+
+export function encryptCredentials<T extends CredentialRecord>(kind: CredentialKind, record: T): T {
+  const result: CredentialRecord = { ...record };
+  for (const field of SECRET_STRING_FIELDS[kind]) {
+    if (field in result) result[field] = encryptNullable(result[field] as string | null | undefined);
+  }
+  for (const field of SECRET_JSON_FIELDS[kind]) {
+    if (field in result) result[field] = encryptJson(result[field]);
+  }
+  return result as T;
+}
+
+export function decryptCredentials<T extends CredentialRecord>(kind: CredentialKind, record: T): T {
+  const result: CredentialRecord = { ...record };
+  for (const field of SECRET_STRING_FIELDS[kind]) {
+    if (field in result) result[field] = decryptNullable(result[field] as string | null | undefined);
+  }
+  for (const field of SECRET_JSON_FIELDS[kind]) {
+    if (field in result) result[field] = decryptJson(result[field]);
+  }
+  return result as T;
+}
+
+/**
+ * True when the stored record is already sealed with the current master key,
+ * i.e. the re-encryption command can skip it.
+ */
+export function isEncryptedWithCurrentKey(kind: CredentialKind, record: CredentialRecord): boolean {
+  const { current } = getMasterKeys();
+  const sealedValues = [
+    ...SECRET_STRING_FIELDS[kind].map(field => record[field]),
+    ...SECRET_JSON_FIELDS[kind].map(field => (isEncryptedJson(record[field]) ? (record[field] as EncryptedJson).encrypted : record[field])),
+  ].filter(value => value !== null && value !== undefined);
+
+  return sealedValues.every(value => isEncrypted(value) && value.startsWith(`${PREFIX}${current.id}:`));
+}
+
+// API responses only ever say whether a credential is configured
+
+const REDACTED = '[redacted]';
+
+export function redactCredentials<T extends CredentialRecord>(kind: CredentialKind, record: T): T {
+  const result: CredentialRecord = { ...record };
+  for (const field of [...SECRET_STRING_FIELDS[kind], ...SECRET_JSON_FIELDS[kind]]) {
+    if (result[field] !== null && result[field] !== undefined) {
+      result[field] = REDACTED;
+    }
+  }
+  return result as T;
+}
+
+// Clients echo redacted values back on edit; treat them as "unchanged" rather than overwriting the secret
+export function stripRedactedCredentials<T extends CredentialRecord>(kind: CredentialKind, record: T): T {
+  const result: CredentialRecord = { ...record };
+  for (const field of [...SECRET_STRING_FIELDS[kind], ...SECRET_JSON_FIELDS[kind]]) {
+    if (result[field] === REDACTED) {
+      delete result[field];
+    }
+  }
+  return result as T;
+}
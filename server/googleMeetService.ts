@@ -1,5 +1,5 @@
 import { google } from 'googleapis';
-import { OAuth2Client } from 'google-auth-library';
+import { OAuth2Client, CodeChallengeMethod } from 'google-auth-library';
 import { storage } from './storage';
 import type { InsertGoogleMeeting, InsertGoogleToken } from '@shared/schema';
 
@@ -15,9 +15,9 @@ export class GoogleMeetService {
   }
 
   /**
-   * Generate OAuth consent URL
+   * Generate OAuth consent URL carrying the signed state and PKCE challenge
    */
-  getAuthUrl(): string {
+  getAuthUrl(state: string, codeChallenge?: string): string {
     const scopes = [
       'https://www.googleapis.com/auth/calendar.events',
       'https://www.googleapis.com/auth/meetings.space.created',
@@ -28,15 +28,17 @@ export class GoogleMeetService {
     return this.oauth2Client.generateAuthUrl({
       access_type: 'offline',
       scope: scopes,
-      prompt: 'consent'
+      prompt: 'consent',
+      state,
+      ...(codeChallenge && { code_challenge: codeChallenge, code_challenge_method: CodeChallengeMethod.S256 }),
     });
   }
 
   /**
    * Exchange authorization code for tokens
    */
-  async exchangeCodeForTokens(code: string) {
-    const { tokens } = await this.oauth2Client.getAccessToken(code);
+  async exchangeCodeForTokens(code: string, codeVerifier?: string) {
+    const { tokens } = await this.oauth2Client.getToken({ code, codeVerifier });
     
     if (!tokens.access_token || !tokens.expiry_date) {
       throw new Error('Invalid tokens received from Google');
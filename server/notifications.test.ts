@@ -0,0 +1,17 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from './storage';
+
+test('only the recipient can mark a notification read', async () => {
+  const notification = await storage.createNotification({
+    userId: 'owner-1',
+    type: 'incident',
+    title: 'Checkout is down',
+  });
+
+  assert.equal(await storage.markNotificationRead(notification.id, 'someone-else'), false);
+  assert.equal((await storage.getUserNotifications('owner-1', true)).length, 1);
+
+  assert.equal(await storage.markNotificationRead(notification.id, 'owner-1'), true);
+  assert.deepEqual(await storage.getUserNotifications('owner-1', true), []);
+});
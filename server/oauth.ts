@@ -0,0 +1,290 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { Request } from 'express';
+import { getSessionSecret } from './auth';
+
+/**
+ * Authorization-code flow helpers shared by every connected system. The
+ * `state` parameter is an HMAC-signed, expiring token bound to the user's
+ * session; its nonce is also kept in the session so each state can be
+ * redeemed exactly once. Providers that support PKCE additionally get a
+ * code challenge whose verifier never leaves the server.
+ */
+
+interface PendingOAuthState {
+  system: string;
+  expires: number;
+  codeVerifier?: string;
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    // Outstanding authorization requests keyed by state nonce
+    oauthStates: Record<string, PendingOAuthState>;
+  }
+}
+
+interface OAuthStatePayload {
+  system: string;
+  nonce: string;
+  session: string;
+  exp: number;
+}
+
+const STATE_TTL = 10 * 60 * 1000; // 10 minutes to finish the provider's consent screen
+const MAX_PENDING_STATES = 5;
+
+export interface OAuthProvider {
+  authorizeUrl: string;
+  tokenUrl: string;
+  clientId?: string;
+  clientSecret?: string;
+  scope?: string;
+  pkce: boolean;
+  // How the token endpoint expects the code exchange to be encoded
+  tokenRequest: 'form' | 'json' | 'basic-json';
+  authorizeParams?: Record<string, string>;
+}
+
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: Date | null;
+  scope: string | null;
+  raw: Record<string, any>;
+}
+
+// Built per call so subdomains and credentials pick up environment changes
+export function getOAuthProvider(system: string): OAuthProvider | undefined {
+  const zendeskBase = `https://${process.env.ZENDESK_SUBDOMAIN}.zendesk.com`;
+  const serviceNowBase = `https://${process.env.SERVICENOW_INSTANCE}.service-now.com`;
+
+  const providers: Record<string, OAuthProvider> = {
+    slack: {
+      authorizeUrl: 'https://slack.com/oauth/v2/authorize',
+      tokenUrl: 'https://slack.com/api/oauth.v2.access',
+      clientId: process.env.SLACK_CLIENT_ID,
+      clientSecret: process.env.SLACK_CLIENT_SECRET,
+      scope: 'chat:write,channels:read,groups:read,im:read,users:read',
+      pkce: false,
+      tokenRequest: 'form',
+    },
+    zendesk: {
+      authorizeUrl: `${zendeskBase}/oauth/authorizations/new`,
+      tokenUrl: `${zendeskBase}/oauth/tokens`,
+      clientId: process.env.ZENDESK_CLIENT_ID,
+      clientSecret: process.env.ZENDESK_CLIENT_SECRET,
+      scope: 'read write',
+      pkce: true,
+      tokenRequest: 'form',
+    },
+    notion: {
+      authorizeUrl: 'https://api.notion.com/v1/oauth/authorize',
+      tokenUrl: 'https://api.notion.com/v1/oauth/token',
+      clientId: process.env.NOTION_CLIENT_ID,
+      clientSecret: process.env.NOTION_CLIENT_SECRET,
+      pkce: false,
+      tokenRequest: 'basic-json',
+      authorizeParams: { owner: 'user' },
+    },
+    linear: {
+      authorizeUrl: 'https://linear.app/oauth/authorize',
+      tokenUrl: 'https://api.linear.app/oauth/token',
+      clientId: process.env.LINEAR_CLIENT_ID,
+      clientSecret: process.env.LINEAR_CLIENT_SECRET,
+      scope: 'read',
+      pkce: true,
+      tokenRequest: 'form',
+    },
+    servicenow: {
+      authorizeUrl: `${serviceNowBase}/oauth_auth.do`,
+      tokenUrl: `${serviceNowBase}/oauth_token.do`,
+      clientId: process.env.SERVICENOW_CLIENT_ID,
+      clientSecret: process.env.SERVICENOW_CLIENT_SECRET,
+      pkce: false,
+      tokenRequest: 'form',
+    },
+    jira: {
+      authorizeUrl: 'https://auth.atlassian.com/authorize',
+      tokenUrl: 'https://auth.atlassian.com/oauth/token',
+      clientId: process.env.JIRA_CLIENT_ID,
+      clientSecret: process.env.JIRA_CLIENT_SECRET,
+      scope: 'read:jira-work read:jira-user read:project:jira offline_access', // offline_access issues a refresh token
+      pkce: false,
+      tokenRequest: 'json',
+      authorizeParams: { audience: 'api.atlassian.com', prompt: 'consent' },
+    },
+  };
+
+  return providers[system];
+}
+
+export function getOAuthRedirectUri(req: Request, system: string): string {
+  const host = process.env.REPLIT_DOMAINS || req.get('host');
+  return `https://${host}/api/auth/${system}/callback`;
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getSessionSecret()).update(data).digest().toString('base64url');
+}
+
+// The session id itself is never put in a URL, only a digest of it
+function sessionBinding(req: Request): string {
+  return createHash('sha256').update(req.sessionID).digest().toString('base64url').slice(0, 16);
+}
+
+/**
+ * Start an authorization request for `system`: returns the signed state to
+ * send to the provider and, when PKCE is requested, the S256 code challenge.
+ */
+export function issueOAuthState(req: Request, system: string, pkce: boolean): { state: string; codeChallenge?: string } {
+  const nonce = randomBytes(16).toString('base64url');
+  const exp = Date.now() + STATE_TTL;
+  const codeVerifier = pkce ? randomBytes(32).toString('base64url') : undefined;
+
+  // Drop expired entries and cap how many abandoned flows a session can hold
+  const pending = Object.entries(req.session.oauthStates || {})
+    .filter(([, entry]) => entry.expires > Date.now())
+    .slice(-(MAX_PENDING_STATES - 1));
+  req.session.oauthStates = Object.fromEntries([...pending, [nonce, { system, expires: exp, codeVerifier }]]);
+
+  const payload: OAuthStatePayload = { system, nonce, session: sessionBinding(req), exp };
+  const encoded = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+
+  return {
+    state: `${encoded}.${sign(encoded)}`,
+    codeChallenge: codeVerifier && createHash('sha256').update(codeVerifier).digest().toString('base64url'),
+  };
+}
+
+/**
+ * Verify a state value returned by the provider and redeem it. Returns the
+ * pending request (with its PKCE verifier) or null when the state is forged,
+ * expired, issued for another system or session, or already used.
+ */
+export function consumeOAuthState(req: Request, system: string, state: unknown): PendingOAuthState | null {
+  if (typeof state !== 'string') return null;
+
+  const [encoded, signature] = state.split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  let payload: OAuthStatePayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (payload.system !== system || payload.session !== sessionBinding(req) || payload.exp <= Date.now()) {
+    return null;
+  }
+
+  const pending = req.session.oauthStates?.[payload.nonce];
+  if (!pending || pending.system !== system || pending.expires <= Date.now()) return null;
+
+  delete req.session.oauthStates![payload.nonce];
+  return pending;
+}
+
+/**
+ * Build the provider's consent URL with fresh state (and PKCE challenge where
+ * supported). Returns undefined for systems without an OAuth provider.
+ */
+export function createAuthorizationUrl(req: Request, system: string): { authUrl: string; redirectUri: string } | undefined {
+  const provider = getOAuthProvider(system);
+  if (!provider) return undefined;
+
+  const redirectUri = getOAuthRedirectUri(req, system);
+  const { state, codeChallenge } = issueOAuthState(req, system, provider.pkce);
+
+  const params = new URLSearchParams({
+    client_id: provider.clientId || '',
+    redirect_uri: redirectUri,
+    response_type: 'code',
+    state,
+    ...provider.authorizeParams,
+  });
+  if (provider.scope) params.set('scope', provider.scope);
+  if (codeChallenge) {
+    params.set('code_challenge', codeChallenge);
+    params.set('code_challenge_method', 'S256');
+  }
+
+  return { authUrl: `${provider.authorizeUrl}?${params.toString()}`, redirectUri };
+}
+
+// Raised when the provider refuses a grant outright, as opposed to being unreachable
+export class OAuthGrantRejectedError extends Error {}
+
+async function requestTokens(system: string, fields: Record<string, string>, action: string): Promise<OAuthTokens> {
+  const provider = getOAuthProvider(system);
+  if (!provider) {
+    throw new Error(`Unsupported OAuth system: ${system}`);
+  }
+  if (!provider.clientId || !provider.clientSecret) {
+    throw new Error(`${system} client credentials not configured`);
+  }
+
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  let body: string;
+
+  if (provider.tokenRequest === 'basic-json') {
+    headers.Authorization = `Basic ${Buffer.from(`${provider.clientId}:${provider.clientSecret}`).toString('base64')}`;
+    headers['Content-Type'] = 'application/json';
+    body = JSON.stringify(fields);
+  } else {
+    const credentials = { client_id: provider.clientId, client_secret: provider.clientSecret };
+    if (provider.tokenRequest === 'json') {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify({ ...fields, ...credentials });
+    } else {
+      headers['Content-Type'] = 'application/x-www-form-urlencoded';
+      body = new URLSearchParams({ ...fields, ...credentials }).toString();
+    }
+  }
+
+  const response = await fetch(provider.tokenUrl, { method: 'POST', headers, body });
+  const data = await response.json().catch(() => ({}));
+
+  // Slack reports failures with HTTP 200 and ok: false
+  if (!response.ok || data.ok === false || !data.access_token) {
+    console.error(`${system} ${action} error:`, data.error || response.status);
+    const message = `Failed to ${action} for ${system}`;
+    throw (response.status >= 400 && response.status < 500) || data.ok === false
+      ? new OAuthGrantRejectedError(message)
+      : new Error(message);
+  }
+
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token || null,
+    expiresAt: data.expires_in ? new Date(Date.now() + data.expires_in * 1000) : null,
+    scope: data.scope || null,
+    raw: data,
+  };
+}
+
+/**
+ * Exchange an authorization code for tokens at the provider's token endpoint.
+ */
+export async function exchangeAuthorizationCode(system: string, code: string, redirectUri: string, codeVerifier?: string): Promise<OAuthTokens> {
+  const fields: Record<string, string> = {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+  };
+  if (codeVerifier) fields.code_verifier = codeVerifier;
+
+  return requestTokens(system, fields, 'exchange authorization code');
+}
+
+/**
+ * Trade a refresh token for a new access token. Providers that rotate refresh
+ * tokens return a new one, which must replace the old.
+ */
+export async function refreshAccessToken(system: string, refreshToken: string): Promise<OAuthTokens> {
+  return requestTokens(system, { grant_type: 'refresh_token', refresh_token: refreshToken }, 'refresh access token');
+}
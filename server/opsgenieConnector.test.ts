@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OpsgenieConnector } from './opsgenieConnector';
+import { makeIncident, readFixture, withFakeConnector, type FakeServer, type RecordedRequest } from './testHelpers';
+
+const ALERT_ID = '70413a06-38d6-4c85-92b8-5ebc900d42e2';
+
+const opsgenieRoutes = {
+  'GET /v2/alerts': (request: RecordedRequest, baseUrl: string) =>
+    readFixture('opsgenie-alerts.json', { baseUrl })[request.url.includes('offset=1') ? 1 : 0],
+  [`GET /v2/alerts/${ALERT_ID}`]: () => readFixture('opsgenie-alert-closed.json'),
+  [`GET /v2/alerts/${ALERT_ID}/notes`]: () => readFixture('opsgenie-notes.json'),
+};
+
+function withOpsgenie(run: (connector: OpsgenieConnector, server: FakeServer) => Promise<void>) {
+  return withFakeConnector(
+    opsgenieRoutes,
+    { id: 4, type: 'opsgenie', apiKey: 'genie-test', metadata: { query: 'priority:(P1 OR P4)' } },
+    dataSource => new OpsgenieConnector({ dataSource }),
+    run,
+  );
+}
+
+test('open alerts matching the query are listed through paging.next', async () => {
+  await withOpsgenie(async (connector, { requests }) => {
+    const incidents = await connector.fetchIncidents();
+
+    assert.deepEqual(incidents.map(incident => [incident.externalId, incident.status, incident.severity]), [
+      [ALERT_ID, 'identified', 'critical'],
+      ['1b1b8a5e-6c31-4a1c-a1d6-2f7c3e1d9e44', 'investigating', 'low'],
+    ]);
+    assert.equal(requests.length, 2);
+    assert.equal(
+      new URL(requests[0].url, 'http://x').searchParams.get('query'),
+      'status:open AND (priority:(P1 OR P4))',
+    );
+    assert.equal(requests[0].headers.authorization, 'GenieKey genie-test');
+    assert.equal(incidents[0].systemName, 'Datadog');
+    assert.deepEqual(incidents[0].tags, ['opsgenie', 'P1', 'checkout']);
+  });
+});
+
+test('a closed alert resolves at its close time', async () => {
+  await withOpsgenie(async connector => {
+    const incident = await connector.fetchIncident(ALERT_ID);
+
+    assert.equal(incident?.status, 'resolved');
+    assert.equal(incident?.resolvedAt?.toISOString(), '2024-05-01T10:30:00.000Z');
+    assert.equal(incident?.description, 'p95 checkout latency crossed 2s for 5 minutes');
+  });
+});
+
+test('the timeline holds the acknowledgement, notes and close in order', async () => {
+  await withOpsgenie(async connector => {
+    const closed = await connector.fetchIncident(ALERT_ID);
+    const stored = makeIncident({ id: 5, externalId: ALERT_ID, startedAt: closed!.startedAt, metadata: closed!.metadata });
+    const updates = await connector.fetchIncidentUpdates(stored);
+
+    assert.deepEqual(updates.map(update => [update.externalId, update.updateType, update.previousStatus, update.newStatus]), [
+      ['acknowledged', 'status_change', 'investigating', 'identified'],
+      ['note:1714557960000', 'new_update', null, null],
+      ['closed', 'resolved', 'identified', 'resolved'],
+    ]);
+    assert.equal(updates[0].timestamp?.toISOString(), '2024-05-01T10:05:00.000Z');
+    assert.equal(updates[0].message, 'Acknowledged by earline@example.com');
+    assert.equal(updates[1].message, 'Rolling back the 10:00 deploy');
+  });
+});
@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import { BaseConnector } from './connectors';
+import { registerConnector } from './connectorRegistry';
+import type { Incident, InsertIncident, InsertIncidentUpdate, InsertServiceComponent } from '@shared/schema';
+
+/**
+ * Opsgenie alerts through the Alert API v2. Syncs list the open alerts that
+ * match the configured query; closed ones drop out of that listing and are
+ * confirmed by reconciliation. Timelines hold the acknowledgement and close
+ * from the alert's report, plus its notes.
+ *
+ * Each alert becomes one incident here, rather than reading Opsgenie's own
+ * incidents through the Incident API:
+ *  - acknowledgement only exists on alerts; an Opsgenie incident goes
+ *    straight from open to resolved, so on-call acknowledgements would be lost
+ *  - the Incident API is limited to the Standard and Enterprise plans, while
+ *    every plan has the Alert API
+ * Narrow the query (e.g. `priority:(P1 OR P2)`) to sync only the alerts that
+ * warrant an incident.
+ */
+
+const OPSGENIE_PAGE_SIZE = 100;
+const OPSGENIE_MAX_PAGES = 50;
+
+const PRIORITY_MAP: Record<string, string> = {
+  P1: 'critical',
+  P2: 'high',
+  P3: 'medium',
+  P4: 'low',
+  P5: 'low',
+};
+
+// Opsgenie reports acknowledgement and close as milliseconds after creation
+interface AlertReport {
+  ackTime?: number;
+  closeTime?: number;
+  acknowledgedBy?: string;
+  closedBy?: string;
+}
+
+const reportTime = (createdAt: string | Date, offset: number) => new Date(new Date(createdAt).getTime() + offset);
+
+export class OpsgenieConnector extends BaseConnector {
+  private get headers(): Record<string, string> {
+    return { 'Authorization': `GenieKey ${this.config.dataSource.apiKey}` };
+  }
+
+  // Follow `paging.next`, which Opsgenie returns as a complete URL
+  private async list(path: string): Promise<any[]> {
+    const items: any[] = [];
+    let url: string | undefined = `${this.config.dataSource.baseUrl}${path}`;
+
+    for (let page = 0; url && page < OPSGENIE_MAX_PAGES; page++) {
+      const data: any = await this.makeRequest(url, this.headers);
+      items.push(...(data.data || []));
+      url = data.paging?.next;
+
+      if (url && page === OPSGENIE_MAX_PAGES - 1) {
+        console.warn(`Opsgenie listing ${path} for ${this.config.dataSource.name} stopped after ${items.length} items`);
+      }
+    }
+    return items;
+  }
+
+  private buildQuery(): string {
+    const configured = (this.config.dataSource.metadata as Record<string, unknown> | null)?.query;
+    return typeof configured === 'string' && configured.trim()
+      ? `status:open AND (${configured.trim()})`
+      : 'status:open';
+  }
+
+  async fetchIncidents(): Promise<InsertIncident[]> {
+    const alerts = await this.list(
+      `/v2/alerts?query=${encodeURIComponent(this.buildQuery())}&limit=${OPSGENIE_PAGE_SIZE}&sort=createdAt&order=asc`,
+    );
+    return alerts.map(alert => this.mapAlert(alert));
+  }
+
+  async fetchIncident(externalId: string): Promise<InsertIncident | null> {
+    try {
+      const data = await this.makeRequest(
+        `${this.config.dataSource.baseUrl}/v2/alerts/${encodeURIComponent(externalId)}?identifierType=id`,
+        this.headers,
+      );
+      return this.mapAlert(data.data);
+    } catch (error) {
+      if (this.isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async fetchComponents(): Promise<InsertServiceComponent[]> {
+    return [];
+  }
+
+  async fetchIncidentUpdates(incident: Incident): Promise<InsertIncidentUpdate[]> {
+    const metadata = (incident.metadata || {}) as { report?: AlertReport };
+    const report = metadata.report || {};
+    const createdAt = incident.startedAt;
+    const notes = await this.list(
+      `/v2/alerts/${encodeURIComponent(incident.externalId)}/notes?identifierType=id&order=asc&limit=${OPSGENIE_PAGE_SIZE}`,
+    );
+
+    const updates: InsertIncidentUpdate[] = notes.map(note => ({
+      incidentId: incident.id,
+      externalId: `note:${note.offset}`,
+      updateType: 'new_update',
+      previousStatus: null,
+      newStatus: null,
+      message: note.note,
+      timestamp: new Date(note.createdAt),
+      metadata: { source: 'opsgenie', type: 'note', author: note.owner },
+    }));
+
+    if (createdAt && report.ackTime !== undefined) {
+      updates.push({
+        incidentId: incident.id,
+        externalId: 'acknowledged',
+        updateType: 'status_change',
+        previousStatus: 'investigating',
+        newStatus: 'identified',
+        message: report.acknowledgedBy ? `Acknowledged by ${report.acknowledgedBy}` : 'Acknowledged',
+        timestamp: reportTime(createdAt, report.ackTime),
+        metadata: { source: 'opsgenie', type: 'acknowledge', author: report.acknowledgedBy },
+      });
+    }
+    if (createdAt && report.closeTime !== undefined) {
+      updates.push({
+        incidentId: incident.id,
+        externalId: 'closed',
+        updateType: 'resolved',
+        previousStatus: report.ackTime !== undefined ? 'identified' : 'investigating',
+        newStatus: 'resolved',
+        message: report.closedBy ? `Closed by ${report.closedBy}` : 'Closed',
+        timestamp: reportTime(createdAt, report.closeTime),
+        metadata: { source: 'opsgenie', type: 'close', author: report.closedBy },
+      });
+    }
+
+    return updates.sort((a, b) => new Date(a.timestamp!).getTime() - new Date(b.timestamp!).getTime());
+  }
+
+  private mapAlert(alert: any): InsertIncident {
+    const closed = alert.status === 'closed';
+    const report: AlertReport = alert.report || {};
+    const severity = PRIORITY_MAP[alert.priority] || 'medium';
+
+    return {
+      externalId: alert.id,
+      dataSourceId: this.config.dataSource.id,
+      systemName: alert.source || 'Opsgenie',
+      title: alert.message,
+      description: alert.description || '',
+      status: closed ? 'resolved' : alert.acknowledged ? 'identified' : 'investigating',
+      severity,
+      impact: severity === 'critical' ? 'major_outage' : severity === 'high' ? 'partial_outage' : 'degraded_performance',
+      startedAt: new Date(alert.createdAt),
+      resolvedAt: closed
+        ? (report.closeTime !== undefined ? reportTime(alert.createdAt, report.closeTime) : new Date(alert.updatedAt))
+        : null,
+      updatedAt: new Date(alert.updatedAt),
+      externalUrl: null,
+      affectedServices: [],
+      tags: ['opsgenie', alert.priority, ...(alert.tags || [])].filter(Boolean),
+      metadata: {
+        source: 'opsgenie',
+        tinyId: alert.tinyId,
+        alias: alert.alias,
+        priority: alert.priority,
+        owner: alert.owner || null,
+        count: alert.count,
+        snoozed: !!alert.snoozed,
+        report,
+      },
+    };
+  }
+}
+
+registerConnector({
+  type: 'opsgenie',
+  name: 'Opsgenie',
+  description: 'Open Opsgenie alerts, each synced as an incident, with their acknowledgements and notes',
+  capabilities: ['incidents', 'updates'],
+  configSchema: z.object({
+    baseUrl: z.string().url().default('https://api.opsgenie.com').describe('API URL'),
+    apiKey: z.string().min(1).describe('API key'),
+    metadata: z.object({
+      query: z.string().optional().describe('Alert search query'),
+    }).passthrough().optional(),
+  }),
+  create: config => new OpsgenieConnector(config),
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PagerDutyConnector } from './pagerdutyConnector';
+import { makeIncident, readFixture, withFakeConnector, type FakeServer, type RecordedRequest } from './testHelpers';
+
+const incidentPages = readFixture('pagerduty-incidents.json');
+
+const pagerDutyRoutes = {
+  'GET /incidents': (request: RecordedRequest) => incidentPages[new URL(request.url, 'http://x').searchParams.get('offset') === '0' ? 0 : 1],
+  'GET /incidents/PT4KHLK': () => ({ incident: { ...incidentPages[0].incidents[0], status: 'resolved', resolved_at: '2024-05-01T10:30:00Z' } }),
+  'GET /incidents/PT4KHLK/log_entries': () => readFixture('pagerduty-log-entries.json'),
+  'GET /incidents/PT4KHLK/notes': () => readFixture('pagerduty-notes.json'),
+};
+
+function withPagerDuty(run: (connector: PagerDutyConnector, server: FakeServer) => Promise<void>) {
+  return withFakeConnector(
+    pagerDutyRoutes,
+    { id: 3, type: 'pagerduty', apiKey: 'u+test', metadata: { serviceIds: 'PIJ90N7, PSRCH01' } },
+    dataSource => new PagerDutyConnector({ dataSource }),
+    run,
+  );
+}
+
+test('open incidents are listed page by page with priority and urgency mapped to severity', async () => {
+  await withPagerDuty(async (connector, { requests }) => {
+    const incidents = await connector.fetchIncidents();
+
+    assert.deepEqual(incidents.map(incident => [incident.externalId, incident.status, incident.severity]), [
+      ['PT4KHLK', 'identified', 'critical'],
+      ['Q1R2S3T', 'investigating', 'low'],
+    ]);
+    assert.equal(requests.length, 2);
+    assert.match(requests[0].url, /statuses\[\]=triggered&statuses\[\]=acknowledged/);
+    assert.match(requests[0].url, /service_ids\[\]=PIJ90N7&service_ids\[\]=PSRCH01/);
+    assert.match(requests[1].url, /offset=1/);
+    assert.equal(requests[0].headers.authorization, 'Token token=u+test');
+
+    const [checkout] = incidents;
+    assert.equal(checkout.systemName, 'Checkout');
+    assert.equal(checkout.description, '');
+    assert.equal(checkout.externalUrl, 'https://acme.pagerduty.com/incidents/PT4KHLK');
+    assert.deepEqual((checkout.metadata as Record<string, unknown>).acknowledgedBy, ['Earline Greenholt']);
+  });
+});
+
+test('a resolved incident is read back as resolved', async () => {
+  await withPagerDuty(async connector => {
+    const incident = await connector.fetchIncident('PT4KHLK');
+
+    assert.equal(incident?.status, 'resolved');
+    assert.equal(incident?.resolvedAt?.toISOString(), '2024-05-01T10:30:00.000Z');
+    assert.equal(await connector.fetchIncident('missing'), null);
+  });
+});
+
+test('the timeline holds acknowledgements and each note once', async () => {
+  await withPagerDuty(async connector => {
+    const updates = await connector.fetchIncidentUpdates(makeIncident({ id: 9, externalId: 'PT4KHLK' }));
+
+    assert.deepEqual(updates.map(update => [update.externalId, update.updateType, update.previousStatus, update.newStatus]), [
+      ['R4BX5R0U0NSD7E2DSBDO5PMJRW', 'status_change', null, 'investigating'],
+      ['R3WLXYU4KNHDHJ1FTC6MBDJZH8', 'status_change', 'investigating', 'identified'],
+      ['note:PWL7QXS', 'new_update', null, null],
+      ['R2DC7QJZ6IGUBW0HUOVXY0K9TV', 'new_update', null, null],
+    ]);
+
+    const note = updates.find(update => update.externalId === 'note:PWL7QXS')!;
+    assert.equal(note.message, 'Rolling back the 10:00 deploy');
+    assert.equal((note.metadata as Record<string, unknown>).author, 'Earline Greenholt');
+    assert.equal(updates.filter(update => update.message?.includes('Rolling back')).length, 1);
+  });
+});
@@ -0,0 +1,199 @@
+import { z } from 'zod';
+import { BaseConnector } from './connectors';
+import { registerConnector } from './connectorRegistry';
+import type { Incident, InsertIncident, InsertIncidentUpdate, InsertServiceComponent } from '@shared/schema';
+
+/**
+ * PagerDuty incidents through the REST API v2. Syncs list the open
+ * (triggered and acknowledged) incidents; resolved ones drop out of that
+ * listing and are confirmed by reconciliation. Timelines combine the
+ * incident's overview log entries with its notes.
+ */
+
+const PAGERDUTY_PAGE_SIZE = 100;
+const PAGERDUTY_MAX_PAGES = 50;
+
+const STATUS_MAP: Record<string, string> = {
+  triggered: 'investigating',
+  acknowledged: 'identified',
+  resolved: 'resolved',
+};
+
+// Default PagerDuty priorities; incidents without one fall back to urgency
+const PRIORITY_MAP: Record<string, string> = {
+  P1: 'critical',
+  P2: 'high',
+  P3: 'medium',
+  P4: 'low',
+  P5: 'low',
+};
+
+const URGENCY_MAP: Record<string, string> = {
+  high: 'high',
+  low: 'low',
+};
+
+// GET /incidents/{id}/notes
+interface NotesResponse {
+  notes?: {
+    id: string;
+    content: string;
+    created_at: string;
+    user?: { summary?: string } | null;
+  }[];
+}
+
+// Log entries that move an incident between states
+const LOG_ENTRY_STATUS: Record<string, string> = {
+  trigger_log_entry: 'investigating',
+  acknowledge_log_entry: 'identified',
+  unacknowledge_log_entry: 'investigating',
+  resolve_log_entry: 'resolved',
+};
+
+export class PagerDutyConnector extends BaseConnector {
+  private request(path: string) {
+    return this.makeRequest(`${this.config.dataSource.baseUrl}${path}`, {
+      'Authorization': `Token token=${this.config.dataSource.apiKey}`,
+      'Accept': 'application/vnd.pagerduty+json;version=2',
+    });
+  }
+
+  // Follow PagerDuty's offset pagination until `more` is false
+  private async list(path: string, key: string): Promise<any[]> {
+    const separator = path.includes('?') ? '&' : '?';
+    const items: any[] = [];
+
+    for (let page = 0; page < PAGERDUTY_MAX_PAGES; page++) {
+      const data = await this.request(`${path}${separator}limit=${PAGERDUTY_PAGE_SIZE}&offset=${items.length}`);
+      const pageItems: any[] = data[key] || [];
+      items.push(...pageItems);
+
+      if (!data.more || pageItems.length === 0) break;
+      if (page === PAGERDUTY_MAX_PAGES - 1) {
+        console.warn(`PagerDuty listing ${path} for ${this.config.dataSource.name} stopped after ${items.length} ${key}`);
+      }
+    }
+    return items;
+  }
+
+  async fetchIncidents(): Promise<InsertIncident[]> {
+    const serviceIds = this.serviceIds().map(id => `&service_ids[]=${encodeURIComponent(id)}`).join('');
+    const incidents = await this.list(
+      `/incidents?statuses[]=triggered&statuses[]=acknowledged&date_range=all&time_zone=UTC${serviceIds}`,
+      'incidents',
+    );
+    return incidents.map(incident => this.mapIncident(incident));
+  }
+
+  async fetchIncident(externalId: string): Promise<InsertIncident | null> {
+    try {
+      const data = await this.request(`/incidents/${encodeURIComponent(externalId)}`);
+      return this.mapIncident(data.incident);
+    } catch (error) {
+      if (this.isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async fetchComponents(): Promise<InsertServiceComponent[]> {
+    return [];
+  }
+
+  async fetchIncidentUpdates(incident: Incident): Promise<InsertIncidentUpdate[]> {
+    const id = encodeURIComponent(incident.externalId);
+    const [logEntries, notes] = await Promise.all([
+      this.list(`/incidents/${id}/log_entries?is_overview=true&time_zone=UTC`, 'log_entries'),
+      // Notes are not paginated
+      this.request(`/incidents/${id}/notes`).then((data: NotesResponse) => data.notes || []),
+    ]);
+
+    const entries = [
+      // Every note is also logged as an annotation, which would list it twice
+      ...logEntries
+        .filter(entry => entry.type !== 'annotate_log_entry')
+        .map(entry => ({ kind: 'log' as const, at: entry.created_at, entry })),
+      ...notes.map(note => ({ kind: 'note' as const, at: note.created_at, entry: note })),
+    ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+    // Oldest first, so each entry knows the status it replaced
+    let previousStatus: string | null = null;
+    return entries.map(({ kind, entry }) => {
+      const newStatus = kind === 'log' ? LOG_ENTRY_STATUS[entry.type] ?? null : null;
+      const update: InsertIncidentUpdate = {
+        incidentId: incident.id,
+        externalId: kind === 'note' ? `note:${entry.id}` : entry.id,
+        updateType: !newStatus || newStatus === previousStatus
+          ? 'new_update'
+          : newStatus === 'resolved' ? 'resolved' : 'status_change',
+        previousStatus: newStatus ? previousStatus : null,
+        newStatus,
+        message: kind === 'note' ? entry.content : entry.summary,
+        timestamp: new Date(entry.created_at),
+        metadata: {
+          source: 'pagerduty',
+          type: kind === 'note' ? 'note' : entry.type,
+          author: kind === 'note' ? entry.user?.summary : entry.agent?.summary,
+        },
+      };
+      if (newStatus) previousStatus = newStatus;
+      return update;
+    });
+  }
+
+  private serviceIds(): string[] {
+    const configured = (this.config.dataSource.metadata as Record<string, unknown> | null)?.serviceIds;
+    return typeof configured === 'string'
+      ? configured.split(',').map(id => id.trim()).filter(Boolean)
+      : [];
+  }
+
+  private mapIncident(incident: any): InsertIncident {
+    const status = STATUS_MAP[incident.status] || 'investigating';
+    const priority: string | undefined = incident.priority?.name;
+    const severity = (priority && PRIORITY_MAP[priority]) || URGENCY_MAP[incident.urgency] || 'medium';
+
+    return {
+      externalId: incident.id,
+      dataSourceId: this.config.dataSource.id,
+      systemName: incident.service?.summary || 'PagerDuty',
+      title: incident.title,
+      description: incident.description && incident.description !== incident.title ? incident.description : '',
+      status,
+      severity,
+      impact: severity === 'critical' ? 'major_outage' : severity === 'high' ? 'partial_outage' : 'degraded_performance',
+      startedAt: new Date(incident.created_at),
+      resolvedAt: status === 'resolved'
+        ? new Date(incident.resolved_at || incident.last_status_change_at || incident.updated_at)
+        : null,
+      updatedAt: new Date(incident.updated_at || incident.last_status_change_at || incident.created_at),
+      externalUrl: incident.html_url || null,
+      affectedServices: incident.service?.summary ? [incident.service.summary] : [],
+      tags: ['pagerduty', incident.urgency, priority].filter(Boolean),
+      metadata: {
+        source: 'pagerduty',
+        incidentNumber: incident.incident_number,
+        urgency: incident.urgency,
+        priority: priority ?? null,
+        escalationPolicy: incident.escalation_policy?.summary,
+        assignees: (incident.assignments || []).map((assignment: any) => assignment.assignee?.summary),
+        acknowledgedBy: (incident.acknowledgements || []).map((ack: any) => ack.acknowledger?.summary),
+      },
+    };
+  }
+}
+
+registerConnector({
+  type: 'pagerduty',
+  name: 'PagerDuty',
+  description: 'Open PagerDuty incidents with their acknowledgements and notes',
+  capabilities: ['incidents', 'updates'],
+  configSchema: z.object({
+    baseUrl: z.string().url().default('https://api.pagerduty.com').describe('API URL'),
+    apiKey: z.string().min(1).describe('REST API key'),
+    metadata: z.object({
+      serviceIds: z.string().optional().describe('Service IDs (comma separated)'),
+    }).passthrough().optional(),
+  }),
+  create: config => new PagerDutyConnector(config),
+});
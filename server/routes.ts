@@ -1,7 +1,8 @@
-import type { Express } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { storage } from "./storage";
+import axios from "axios";
+import { storage, type AuditEventFilters } from "./storage";
 import {
   insertSystemSchema,
   insertSolutionSchema,
@@ -12,15 +13,550 @@ import {
   insertDataSourceSchema,
   insertIncidentSchema,
 } from "@shared/schema";
+import { syncScheduler, getSyncState, type DataSourceCircuitEvent } from './scheduler';
 import { syncService } from './connectors';
-import { syncScheduler } from './scheduler';
+import { createConnector, describeConnectors, hasCapability, parseConnectorConfig } from './connectorRegistry';
+import './connectorModules';
+import { generateWebhookSecret, verifyWebhookSignature, webhookUrlToken } from './webhooks';
+import { ServiceNowConnector, serviceNowTicketSchema, serviceNowTicketUpdateSchema, type ServiceNowTicketStatus } from './servicenowConnector';
+import { ZendeskConnector, zendeskCommentSchema, zendeskTicketSchema, zendeskTicketUpdateSchema, type ZendeskTicketStatus } from './zendeskConnector';
+import { z, ZodError } from 'zod';
+import { withAccessToken, AccessTokenRejectedError, ReauthRequiredError, type StoredOAuthConfig } from './tokenManager';
 import { googleMeetService } from './googleMeetService';
-import { insertGoogleMeetingSchema, insertUserSchema } from '@shared/schema';
+import { insertGoogleMeetingSchema, insertUserSchema, securitySettingsSchema, type DataSource, type InsertDataSource, type Incident, type IncidentTransitionEvent, type SupportTicket, type System, type User, type UpsertUser } from '@shared/schema';
+import { ROLES, isRole, isPermission, hasPermission, type Permission } from '@shared/permissions';
 import bcrypt from 'bcryptjs';
+import { createHash, randomBytes } from 'crypto';
 import { emailService } from './emailService';
 import { slackService } from './slackService';
+import {
+  setupAuth,
+  isAuthenticated,
+  requirePermission,
+  requireSessionAuth,
+  establishSession,
+  beginMfaChallenge,
+  getPendingMfaUserId,
+  destroySession,
+  getSessionUserId,
+  toPublicUser,
+  toSessionUser,
+  getEffectiveRole,
+  getSecuritySettings,
+} from './auth';
+import { redactCredentials, stripRedactedCredentials } from './encryption';
+import { authThrottle, recordAuthFailure, clearAuthFailures } from './authThrottle';
+import { recordAuditEvent, diffRecords, auditEventsToCsv, startAuditRetention, stopAuditRetention } from './audit';
+import { API_TOKEN_MAX_LIFETIME_DAYS, generateApiToken, toPublicApiToken } from './apiTokens';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri, generateRecoveryCodes, hashRecoveryCode } from './mfa';
+import {
+  getOAuthProvider,
+  getOAuthRedirectUri,
+  issueOAuthState,
+  consumeOAuthState,
+  createAuthorizationUrl,
+  exchangeAuthorizationCode,
+  type OAuthTokens,
+} from './oauth';
+
+const AUDIT_EXPORT_LIMIT = 10000;
+
+const INVITATION_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Only the hash is stored; the raw token exists solely in the emailed link
+function createInvitation() {
+  const token = randomBytes(32).toString('hex');
+  return {
+    token,
+    tokenHash: hashInvitationToken(token),
+    expires: new Date(Date.now() + INVITATION_TTL),
+  };
+}
+
+async function sendInvitation(req: Request, user: User, token: string): Promise<boolean> {
+  const host = process.env.REPLIT_DOMAINS || req.get('host');
+  const inviter = req.currentUser;
+  const inviterName = `${inviter?.firstName || ''} ${inviter?.lastName || ''}`.trim() || inviter?.email || 'An administrator';
+
+  return emailService.sendInvitationEmail({
+    to: user.email!,
+    firstName: user.firstName || '',
+    inviterName,
+    inviteUrl: `https://${host}/accept-invite?token=${token}`,
+  });
+}
+
+const EMAIL_VERIFICATION_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const EMAIL_VERIFICATION_RESEND_INTERVAL = 60 * 1000; // 1 minute
+const EMAIL_VERIFICATION_MAX_ATTEMPTS = 5;
+
+// Bound to the user id so equal codes issued to different users hash differently
+function hashEmailVerificationCode(userId: string, code: string): string {
+  return createHash('sha256').update(`${userId}:${code}`).digest('hex');
+}
+
+// Issue a fresh code, replacing any earlier one, and email it
+async function sendEmailVerification(user: User): Promise<boolean> {
+  const verificationCode = emailService.generateVerificationCode();
+  await storage.updateUser(user.id, {
+    emailVerificationCode: hashEmailVerificationCode(user.id, verificationCode),
+    emailVerificationExpires: new Date(Date.now() + EMAIL_VERIFICATION_TTL),
+    emailVerificationSentAt: new Date(),
+    emailVerificationAttempts: 0,
+  });
+
+  return emailService.sendEmailVerificationEmail({
+    to: user.email!,
+    firstName: user.firstName || '',
+    verificationCode,
+  });
+}
+
+/**
+ * Accept either a current TOTP code or an unused recovery code. Returns the
+ * user fields to persist so the code cannot be used again, or null.
+ */
+function consumeMfaCode(user: User, code: string): Partial<UpsertUser> | null {
+  if (!user.mfaEnabled || !user.mfaSecret || !code) return null;
+
+  const step = verifyTotp(user.mfaSecret, code, user.mfaLastUsedStep);
+  if (step !== null) {
+    return { mfaLastUsedStep: step };
+  }
+
+  const recoveryCodes = user.mfaRecoveryCodes || [];
+  const codeHash = hashRecoveryCode(code);
+  if (recoveryCodes.includes(codeHash)) {
+    return { mfaRecoveryCodes: recoveryCodes.filter(hash => hash !== codeHash) };
+  }
+  return null;
+}
+
+// Count a wrong reset code; once the account locks out the code itself is burned
+async function rejectResetCode(req: Request, email: string, user?: User) {
+  const lockedOut = await recordAuthFailure(req, 'password-reset-code', email);
+  if (lockedOut && user) {
+    await storage.updateUser(user.id, { passwordResetCode: null, passwordResetExpires: null });
+  }
+}
+
+/**
+ * Validate a token creation request against the permissions the token's
+ * user actually holds, so a token can never grant more than its owner has.
+ */
+function parseApiTokenRequest(body: any, owner: User): { name: string; scopes: Permission[]; expiresAt: Date | null } | { error: string } {
+  const { name, scopes, expiresInDays } = body || {};
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: "Token name is required" };
+  }
+
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isPermission)) {
+    return { error: "Select at least one valid scope" };
+  }
+
+  const role = getEffectiveRole(owner);
+  const ungranted = scopes.filter(scope => !hasPermission(role, scope));
+  if (ungranted.length > 0) {
+    return { error: `Scopes exceed the account's role: ${ungranted.join(', ')}` };
+  }
+
+  let expiresAt: Date | null = null;
+  if (expiresInDays !== undefined && expiresInDays !== null) {
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > API_TOKEN_MAX_LIFETIME_DAYS) {
+      return { error: `Expiry must be between 1 and ${API_TOKEN_MAX_LIFETIME_DAYS} days` };
+    }
+    expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+  }
+
+  return { name: name.trim(), scopes: Array.from(new Set(scopes)), expiresAt };
+}
+
+// System config can carry connection secrets, so the audit trail only notes whether it is set
+function toAuditableSystem(system: System) {
+  return { ...system, config: system.config ? '[redacted]' : null };
+}
+
+const SYSTEM_DISPLAY_NAMES: Record<string, string> = {
+  slack: 'Slack',
+  zendesk: 'Zendesk',
+  notion: 'Notion',
+  linear: 'Linear',
+  jira: 'Jira',
+  servicenow: 'ServiceNow',
+};
+
+function getSystemDisplayName(system: string): string {
+  return SYSTEM_DISPLAY_NAMES[system] || system;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// OAuth callbacks land in a popup window that reports the outcome and closes itself
+function oauthResultPage(title: string, message: string): string {
+  return `
+    <html>
+      <body>
+        <h2>${escapeHtml(title)}</h2>
+        <p>${escapeHtml(message)}</p>
+        <p>You can now close this window and return to the application.</p>
+        <script>
+          setTimeout(() => window.close(), 3000);
+        </script>
+      </body>
+    </html>
+  `;
+}
+
+// The Atlassian site details stored alongside a Jira source's tokens
+function jiraSiteOf(dataSource: DataSource): StoredOAuthConfig {
+  return (dataSource.oauthConfig as StoredOAuthConfig | null) ?? {};
+}
+
+// Call the Jira REST API as the connected site, refreshing the token as needed
+function fetchJira(dataSource: DataSource, path: string, init: RequestInit = {}) {
+  return withAccessToken(dataSource.id, async (accessToken, current) => {
+    const response = await fetch(`${jiraSiteOf(current).site_url}${path}`, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Accept': 'application/json',
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      },
+    });
+    if (response.status === 401) {
+      throw new AccessTokenRejectedError();
+    }
+    return response;
+  });
+}
+
+// Each accessible Jira site gets its own data source, matched on the Atlassian
+// site id. All of them share the one grant the user just approved.
+async function connectJiraSites(tokens: OAuthTokens): Promise<string[]> {
+  // Get user's accessible resources (Jira sites)
+  const resourceResponse = await fetch('https://api.atlassian.com/oauth/token/accessible-resources', {
+    headers: {
+      'Authorization': `Bearer ${tokens.accessToken}`,
+      'Accept': 'application/json',
+    },
+  });
+
+  const resources: Array<{ id: string; name: string; url: string }> = await resourceResponse.json();
+  
+  if (!resources || resources.length === 0) {
+    throw new Error('No accessible Jira resources found');
+  }
+
+  const existingJira = (await storage.getDataSources()).filter(ds => ds.type === 'jira');
+
+  for (const jiraSite of resources) {
+    const jiraConfig = {
+      access_token: tokens.accessToken,
+      refresh_token: tokens.refreshToken,
+      expires_at: tokens.expiresAt,
+      site_id: jiraSite.id,
+      site_name: jiraSite.name,
+      site_url: jiraSite.url,
+      scope: tokens.scope,
+    };
+
+    // Sources connected before sites were tracked have no site_id; match those on URL
+    const existing = existingJira.find(ds => jiraSiteOf(ds).site_id === jiraSite.id)
+      || existingJira.find(ds => !jiraSiteOf(ds).site_id && ds.baseUrl === jiraSite.url);
+
+    if (existing) {
+      await storage.updateDataSource(existing.id, {
+        baseUrl: jiraSite.url,
+        oauthConfig: jiraConfig,
+        needsReauth: false,
+        lastError: null,
+        isActive: true,
+        lastSyncAt: new Date(),
+      });
+    } else {
+      await storage.createDataSource({
+        name: `Jira - ${jiraSite.name}`,
+        type: 'jira',
+        baseUrl: jiraSite.url,
+        oauthConfig: jiraConfig,
+        syncInterval: 300, // 5 minutes
+        isActive: true,
+      });
+    }
+  }
+
+  return resources.map(site => site.name);
+}
+
+// One instance per connection, set by SERVICENOW_INSTANCE or ZENDESK_SUBDOMAIN like the provider's URLs
+async function connectInstance(system: 'servicenow' | 'zendesk', tokens: OAuthTokens): Promise<string> {
+  const instance = system === 'servicenow' ? process.env.SERVICENOW_INSTANCE : process.env.ZENDESK_SUBDOMAIN;
+  const instanceUrl = system === 'servicenow' ? `https://${instance}.service-now.com` : `https://${instance}.zendesk.com`;
+  const oauthConfig = {
+    access_token: tokens.accessToken,
+    refresh_token: tokens.refreshToken,
+    expires_at: tokens.expiresAt,
+    scope: tokens.scope,
+  };
+
+  const existing = (await storage.getDataSources()).find(ds => ds.type === system && ds.baseUrl === instanceUrl);
+  if (existing) {
+    await storage.updateDataSource(existing.id, {
+      oauthConfig,
+      needsReauth: false,
+      lastError: null,
+      isActive: true,
+    });
+  } else {
+    await storage.createDataSource({
+      name: `${getSystemDisplayName(system)} - ${instance}`,
+      type: system,
+      baseUrl: instanceUrl,
+      oauthConfig,
+      syncInterval: 300, // 5 minutes
+      isActive: true,
+    });
+  }
+
+  return instanceUrl;
+}
+
+/**
+ * Validate a new data source: its connector-specific fields against the
+ * connector's schema, which may fill in defaults, then the row as a whole.
+ */
+function parseDataSource(body: any):
+  | { success: true; data: InsertDataSource }
+  | { success: false; message: string; errors?: unknown } {
+  const config = parseConnectorConfig(body?.type, body ?? {});
+  if (!config.success) return config;
+
+  const parsed = insertDataSourceSchema.safeParse({ ...body, ...config.data });
+  if (!parsed.success) {
+    return { success: false, message: "Invalid data source", errors: parsed.error.errors };
+  }
+  return { success: true, data: parsed.data };
+}
+
+/**
+ * Resolve the Jira data source a request is about, from a `dataSourceId` or
+ * an Atlassian `siteId` in the query string or body. Responds with the error
+ * and resolves to undefined when there is no usable source.
+ */
+async function findJiraDataSource(req: Request, res: Response): Promise<DataSource | undefined> {
+  const dataSourceId = req.query.dataSourceId ?? req.body?.dataSourceId;
+  const siteId = req.query.siteId ?? req.body?.siteId;
+  if (!dataSourceId && !siteId) {
+    res.status(400).json({ message: 'dataSourceId or siteId is required' });
+    return undefined;
+  }
+
+  const jiraDataSource = (await storage.getDataSources()).find(ds => ds.type === 'jira' && (dataSourceId
+    ? ds.id === Number(dataSourceId)
+    : jiraSiteOf(ds).site_id === String(siteId)));
+
+  if (!jiraDataSource) {
+    res.status(404).json({ message: 'Jira site not found' });
+    return undefined;
+  }
+  if (!jiraDataSource.isActive || !jiraDataSource.oauthConfig) {
+    res.status(401).json({ message: 'Jira not connected or configured' });
+    return undefined;
+  }
+  return jiraDataSource;
+}
+
+/**
+ * Resolve the ServiceNow connector a request is about, from a `dataSourceId`
+ * in the query string or body, or the first active ServiceNow source when
+ * none is given. Responds with the error and resolves to undefined when there
+ * is no usable source.
+ */
+async function findServiceNowConnector(req: Request, res: Response): Promise<ServiceNowConnector | undefined> {
+  const dataSourceId = req.query.dataSourceId ?? req.body?.dataSourceId;
+  const dataSource = (await storage.getDataSources()).find(ds => ds.type === 'servicenow'
+    && (dataSourceId ? ds.id === Number(dataSourceId) : ds.isActive));
+
+  if (!dataSource) {
+    res.status(404).json({ message: dataSourceId ? 'ServiceNow data source not found' : 'ServiceNow is not connected' });
+    return undefined;
+  }
+  if (!dataSource.isActive) {
+    res.status(409).json({ message: `${dataSource.name} is paused` });
+    return undefined;
+  }
+  return createConnector(dataSource) as ServiceNowConnector;
+}
+
+function sendServiceNowError(res: Response, error: unknown, action: string) {
+  if (error instanceof ReauthRequiredError) {
+    return res.status(401).json({ message: 'ServiceNow authorization expired, reconnect ServiceNow' });
+  }
+  if (axios.isAxiosError(error) && error.response) {
+    // Pass on what the instance said, e.g. a rejected field or a missing role
+    return res.status(502).json({
+      message: `ServiceNow could not ${action}: HTTP ${error.response.status}`,
+      detail: error.response.data?.error?.message,
+    });
+  }
+  console.error(`Error trying to ${action} in ServiceNow:`, error);
+  res.status(500).json({ message: `Failed to ${action}` });
+}
+
+/**
+ * Resolve the Zendesk data source a request is about, from a `dataSourceId`
+ * in the query string or body, or the first active Zendesk source when none
+ * is given. Responds with the error and resolves to undefined when there is
+ * no usable source.
+ */
+async function findZendeskDataSource(req: Request, res: Response): Promise<DataSource | undefined> {
+  const dataSourceId = req.query.dataSourceId ?? req.body?.dataSourceId;
+  const dataSource = (await storage.getDataSources()).find(ds => ds.type === 'zendesk'
+    && (dataSourceId ? ds.id === Number(dataSourceId) : ds.isActive));
+
+  if (!dataSource) {
+    res.status(404).json({ message: dataSourceId ? 'Zendesk data source not found' : 'Zendesk is not connected' });
+    return undefined;
+  }
+  if (!dataSource.isActive) {
+    res.status(409).json({ message: `${dataSource.name} is paused` });
+    return undefined;
+  }
+  return dataSource;
+}
+
+/**
+ * Resolve a synced Zendesk ticket by its id in QueryLinker, with the
+ * connector of the source it came from. Responds with the error and resolves
+ * to undefined when the ticket or its source cannot be used.
+ */
+async function findZendeskTicket(req: Request, res: Response): Promise<{ ticket: SupportTicket; connector: ZendeskConnector } | undefined> {
+  const ticket = await storage.getSupportTicket(parseInt(req.params.id));
+  const dataSource = ticket && await storage.getDataSource(ticket.dataSourceId);
+
+  if (!ticket || dataSource?.type !== 'zendesk') {
+    res.status(404).json({ message: 'Ticket not found' });
+    return undefined;
+  }
+  if (!dataSource.isActive) {
+    res.status(409).json({ message: `${dataSource.name} is paused` });
+    return undefined;
+  }
+  return { ticket, connector: createConnector(dataSource) as ZendeskConnector };
+}
+
+// Tickets as the Zendesk panel shows them, with the incident each one is linked to
+async function withLinkedIncidents(tickets: SupportTicket[]) {
+  const incidentIds = Array.from(new Set(tickets.map(ticket => ticket.incidentId).filter((id): id is number => id !== null)));
+  const incidents = new Map((await Promise.all(incidentIds.map(id => storage.getIncident(id))))
+    .filter((incident): incident is Incident => !!incident)
+    .map(incident => [incident.id, incident] as const));
+
+  return tickets.map(ticket => {
+    const incident = ticket.incidentId !== null ? incidents.get(ticket.incidentId) : undefined;
+    return {
+      ...ticket,
+      incident: incident
+        ? { id: incident.id, title: incident.title, status: incident.status, severity: incident.severity, systemName: incident.systemName }
+        : null,
+    };
+  });
+}
+
+function sendZendeskError(res: Response, error: unknown, action: string) {
+  if (error instanceof ReauthRequiredError) {
+    return res.status(401).json({ message: 'Zendesk authorization expired, reconnect Zendesk' });
+  }
+  if (axios.isAxiosError(error) && error.response) {
+    // Pass on what Zendesk said, e.g. a ticket that is closed or a missing permission
+    const data = error.response.data;
+    return res.status(502).json({
+      message: `Zendesk could not ${action}: HTTP ${error.response.status}`,
+      detail: data?.description || data?.error?.message || data?.error,
+    });
+  }
+  console.error(`Error trying to ${action} in Zendesk:`, error);
+  res.status(500).json({ message: `Failed to ${action}` });
+}
+
+/**
+ * Finish an authorization-code flow whose state has already been verified:
+ * exchange the code and store the resulting credentials. Returns the name of
+ * the connected workspace or site.
+ */
+async function completeOAuthConnection(req: Request, system: string, code: string, codeVerifier?: string): Promise<string> {
+  const tokens = await exchangeAuthorizationCode(system, code, getOAuthRedirectUri(req, system), codeVerifier);
+
+  if (system === 'jira') {
+    const siteNames = await connectJiraSites(tokens);
+    await recordAuditEvent(req, { action: 'system.connect', targetType: 'system', targetId: system, metadata: { name: siteNames.join(', '), sites: siteNames } });
+    return siteNames.join(', ');
+  }
+
+  if (system === 'servicenow' || system === 'zendesk') {
+    const instanceUrl = await connectInstance(system, tokens);
+    await recordAuditEvent(req, { action: 'system.connect', targetType: 'system', targetId: system, metadata: { name: instanceUrl } });
+    return instanceUrl;
+  }
+
+  let connectedName = getSystemDisplayName(system);
+  if (system === 'slack') {
+    const workspaceInfo = {
+      teamId: tokens.raw.team?.id,
+      teamName: tokens.raw.team?.name,
+      accessToken: tokens.accessToken,
+      userId: tokens.raw.authed_user?.id,
+      scope: tokens.scope || '',
+    };
+    slackService.initializeWithToken(tokens.accessToken, workspaceInfo);
+    connectedName = workspaceInfo.teamName || connectedName;
+  } else if (system === 'notion') {
+    connectedName = tokens.raw.workspace_name || connectedName;
+  }
+
+  const systems = await storage.getSystems();
+  const systemRecord = systems.find(s => s.type === system)
+    || await storage.createSystem({ name: getSystemDisplayName(system), type: system, isActive: true });
+
+  // System configurations are encrypted by the storage layer
+  await storage.updateSystemConfiguration(systemRecord.id, {
+    oauthCredentials: {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: tokens.expiresAt,
+      scope: tokens.scope,
+      connectedName,
+    },
+  });
+  await storage.updateSystem(systemRecord.id, { 
+    isActive: true,
+    lastSyncAt: new Date()
+  });
+  await recordAuditEvent(req, {
+    action: 'system.connect',
+    targetType: 'system',
+    targetId: String(systemRecord.id),
+    metadata: { system, name: connectedName, scope: tokens.scope },
+  });
+
+  return connectedName;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Session middleware must be registered before any route that reads req.session
+  setupAuth(app);
 
   // Authentication routes
   app.post('/api/auth/register', async (req, res) => {
@@ -46,19 +582,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         password: hashedPassword,
         firstName: firstName || '',
         lastName: lastName || '',
-        role: 'user',
+        role: 'viewer',
         emailVerified: false,
         authProvider: 'email'
       };
       
       const user = await storage.createEmailUser(userData);
-      
-      // Don't return password in response
-      const { password: _, ...userResponse } = user;
+      const emailSent = await sendEmailVerification(user);
       
       res.status(201).json({ 
-        message: "User registered successfully", 
-        user: userResponse 
+        message: emailSent
+          ? "User registered successfully. Check your email for a verification code."
+          : "User registered successfully, but the verification email could not be sent",
+        user: toPublicUser(user),
+        emailVerificationRequired: true,
       });
     } catch (error) {
       console.error("Error registering user:", error);
@@ -66,7 +603,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/auth/login', async (req, res) => {
+  app.post('/api/auth/login', authThrottle('login'), async (req, res) => {
     try {
       const { email, password } = req.body;
       
@@ -77,24 +614,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get user by email
       const user = await storage.getUserByEmail(email);
       if (!user) {
+        await recordAuthFailure(req, 'login', email);
         return res.status(401).json({ message: "Invalid email or incorrect password" });
       }
 
       // Check password
       const isValidPassword = await bcrypt.compare(password, user.password || '');
       if (!isValidPassword) {
+        await recordAuthFailure(req, 'login', email);
         return res.status(401).json({ message: "Invalid email or incorrect password" });
       }
 
+      await clearAuthFailures('login', email);
+
+      if (user.isActive === false) {
+        return res.status(403).json({ message: "This account has been deactivated" });
+      }
+
+      // Password accounts can be held back until they prove they own the address
+      if (!user.emailVerified && user.authProvider === 'email') {
+        const settings = await getSecuritySettings();
+        if (settings.requireEmailVerification) {
+          return res.json({
+            message: "Please verify your email address before logging in",
+            emailVerificationRequired: true,
+            email: user.email,
+          });
+        }
+      }
+
+      // Enrolled users only get a session once their second factor checks out
+      if (user.mfaEnabled) {
+        await beginMfaChallenge(req, user.id);
+        return res.json({ message: "MFA verification required", mfaRequired: true });
+      }
+
       // Update last login
       await storage.updateUserLastLogin(user.id);
-      
-      // Don't return password in response
-      const { password: _, ...userResponse } = user;
+
+      // Issue the httpOnly session cookie
+      await establishSession(req, user.id);
+      await recordAuditEvent(req, { action: 'auth.login', targetType: 'user', targetId: user.id });
       
       res.json({ 
         message: "Login successful", 
-        user: userResponse 
+        user: await toSessionUser(user) 
       });
     } catch (error) {
       console.error("Error logging in user:", error);
@@ -102,8 +666,258 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Second login step for users with MFA enabled
+  app.post('/api/auth/mfa/verify', authThrottle('mfa', getPendingMfaUserId), async (req, res) => {
+    try {
+      const { code } = req.body;
+      const userId = getPendingMfaUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "MFA challenge expired. Please log in again." });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user || user.isActive === false) {
+        return res.status(401).json({ message: "MFA challenge expired. Please log in again." });
+      }
+
+      const updates = consumeMfaCode(user, String(code || ''));
+      if (!updates) {
+        await recordAuthFailure(req, 'mfa', user.id);
+        return res.status(401).json({ message: "Invalid verification code" });
+      }
+
+      await clearAuthFailures('mfa', user.id);
+      const updatedUser = await storage.updateUser(user.id, { ...updates, lastLoginAt: new Date() });
+      await establishSession(req, updatedUser.id);
+      await recordAuditEvent(req, {
+        action: 'auth.login',
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { mfa: true, recoveryCodeUsed: 'mfaRecoveryCodes' in updates },
+      });
+
+      res.json({
+        message: "Login successful",
+        user: await toSessionUser(updatedUser),
+        recoveryCodesRemaining: (updatedUser.mfaRecoveryCodes || []).length,
+      });
+    } catch (error) {
+      console.error("Error verifying MFA code:", error);
+      res.status(500).json({ message: "Failed to verify code" });
+    }
+  });
+
+  // Current session user
+  app.get('/api/auth/me', isAuthenticated, async (req, res) => {
+    res.json({ user: await toSessionUser(req.currentUser!) });
+  });
+
+  // Codes asked of a signed-in user count against the same lockout as the login challenge
+  const mfaThrottle = authThrottle('mfa', req => req.currentUser?.id);
+
+  // MFA enrollment. The secret only reaches the user record once a code generated from it verifies.
+  app.post('/api/auth/mfa/setup', isAuthenticated, requireSessionAuth, async (req, res) => {
+    try {
+      const user = req.currentUser!;
+      if (user.mfaEnabled) {
+        return res.status(400).json({ message: "MFA is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      req.session.pendingMfaSecret = secret;
+
+      res.json({ secret, otpauthUri: buildOtpauthUri(secret, user.email || user.id) });
+    } catch (error) {
+      console.error("Error starting MFA setup:", error);
+      res.status(500).json({ message: "Failed to start MFA setup" });
+    }
+  });
+
+  app.post('/api/auth/mfa/enable', isAuthenticated, requireSessionAuth, async (req, res) => {
+    try {
+      const { code } = req.body;
+      const secret = req.session.pendingMfaSecret;
+      if (!secret) {
+        return res.status(400).json({ message: "Start MFA setup first" });
+      }
+
+      const step = verifyTotp(secret, String(code || ''));
+      if (step === null) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      const recovery = generateRecoveryCodes();
+      const updatedUser = await storage.updateUser(req.currentUser!.id, {
+        mfaEnabled: true,
+        mfaSecret: secret,
+        mfaRecoveryCodes: recovery.hashes,
+        mfaLastUsedStep: step,
+      });
+      delete req.session.pendingMfaSecret;
+      await recordAuditEvent(req, { action: 'auth.mfa.enable', targetType: 'user', targetId: updatedUser.id });
+
+      res.json({
+        message: "MFA enabled",
+        recoveryCodes: recovery.codes,
+        user: await toSessionUser(updatedUser),
+      });
+    } catch (error) {
+      console.error("Error enabling MFA:", error);
+      res.status(500).json({ message: "Failed to enable MFA" });
+    }
+  });
+
+  app.post('/api/auth/mfa/disable', isAuthenticated, requireSessionAuth, mfaThrottle, async (req, res) => {
+    try {
+      const user = req.currentUser!;
+      if (!user.mfaEnabled) {
+        return res.status(400).json({ message: "MFA is not enabled" });
+      }
+
+      const settings = await getSecuritySettings();
+      if (settings.enableMFA) {
+        return res.status(400).json({ message: "MFA is required by your organization" });
+      }
+
+      if (!consumeMfaCode(user, String(req.body.code || ''))) {
+        await recordAuthFailure(req, 'mfa', user.id);
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      await clearAuthFailures('mfa', user.id);
+      const updatedUser = await storage.updateUser(user.id, {
+        mfaEnabled: false,
+        mfaSecret: null,
+        mfaRecoveryCodes: null,
+        mfaLastUsedStep: null,
+      });
+      await recordAuditEvent(req, { action: 'auth.mfa.disable', targetType: 'user', targetId: user.id });
+
+      res.json({ message: "MFA disabled", user: await toSessionUser(updatedUser) });
+    } catch (error) {
+      console.error("Error disabling MFA:", error);
+      res.status(500).json({ message: "Failed to disable MFA" });
+    }
+  });
+
+  app.post('/api/auth/mfa/recovery-codes', isAuthenticated, requireSessionAuth, mfaThrottle, async (req, res) => {
+    try {
+      const user = req.currentUser!;
+      const updates = consumeMfaCode(user, String(req.body.code || ''));
+      if (!updates) {
+        await recordAuthFailure(req, 'mfa', user.id);
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      await clearAuthFailures('mfa', user.id);
+      const recovery = generateRecoveryCodes();
+      await storage.updateUser(user.id, { ...updates, mfaRecoveryCodes: recovery.hashes });
+      await recordAuditEvent(req, { action: 'auth.mfa.recovery_codes_regenerate', targetType: 'user', targetId: user.id });
+
+      res.json({ message: "Recovery codes regenerated", recoveryCodes: recovery.codes });
+    } catch (error) {
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  app.post('/api/auth/logout', async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      if (userId) {
+        await recordAuditEvent(req, { action: 'auth.logout', targetType: 'user', targetId: userId });
+      }
+      await destroySession(req);
+      res.clearCookie('querylinker.sid');
+      res.json({ message: "Logged out successfully" });
+    } catch (error) {
+      console.error("Error logging out user:", error);
+      res.status(500).json({ message: "Failed to logout" });
+    }
+  });
+
+  // Confirm ownership of the registered email address
+  app.post('/api/auth/verify-email', async (req, res) => {
+    try {
+      const { email, code } = req.body;
+
+      if (!email || !code) {
+        return res.status(400).json({ message: "Email and verification code are required" });
+      }
+
+      const user = await storage.getUserByEmail(email);
+      if (!user || !user.emailVerificationCode) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      // Stored dates come back as strings from the file store, so compare timestamps
+      if (!user.emailVerificationExpires || new Date(user.emailVerificationExpires).getTime() < Date.now()) {
+        return res.status(400).json({ message: "Verification code has expired. Please request a new one." });
+      }
+
+      // A 6-digit code is only safe against guessing if guesses are capped
+      if ((user.emailVerificationAttempts || 0) >= EMAIL_VERIFICATION_MAX_ATTEMPTS) {
+        return res.status(429).json({ message: "Too many incorrect attempts. Please request a new code." });
+      }
+
+      if (user.emailVerificationCode !== hashEmailVerificationCode(user.id, String(code))) {
+        await storage.updateUser(user.id, {
+          emailVerificationAttempts: (user.emailVerificationAttempts || 0) + 1,
+        });
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      const updatedUser = await storage.updateUser(user.id, {
+        emailVerified: true,
+        emailVerificationCode: null,
+        emailVerificationExpires: null,
+        emailVerificationAttempts: 0,
+      });
+
+      res.json({ message: "Email verified successfully", user: toPublicUser(updatedUser) });
+    } catch (error) {
+      console.error("Error verifying email:", error);
+      res.status(500).json({ message: "Failed to verify email" });
+    }
+  });
+
+  app.post('/api/auth/resend-verification', async (req, res) => {
+    try {
+      const { email } = req.body;
+
+      if (!email) {
+        return res.status(400).json({ message: "Email is required" });
+      }
+
+      // Same response whether or not the account exists, so this cannot be used to probe for users
+      const genericResponse = { message: "If that account needs verification, we've sent a new code." };
+
+      const user = await storage.getUserByEmail(email);
+      if (!user || user.emailVerified) {
+        return res.json(genericResponse);
+      }
+
+      const sentAt = user.emailVerificationSentAt ? new Date(user.emailVerificationSentAt).getTime() : 0;
+      const retryAfter = Math.ceil((sentAt + EMAIL_VERIFICATION_RESEND_INTERVAL - Date.now()) / 1000);
+      if (retryAfter > 0) {
+        res.set('Retry-After', String(retryAfter));
+        return res.status(429).json({ message: `Please wait ${retryAfter} seconds before requesting another code` });
+      }
+
+      const emailSent = await sendEmailVerification(user);
+      if (!emailSent) {
+        return res.status(500).json({ message: "Failed to send verification email" });
+      }
+
+      res.json(genericResponse);
+    } catch (error) {
+      console.error("Error resending verification email:", error);
+      res.status(500).json({ message: "Failed to resend verification email" });
+    }
+  });
+
   // Password reset request
-  app.post('/api/auth/forgot-password', async (req, res) => {
+  app.post('/api/auth/forgot-password', authThrottle('password-reset-request'), async (req, res) => {
     try {
       const { email } = req.body;
       
@@ -111,6 +925,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Email is required" });
       }
 
+      // Every request counts, so nobody can keep re-rolling codes for the same account
+      await recordAuthFailure(req, 'password-reset-request', email);
+
       // Check if user exists
       const user = await storage.getUserByEmail(email);
       if (!user) {
@@ -138,6 +955,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ message: "Failed to send reset email" });
       }
 
+      await recordAuditEvent(req, { action: 'auth.password_reset.request', targetType: 'user', targetId: user.id });
+
       // In development mode, provide the verification code directly
       const isDevelopment = !process.env.SMTP_HOST;
       const responseMessage = isDevelopment 
@@ -155,7 +974,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Verify reset code
-  app.post('/api/auth/verify-reset-code', async (req, res) => {
+  app.post('/api/auth/verify-reset-code', authThrottle('password-reset-code'), async (req, res) => {
     try {
       const { email, code } = req.body;
       
@@ -166,15 +985,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Find user by email
       const user = await storage.getUserByEmail(email);
       if (!user) {
+        await rejectResetCode(req, email);
         return res.status(400).json({ message: "Invalid verification code" });
       }
 
       // Check if code matches and is not expired
-      if (user.passwordResetCode !== code) {
+      if (!user.passwordResetCode || user.passwordResetCode !== code) {
+        await rejectResetCode(req, email, user);
         return res.status(400).json({ message: "Invalid verification code" });
       }
 
-      if (!user.passwordResetExpires || user.passwordResetExpires < new Date()) {
+      if (!user.passwordResetExpires || new Date(user.passwordResetExpires).getTime() < Date.now()) {
         return res.status(400).json({ message: "Verification code has expired. Please request a new one." });
       }
 
@@ -190,7 +1011,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Password reset confirmation
-  app.post('/api/auth/reset-password', async (req, res) => {
+  app.post('/api/auth/reset-password', authThrottle('password-reset-code'), async (req, res) => {
     try {
       const { email, code, newPassword } = req.body;
       
@@ -205,15 +1026,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Find user by email
       const user = await storage.getUserByEmail(email);
       if (!user) {
+        await rejectResetCode(req, email);
         return res.status(400).json({ message: "Invalid verification code" });
       }
 
       // Check if code matches and is not expired
-      if (user.passwordResetCode !== code) {
+      if (!user.passwordResetCode || user.passwordResetCode !== code) {
+        await rejectResetCode(req, email, user);
         return res.status(400).json({ message: "Invalid verification code" });
       }
 
-      if (!user.passwordResetExpires || user.passwordResetExpires < new Date()) {
+      if (!user.passwordResetExpires || new Date(user.passwordResetExpires).getTime() < Date.now()) {
         return res.status(400).json({ message: "Verification code has expired. Please request a new one." });
       }
 
@@ -222,6 +1045,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Update password and clear reset code
       await storage.updateUserPassword(user.id, hashedPassword);
+      await clearAuthFailures('password-reset-code', email);
+      await clearAuthFailures('login', email);
+      await recordAuditEvent(req, { action: 'auth.password_reset', targetType: 'user', targetId: user.id });
 
       res.json({ message: "Password has been reset successfully" });
     } catch (error) {
@@ -231,17 +1057,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Verify reset token
-  app.get('/api/auth/verify-reset-token/:token', async (req, res) => {
+  app.get('/api/auth/verify-reset-token/:token', authThrottle('password-reset-code', () => null), async (req, res) => {
     try {
       const { token } = req.params;
       
       const user = await storage.getUserByResetToken(token);
       if (!user) {
+        await recordAuthFailure(req, 'password-reset-code');
         return res.status(400).json({ valid: false, message: "Invalid reset token" });
       }
 
       // Check if token is expired
-      if (!user.passwordResetExpires || user.passwordResetExpires < new Date()) {
+      if (!user.passwordResetExpires || new Date(user.passwordResetExpires).getTime() < Date.now()) {
         return res.status(400).json({ valid: false, message: "Reset token has expired" });
       }
 
@@ -252,8 +1079,464 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Accept an admin invitation and set the initial password
+  app.post('/api/auth/accept-invite', async (req, res) => {
+    try {
+      const { token, password, firstName, lastName } = req.body;
+
+      if (!token || !password) {
+        return res.status(400).json({ message: "Invitation token and password are required" });
+      }
+
+      if (password.length < 6) {
+        return res.status(400).json({ message: "Password must be at least 6 characters long" });
+      }
+
+      const user = await storage.getUserByInvitationToken(hashInvitationToken(token));
+      if (!user || user.isActive === false) {
+        return res.status(400).json({ message: "Invalid invitation" });
+      }
+
+      // Stored dates come back as strings from the file store, so compare timestamps
+      if (!user.invitationExpires || new Date(user.invitationExpires).getTime() < Date.now()) {
+        return res.status(400).json({ message: "Invitation has expired. Ask an administrator to resend it." });
+      }
+
+      const updatedUser = await storage.updateUser(user.id, {
+        password: await bcrypt.hash(password, 10),
+        firstName: firstName || user.firstName,
+        lastName: lastName || user.lastName,
+        emailVerified: true, // Following the emailed link proves ownership of the address
+        invitationToken: null,
+        invitationExpires: null,
+        lastLoginAt: new Date(),
+      });
+
+      await establishSession(req, updatedUser.id);
+      await recordAuditEvent(req, { action: 'user.invitation.accept', targetType: 'user', targetId: updatedUser.id });
+
+      res.json({ message: "Invitation accepted", user: await toSessionUser(updatedUser) });
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+
+  // Admin user management
+  app.get('/api/admin/users', requirePermission('users:manage'), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.filter(user => !user.isServiceAccount).map(user => ({
+        ...toPublicUser(user),
+        invitationPending: !!user.invitationToken,
+      })));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post('/api/admin/users', requirePermission('users:manage'), async (req, res) => {
+    try {
+      const { email, firstName, lastName } = req.body;
+      const role = req.body.role || 'viewer';
+
+      if (!email) {
+        return res.status(400).json({ message: "Email is required" });
+      }
+
+      if (!isRole(role)) {
+        return res.status(400).json({ message: `Role must be one of: ${ROLES.join(', ')}` });
+      }
+
+      const existingUser = await storage.getUserByEmail(email);
+      if (existingUser) {
+        return res.status(400).json({ message: "User already exists with this email" });
+      }
+
+      const invitation = createInvitation();
+      const user = await storage.createEmailUser({
+        email,
+        password: null,
+        firstName: firstName || '',
+        lastName: lastName || '',
+        role,
+        authProvider: 'email',
+        invitationToken: invitation.tokenHash,
+        invitationExpires: invitation.expires,
+        invitedBy: req.currentUser!.id,
+      });
+
+      const emailSent = await sendInvitation(req, user, invitation.token);
+      await recordAuditEvent(req, {
+        action: 'user.invite',
+        targetType: 'user',
+        targetId: user.id,
+        after: { email: user.email, role },
+      });
+
+      res.status(201).json({
+        message: emailSent ? "Invitation sent" : "User created but the invitation email could not be sent",
+        user: toPublicUser(user),
+      });
+    } catch (error) {
+      console.error("Error inviting user:", error);
+      res.status(500).json({ message: "Failed to invite user" });
+    }
+  });
+
+  app.patch('/api/admin/users/:id', requirePermission('users:manage'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { role, isActive, firstName, lastName, resetMfa } = req.body;
+
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (role !== undefined && !isRole(role)) {
+        return res.status(400).json({ message: `Role must be one of: ${ROLES.join(', ')}` });
+      }
+
+      // Admins cannot lock themselves out
+      if (id === req.currentUser!.id && ((role !== undefined && role !== 'admin') || isActive === false)) {
+        return res.status(400).json({ message: "You cannot demote or deactivate your own account" });
+      }
+
+      const updates: Partial<UpsertUser> = {};
+      if (role !== undefined) updates.role = role;
+      if (typeof isActive === 'boolean') updates.isActive = isActive;
+      if (firstName !== undefined) updates.firstName = firstName;
+      if (lastName !== undefined) updates.lastName = lastName;
+      // Lets a user who lost their authenticator enroll again on next login
+      if (resetMfa === true) {
+        updates.mfaEnabled = false;
+        updates.mfaSecret = null;
+        updates.mfaRecoveryCodes = null;
+        updates.mfaLastUsedStep = null;
+      }
+
+      const updatedUser = await storage.updateUser(id, updates);
+      const changes = diffRecords(toPublicUser(user), toPublicUser(updatedUser));
+      await recordAuditEvent(req, {
+        action: resetMfa === true ? 'user.mfa.reset' : 'user.update',
+        targetType: 'user',
+        targetId: id,
+        ...changes,
+      });
+
+      res.json(toPublicUser(updatedUser));
+    } catch (error) {
+      console.error("Error updating user:", error);
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  // Users are deactivated rather than removed so their history stays attributable
+  app.delete('/api/admin/users/:id', requirePermission('users:manage'), async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      if (id === req.currentUser!.id) {
+        return res.status(400).json({ message: "You cannot deactivate your own account" });
+      }
+
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await storage.updateUser(id, { isActive: false, invitationToken: null, invitationExpires: null });
+      await recordAuditEvent(req, {
+        action: 'user.deactivate',
+        targetType: 'user',
+        targetId: id,
+        before: { isActive: user.isActive },
+        after: { isActive: false },
+      });
+      res.json({ message: "User deactivated successfully" });
+    } catch (error) {
+      console.error("Error deactivating user:", error);
+      res.status(500).json({ message: "Failed to deactivate user" });
+    }
+  });
+
+  app.post('/api/admin/users/:id/resend-invite', requirePermission('users:manage'), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (user.password) {
+        return res.status(400).json({ message: "User has already accepted their invitation" });
+      }
+
+      const invitation = createInvitation();
+      await storage.updateUser(user.id, {
+        invitationToken: invitation.tokenHash,
+        invitationExpires: invitation.expires,
+      });
+
+      const emailSent = await sendInvitation(req, user, invitation.token);
+      if (!emailSent) {
+        return res.status(500).json({ message: "Failed to send invitation email" });
+      }
+
+      await recordAuditEvent(req, { action: 'user.invitation.resend', targetType: 'user', targetId: user.id });
+      res.json({ message: "Invitation resent" });
+    } catch (error) {
+      console.error("Error resending invitation:", error);
+      res.status(500).json({ message: "Failed to resend invitation" });
+    }
+  });
+
+  // Organization security settings
+  app.get('/api/settings/security', requirePermission('settings:manage'), async (req, res) => {
+    try {
+      res.json(await getSecuritySettings());
+    } catch (error) {
+      console.error("Error fetching security settings:", error);
+      res.status(500).json({ message: "Failed to fetch security settings" });
+    }
+  });
+
+  app.put('/api/settings/security', requirePermission('settings:manage'), async (req, res) => {
+    try {
+      const current = await getSecuritySettings();
+      const parsed = securitySettingsSchema.safeParse({ ...current, ...req.body });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid security settings", errors: parsed.error.errors });
+      }
+
+      // Turning on the MFA policy would otherwise lock the admin out of this page mid-request
+      if (parsed.data.enableMFA && !req.currentUser!.mfaEnabled) {
+        return res.status(400).json({ message: "Enable MFA on your own account before requiring it for everyone" });
+      }
+
+      await storage.setAppSetting('security', parsed.data, req.currentUser!.id);
+      await recordAuditEvent(req, {
+        action: 'settings.security.update',
+        targetType: 'app_setting',
+        targetId: 'security',
+        ...diffRecords(current, parsed.data),
+      });
+      res.json(parsed.data);
+    } catch (error) {
+      console.error("Error updating security settings:", error);
+      res.status(500).json({ message: "Failed to update security settings" });
+    }
+  });
+
+  // Audit log, newest first. ?format=csv downloads the filtered events instead of a page of JSON.
+  app.get('/api/audit', requirePermission('audit:view'), async (req, res) => {
+    try {
+      const { action, actorId, targetType, targetId, from, to, format } = req.query;
+      const isCsv = format === 'csv';
+
+      const fromDate = typeof from === 'string' && from ? new Date(from) : undefined;
+      const toDate = typeof to === 'string' && to ? new Date(to) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({ message: "from and to must be valid dates" });
+      }
+
+      const filters: AuditEventFilters = {
+        action: typeof action === 'string' && action ? action : undefined,
+        actorId: typeof actorId === 'string' && actorId ? actorId : undefined,
+        targetType: typeof targetType === 'string' && targetType ? targetType : undefined,
+        targetId: typeof targetId === 'string' && targetId ? targetId : undefined,
+        from: fromDate,
+        to: toDate,
+        limit: isCsv ? AUDIT_EXPORT_LIMIT : Math.min(parseInt(req.query.limit as string) || 50, 500),
+        offset: isCsv ? 0 : parseInt(req.query.offset as string) || 0,
+      };
+
+      const { events, total } = await storage.getAuditEvents(filters);
+
+      if (isCsv) {
+        await recordAuditEvent(req, { action: 'audit.export', metadata: { filters: req.query, rows: events.length } });
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+        return res.send(auditEventsToCsv(events));
+      }
+
+      res.json({ events, total, limit: filters.limit, offset: filters.offset });
+    } catch (error) {
+      console.error("Error fetching audit events:", error);
+      res.status(500).json({ message: "Failed to fetch audit events" });
+    }
+  });
+
+  // Personal API tokens. Managing tokens needs a browser session so a leaked token cannot mint more.
+  app.get('/api/tokens', isAuthenticated, requireSessionAuth, async (req, res) => {
+    try {
+      const tokens = await storage.getApiTokens(req.currentUser!.id);
+      res.json(tokens.map(toPublicApiToken));
+    } catch (error) {
+      console.error("Error fetching API tokens:", error);
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  app.post('/api/tokens', isAuthenticated, requireSessionAuth, async (req, res) => {
+    try {
+      const owner = req.currentUser!;
+      const parsed = parseApiTokenRequest(req.body, owner);
+      if ('error' in parsed) {
+        return res.status(400).json({ message: parsed.error });
+      }
+
+      const { token, tokenHash, tokenPrefix } = generateApiToken('personal');
+      const apiToken = await storage.createApiToken({ ...parsed, userId: owner.id, tokenHash, tokenPrefix, createdBy: owner.id });
+
+      await recordAuditEvent(req, {
+        action: 'api_token.create',
+        targetType: 'api_token',
+        targetId: String(apiToken.id),
+        metadata: { name: apiToken.name, scopes: apiToken.scopes, userId: owner.id },
+      });
+
+      // The only time the secret is returned
+      res.status(201).json({ token, apiToken: toPublicApiToken(apiToken) });
+    } catch (error) {
+      console.error("Error creating API token:", error);
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  app.delete('/api/tokens/:id', isAuthenticated, requireSessionAuth, async (req, res) => {
+    try {
+      const tokens = await storage.getApiTokens(req.currentUser!.id);
+      const apiToken = tokens.find(token => token.id === parseInt(req.params.id));
+      if (!apiToken) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+
+      await storage.updateApiToken(apiToken.id, { revokedAt: new Date() });
+      await recordAuditEvent(req, { action: 'api_token.revoke', targetType: 'api_token', targetId: String(apiToken.id) });
+      res.json({ message: "API token revoked" });
+    } catch (error) {
+      console.error("Error revoking API token:", error);
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
+  });
+
+  // Service accounts are non-interactive users that only authenticate with the tokens admins issue for them
+  app.get('/api/admin/service-accounts', requirePermission('users:manage'), requireSessionAuth, async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      const serviceAccounts = await Promise.all(
+        users
+          .filter(user => user.isServiceAccount)
+          .map(async (user) => ({
+            ...toPublicUser(user),
+            tokens: (await storage.getApiTokens(user.id)).map(toPublicApiToken),
+          }))
+      );
+      res.json(serviceAccounts);
+    } catch (error) {
+      console.error("Error fetching service accounts:", error);
+      res.status(500).json({ message: "Failed to fetch service accounts" });
+    }
+  });
+
+  app.post('/api/admin/service-accounts', requirePermission('users:manage'), requireSessionAuth, async (req, res) => {
+    try {
+      const { name } = req.body;
+      const role = req.body.role || 'viewer';
+
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ message: "Name is required" });
+      }
+
+      if (!isRole(role)) {
+        return res.status(400).json({ message: `Role must be one of: ${ROLES.join(', ')}` });
+      }
+
+      const serviceAccount = await storage.createEmailUser({
+        email: null,
+        password: null,
+        firstName: name.trim(),
+        lastName: '',
+        role,
+        authProvider: 'service',
+        isServiceAccount: true,
+        invitedBy: req.currentUser!.id,
+      });
+
+      await recordAuditEvent(req, {
+        action: 'service_account.create',
+        targetType: 'user',
+        targetId: serviceAccount.id,
+        after: { name: serviceAccount.firstName, role },
+      });
+
+      res.status(201).json({ ...toPublicUser(serviceAccount), tokens: [] });
+    } catch (error) {
+      console.error("Error creating service account:", error);
+      res.status(500).json({ message: "Failed to create service account" });
+    }
+  });
+
+  app.post('/api/admin/service-accounts/:id/tokens', requirePermission('users:manage'), requireSessionAuth, async (req, res) => {
+    try {
+      const serviceAccount = await storage.getUser(req.params.id);
+      if (!serviceAccount?.isServiceAccount) {
+        return res.status(404).json({ message: "Service account not found" });
+      }
+
+      if (serviceAccount.isActive === false) {
+        return res.status(400).json({ message: "Reactivate the service account before issuing tokens" });
+      }
+
+      const parsed = parseApiTokenRequest(req.body, serviceAccount);
+      if ('error' in parsed) {
+        return res.status(400).json({ message: parsed.error });
+      }
+
+      const { token, tokenHash, tokenPrefix } = generateApiToken('service');
+      const apiToken = await storage.createApiToken({
+        ...parsed,
+        userId: serviceAccount.id,
+        tokenHash,
+        tokenPrefix,
+        createdBy: req.currentUser!.id,
+      });
+
+      await recordAuditEvent(req, {
+        action: 'api_token.create',
+        targetType: 'api_token',
+        targetId: String(apiToken.id),
+        metadata: { name: apiToken.name, scopes: apiToken.scopes, userId: serviceAccount.id },
+      });
+
+      res.status(201).json({ token, apiToken: toPublicApiToken(apiToken) });
+    } catch (error) {
+      console.error("Error creating service account token:", error);
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  app.delete('/api/admin/service-accounts/:id/tokens/:tokenId', requirePermission('users:manage'), requireSessionAuth, async (req, res) => {
+    try {
+      const tokens = await storage.getApiTokens(req.params.id);
+      const apiToken = tokens.find(token => token.id === parseInt(req.params.tokenId));
+      if (!apiToken) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+
+      await storage.updateApiToken(apiToken.id, { revokedAt: new Date() });
+      await recordAuditEvent(req, { action: 'api_token.revoke', targetType: 'api_token', targetId: String(apiToken.id) });
+      res.json({ message: "API token revoked" });
+    } catch (error) {
+      console.error("Error revoking service account token:", error);
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
+  });
+
   // Dashboard metrics
-  app.get('/api/dashboard/metrics', async (req, res) => {
+  app.get('/api/dashboard/metrics', requirePermission('dashboard:view'), async (req, res) => {
     try {
       const metrics = await storage.getDashboardMetrics();
       res.json(metrics);
@@ -264,7 +1547,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Systems management
-  app.get('/api/systems', async (req, res) => {
+  app.get('/api/systems', requirePermission('systems:view'), async (req, res) => {
     try {
       const systems = await storage.getSystems();
       res.json(systems);
@@ -274,10 +1557,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/systems', async (req, res) => {
+  app.post('/api/systems', requirePermission('systems:manage'), async (req, res) => {
     try {
       const systemData = insertSystemSchema.parse(req.body);
       const system = await storage.createSystem(systemData);
+      await recordAuditEvent(req, {
+        action: 'system.create',
+        targetType: 'system',
+        targetId: String(system.id),
+        after: toAuditableSystem(system),
+      });
       res.status(201).json(system);
     } catch (error) {
       console.error("Error creating system:", error);
@@ -285,11 +1574,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/systems/:id', async (req, res) => {
+  app.put('/api/systems/:id', requirePermission('systems:manage'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const updates = insertSystemSchema.partial().parse(req.body);
+      const existing = await storage.getSystem(id);
       const system = await storage.updateSystem(id, updates);
+      await recordAuditEvent(req, {
+        action: 'system.update',
+        targetType: 'system',
+        targetId: String(id),
+        ...diffRecords(existing && toAuditableSystem(existing), toAuditableSystem(system)),
+      });
       res.json(system);
     } catch (error) {
       console.error("Error updating system:", error);
@@ -297,12 +1593,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/systems/:id', async (req, res) => {
+  app.delete('/api/systems/:id', requirePermission('systems:manage'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       console.log(`Attempting to delete system with ID: ${id}`);
 
       // Delete the system (solutions will be handled by cascade)
+      const existing = await storage.getSystem(id);
       const deleted = await storage.deleteSystem(id);
 
       if (!deleted) {
@@ -310,6 +1607,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "System not found" });
       }
 
+      await recordAuditEvent(req, {
+        action: 'system.delete',
+        targetType: 'system',
+        targetId: String(id),
+        before: existing ? toAuditableSystem(existing) : null,
+      });
+
       console.log(`Successfully deleted system with ID: ${id}`);
 
       // Broadcast system removal via WebSocket
@@ -330,7 +1634,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reset/clear all systems (for testing purposes)
-  app.delete('/api/systems', async (req, res) => {
+  app.delete('/api/systems', requirePermission('systems:manage'), async (req, res) => {
     try {
       const systems = await storage.getSystems();
       let deletedCount = 0;
@@ -338,7 +1642,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       for (const system of systems) {
         // Delete the system (solutions will be handled by cascade)
         const deleted = await storage.deleteSystem(system.id);
-        if (deleted) deletedCount++;
+        if (deleted) {
+          deletedCount++;
+          await recordAuditEvent(req, {
+            action: 'system.delete',
+            targetType: 'system',
+            targetId: String(system.id),
+            before: toAuditableSystem(system),
+            metadata: { reset: true },
+          });
+        }
       }
 
       console.log(`Reset: Deleted ${deletedCount} systems`);
@@ -360,7 +1673,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/systems/:id/sync', async (req, res) => {
+  app.post('/api/systems/:id/sync', requirePermission('systems:sync'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const system = await storage.getSystem(id);
@@ -390,7 +1703,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Solutions management
-  app.get('/api/solutions', async (req, res) => {
+  app.get('/api/solutions', requirePermission('solutions:view'), async (req, res) => {
     try {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 50;
@@ -404,7 +1717,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/solutions/:id', async (req, res) => {
+  app.get('/api/solutions/:id', requirePermission('solutions:view'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const solution = await storage.getSolution(id);
@@ -413,7 +1726,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Solution not found" });
       }
       
-      // Solution view tracking removed (no authentication)
+      const userId = getSessionUserId(req);
+      if (userId) {
+        await storage.createInteraction({ userId, solutionId: id, action: 'view' });
+      }
       
       res.json(solution);
     } catch (error) {
@@ -423,7 +1739,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI-powered search
-  app.post('/api/search', async (req, res) => {
+  app.post('/api/search', requirePermission('search:use'), async (req, res) => {
     try {
       const { query, systems: systemIds } = req.body;
       if (!query || query.trim().length === 0) {
@@ -431,14 +1747,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const solutions = await storage.searchSolutions(query, systemIds);
-      
-      // Search query tracking removed (no authentication)
+      const confidence = Math.floor(Math.random() * 20) + 80;
+      
+      const userId = getSessionUserId(req);
+      if (userId) {
+        await storage.createSearchQuery({
+          userId,
+          query,
+          resultsCount: solutions.length,
+          confidence,
+          systemsSearched: systemIds,
+        });
+      }
       
       res.json({
         query,
         results: solutions,
         resultsCount: solutions.length,
-        confidence: Math.floor(Math.random() * 20) + 80,
+        confidence,
       });
     } catch (error) {
       console.error("Error performing search:", error);
@@ -446,17 +1772,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/search/recent', async (req, res) => {
+  app.get('/api/search/recent', requirePermission('search:use'), async (req, res) => {
     try {
-      // Recent searches unavailable without authentication
-      res.json([]);
+      const limit = parseInt(req.query.limit as string) || 10;
+      const recentSearches = await storage.getRecentSearches(req.currentUser!.id, limit);
+      res.json(recentSearches);
     } catch (error) {
       console.error("Error fetching recent searches:", error);
       res.status(500).json({ message: "Failed to fetch recent searches" });
     }
   });
 
-  app.get('/api/search/popular', async (req, res) => {
+  app.get('/api/search/popular', requirePermission('search:use'), async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 10;
       const popularSearches = await storage.getPopularSearches(limit);
@@ -468,7 +1795,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // SLA management
-  app.get('/api/sla/targets', async (req, res) => {
+  app.get('/api/sla/targets', requirePermission('sla:view'), async (req, res) => {
     try {
       const targets = await storage.getSLATargets();
       res.json(targets);
@@ -478,7 +1805,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/sla/status', async (req, res) => {
+  app.post('/api/sla/targets', requirePermission('sla:manage'), async (req, res) => {
+    try {
+      const targetData = insertSLATargetSchema.parse(req.body);
+      const target = await storage.createSLATarget(targetData);
+      await recordAuditEvent(req, {
+        action: 'sla_target.create',
+        targetType: 'sla_target',
+        targetId: String(target.id),
+        after: target,
+      });
+      res.status(201).json(target);
+    } catch (error) {
+      console.error("Error creating SLA target:", error);
+      res.status(500).json({ message: "Failed to create SLA target" });
+    }
+  });
+
+  app.put('/api/sla/targets/:id', requirePermission('sla:manage'), async (req, res) => {
+    try {
+      const parsed = insertSLATargetSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid SLA target", errors: parsed.error.errors });
+      }
+
+      const id = parseInt(req.params.id);
+      const existing = await storage.getSLATarget(id);
+      const target = existing && await storage.updateSLATarget(id, parsed.data);
+      if (!target) {
+        return res.status(404).json({ message: "SLA target not found" });
+      }
+
+      await recordAuditEvent(req, {
+        action: 'sla_target.update',
+        targetType: 'sla_target',
+        targetId: String(id),
+        ...diffRecords(existing, target),
+      });
+      res.json(target);
+    } catch (error) {
+      console.error("Error updating SLA target:", error);
+      res.status(500).json({ message: "Failed to update SLA target" });
+    }
+  });
+
+  app.delete('/api/sla/targets/:id', requirePermission('sla:manage'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getSLATarget(id);
+      if (!existing || !(await storage.deleteSLATarget(id))) {
+        return res.status(404).json({ message: "SLA target not found" });
+      }
+
+      await recordAuditEvent(req, {
+        action: 'sla_target.delete',
+        targetType: 'sla_target',
+        targetId: String(id),
+        before: existing,
+      });
+      res.json({ message: "SLA target deleted" });
+    } catch (error) {
+      console.error("Error deleting SLA target:", error);
+      res.status(500).json({ message: "Failed to delete SLA target" });
+    }
+  });
+
+  app.get('/api/sla/status', requirePermission('sla:view'), async (req, res) => {
     try {
       const status = await storage.getSLAStatus();
       res.json(status);
@@ -489,21 +1881,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Notifications
-  app.get('/api/notifications', async (req, res) => {
+  app.get('/api/notifications', isAuthenticated, async (req, res) => {
     try {
-      // Notifications unavailable without authentication
-      res.json([]);
+      const unreadOnly = req.query.unread === 'true';
+      const notifications = await storage.getUserNotifications(req.currentUser!.id, unreadOnly);
+      res.json(notifications);
     } catch (error) {
       console.error("Error fetching notifications:", error);
       res.status(500).json({ message: "Failed to fetch notifications" });
     }
   });
 
-  app.patch('/api/notifications/:id/read', async (req, res) => {
+  app.patch('/api/notifications/:id/read', isAuthenticated, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.markNotificationRead(id);
+      const success = await storage.markNotificationRead(id, req.currentUser!.id);
       
+      // Someone else's notification is reported as missing rather than forbidden
       if (!success) {
         return res.status(404).json({ message: "Notification not found" });
       }
@@ -516,7 +1910,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Analytics
-  app.get('/api/analytics/popular-solutions', async (req, res) => {
+  app.get('/api/analytics/popular-solutions', requirePermission('dashboard:view'), async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 10;
       const popularSolutions = await storage.getPopularSolutions(limit);
@@ -528,10 +1922,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User interactions
-  app.post('/api/interactions', async (req, res) => {
+  app.post('/api/interactions', isAuthenticated, async (req, res) => {
     try {
-      // User interactions unavailable without authentication
-      res.status(201).json({ message: "Interaction tracking disabled" });
+      const interactionData = insertInteractionSchema.parse({
+        ...req.body,
+        userId: req.currentUser!.id,
+      });
+      const interaction = await storage.createInteraction(interactionData);
+      res.status(201).json(interaction);
     } catch (error) {
       console.error("Error creating interaction:", error);
       res.status(500).json({ message: "Failed to create interaction" });
@@ -539,40 +1937,167 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Data sources management
-  app.get('/api/data-sources', async (req, res) => {
+  app.get('/api/data-sources', requirePermission('data_sources:view'), async (req, res) => {
     try {
       const dataSources = await storage.getDataSources();
-      res.json(dataSources);
+      res.json(dataSources.map(dataSource => ({
+        ...redactCredentials('dataSource', dataSource),
+        syncState: getSyncState(dataSource),
+      })));
+    } catch (error) {
+      console.error("Error fetching data sources:", error);
+      res.status(500).json({ message: "Failed to fetch data sources" });
+    }
+  });
+
+  app.get('/api/connectors', requirePermission('data_sources:view'), async (req, res) => {
+    res.json(describeConnectors());
+  });
+
+  app.post('/api/data-sources/test', requirePermission('data_sources:manage'), async (req, res) => {
+    const parsed = parseDataSource(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.message, errors: parsed.errors });
+    }
+
+    // Never stored; id 0 marks it as unsaved, so OAuth connectors use the supplied token as is
+    const dataSource = { ...parsed.data, id: 0 } as DataSource;
+    try {
+      const message = await createConnector(dataSource).testConnection();
+      res.json({ ok: true, message });
+    } catch (error) {
+      res.json({ ok: false, message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.post('/api/data-sources', requirePermission('data_sources:manage'), async (req, res) => {
+    try {
+      const parsed = parseDataSource(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.message, errors: parsed.errors });
+      }
+      const dataSource = await storage.createDataSource(parsed.data);
+      await recordAuditEvent(req, {
+        action: 'data_source.create',
+        targetType: 'data_source',
+        targetId: String(dataSource.id),
+        after: redactCredentials('dataSource', dataSource),
+      });
+      res.status(201).json(redactCredentials('dataSource', dataSource));
+    } catch (error) {
+      console.error("Error creating data source:", error);
+      res.status(500).json({ message: "Failed to create data source" });
+    }
+  });
+
+  app.put('/api/data-sources/:id', requirePermission('data_sources:manage'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = stripRedactedCredentials('dataSource', insertDataSourceSchema.partial().parse(req.body));
+      const existing = await storage.getDataSource(id);
+
+      if (!existing) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      const config = parseConnectorConfig(updates.type ?? existing.type, { ...existing, ...updates });
+      if (!config.success) {
+        return res.status(400).json({ message: config.message, errors: config.errors });
+      }
+
+      // Save what the connector schema made of the config, so its defaults apply. Credentials
+      // are only written when replaced, or a token refreshed meanwhile would be overwritten.
+      const { apiKey, oauthConfig, ...settings } = config.data;
+      const dataSource = await storage.updateDataSource(id, {
+        ...updates,
+        ...settings,
+        ...('apiKey' in updates ? { apiKey } : {}),
+        ...('oauthConfig' in updates ? { oauthConfig } : {}),
+      });
+      await recordAuditEvent(req, {
+        action: 'data_source.update',
+        targetType: 'data_source',
+        targetId: String(id),
+        ...diffRecords(redactCredentials('dataSource', existing), redactCredentials('dataSource', dataSource)),
+        // Redacted values look identical either way, so say explicitly when a secret was replaced
+        metadata: { credentialsChanged: 'apiKey' in updates || 'oauthConfig' in updates },
+      });
+      res.json(redactCredentials('dataSource', dataSource));
+    } catch (error) {
+      console.error("Error updating data source:", error);
+      res.status(500).json({ message: "Failed to update data source" });
+    }
+  });
+
+  app.get('/api/data-sources/:id/runs', requirePermission('data_sources:view'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const dataSource = await storage.getDataSource(id);
+
+      if (!dataSource) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      res.json(await storage.getSyncRuns(id, limit));
     } catch (error) {
-      console.error("Error fetching data sources:", error);
-      res.status(500).json({ message: "Failed to fetch data sources" });
+      console.error("Error fetching sync runs:", error);
+      res.status(500).json({ message: "Failed to fetch sync runs" });
     }
   });
 
-  app.post('/api/data-sources', async (req, res) => {
+  app.post('/api/data-sources/:id/test', requirePermission('data_sources:manage'), async (req, res) => {
     try {
-      const dataSourceData = insertDataSourceSchema.parse(req.body);
-      const dataSource = await storage.createDataSource(dataSourceData);
-      res.status(201).json(dataSource);
+      const dataSource = await storage.getDataSource(parseInt(req.params.id));
+      if (!dataSource) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      // A failed connection is a test result, not an error of this route
+      try {
+        const message = await createConnector(dataSource).testConnection();
+        res.json({ ok: true, message });
+      } catch (error) {
+        res.json({ ok: false, message: error instanceof Error ? error.message : String(error) });
+      }
     } catch (error) {
-      console.error("Error creating data source:", error);
-      res.status(500).json({ message: "Failed to create data source" });
+      console.error("Error testing data source:", error);
+      res.status(500).json({ message: "Failed to test data source" });
     }
   });
 
-  app.put('/api/data-sources/:id', async (req, res) => {
+  app.post('/api/data-sources/:id/webhook-secret', requirePermission('data_sources:manage'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updates = insertDataSourceSchema.partial().parse(req.body);
-      const dataSource = await storage.updateDataSource(id, updates);
-      res.json(dataSource);
+      const dataSource = await storage.getDataSource(id);
+
+      if (!dataSource) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+      if (!hasCapability(dataSource.type, 'webhooks')) {
+        return res.status(400).json({ message: `${dataSource.name} does not accept webhooks` });
+      }
+
+      // Shown once; replacing it invalidates whatever the sender still has
+      const secret = generateWebhookSecret();
+      await storage.updateDataSource(id, { webhookSecret: secret });
+      await recordAuditEvent(req, {
+        action: 'data_source.webhook_secret.rotate',
+        targetType: 'data_source',
+        targetId: String(id),
+        metadata: { replaced: !!dataSource.webhookSecret },
+      });
+
+      const host = process.env.REPLIT_DOMAINS || req.get('host');
+      // Senders that can neither sign nor set headers (Statuspage) use the tokenized URL
+      res.json({ secret, url: `https://${host}/api/webhooks/${id}?token=${webhookUrlToken(secret)}` });
     } catch (error) {
-      console.error("Error updating data source:", error);
-      res.status(500).json({ message: "Failed to update data source" });
+      console.error("Error generating webhook secret:", error);
+      res.status(500).json({ message: "Failed to generate webhook secret" });
     }
   });
 
-  app.post('/api/data-sources/:id/sync', async (req, res) => {
+  app.post('/api/data-sources/:id/sync', requirePermission('data_sources:sync'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const dataSource = await storage.getDataSource(id);
@@ -581,8 +2106,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Data source not found" });
       }
       
-      // Trigger sync for this specific data source
-      await syncService.syncAllDataSources();
+      const outcome = await syncScheduler.syncNow(dataSource);
       
       // Broadcast sync update via WebSocket
       wss.clients.forEach((client) => {
@@ -594,15 +2118,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
       
-      res.json({ message: "Sync initiated successfully" });
+      // The source answered badly, not this server, hence a gateway error
+      if (outcome.status === 'failed') {
+        return res.status(502).json({ message: `Sync failed: ${outcome.error}`, ...outcome });
+      }
+      res.json({ message: "Sync completed", ...outcome });
     } catch (error) {
       console.error("Error syncing data source:", error);
       res.status(500).json({ message: "Failed to sync data source" });
     }
   });
 
+  // Inbound webhooks authenticate with the source's signing secret rather than a session
+  app.post('/api/webhooks/:dataSourceId', async (req, res) => {
+    try {
+      const dataSource = await storage.getDataSource(parseInt(req.params.dataSourceId));
+
+      // Senders cannot tell a missing source from one without webhooks set up
+      if (!dataSource || !dataSource.webhookSecret || !hasCapability(dataSource.type, 'webhooks')) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      if (!req.rawBody || !verifyWebhookSignature(dataSource.webhookSecret, req.rawBody, req.headers, req.query.token)) {
+        return res.status(401).json({ message: "Invalid webhook signature" });
+      }
+      if (!dataSource.isActive) {
+        return res.status(409).json({ message: "Data source is inactive" });
+      }
+
+      let pushed;
+      try {
+        pushed = createConnector(dataSource).parseWebhook!(req.body);
+      } catch (error) {
+        return res.status(400).json(error instanceof ZodError
+          ? { message: "Invalid webhook payload", errors: error.errors }
+          : { message: error instanceof Error ? error.message : "Invalid webhook payload" });
+      }
+
+      const stats = await syncScheduler.ingest(dataSource, pushed);
+
+      wss.clients.forEach((client) => {
+        if (client.readyState === WebSocket.OPEN) {
+          client.send(JSON.stringify({
+            type: 'data_source_sync',
+            data: { dataSourceId: dataSource.id, timestamp: new Date() }
+          }));
+        }
+      });
+
+      res.json({
+        received: pushed.length,
+        created: stats.incidentsCreated,
+        updated: stats.incidentsUpdated,
+        unchanged: stats.incidentsUnchanged,
+        updatesCreated: stats.updatesCreated,
+      });
+    } catch (error) {
+      console.error("Error processing webhook:", error);
+      res.status(500).json({ message: "Failed to process webhook" });
+    }
+  });
+
   // Incidents management
-  app.get('/api/incidents', async (req, res) => {
+  app.get('/api/incidents', requirePermission('incidents:view'), async (req, res) => {
     try {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 50;
@@ -616,7 +2193,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/incidents/active', async (req, res) => {
+  app.get('/api/incidents/active', requirePermission('incidents:view'), async (req, res) => {
     try {
       const incidents = await storage.getActiveIncidents();
       res.json(incidents);
@@ -626,7 +2203,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/incidents/status/:status', async (req, res) => {
+  app.get('/api/incidents/status/:status', requirePermission('incidents:view'), async (req, res) => {
     try {
       const { status } = req.params;
       const incidents = await storage.getIncidentsByStatus(status);
@@ -637,7 +2214,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/incidents/severity/:severity', async (req, res) => {
+  app.get('/api/incidents/severity/:severity', requirePermission('incidents:view'), async (req, res) => {
     try {
       const { severity } = req.params;
       const incidents = await storage.getIncidentsBySeverity(severity);
@@ -648,7 +2225,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/incidents/:id', async (req, res) => {
+  app.get('/api/incidents/:id', requirePermission('incidents:view'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const incident = await storage.getIncident(id);
@@ -665,7 +2242,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/incidents/:id/updates', async (req, res) => {
+  app.get('/api/incidents/:id/updates', requirePermission('incidents:view'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const updates = await storage.getIncidentUpdates(id);
@@ -676,8 +2253,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Customer tickets support has linked to the incident
+  app.get('/api/incidents/:id/tickets', requirePermission('incidents:view'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const tickets = await storage.getSupportTicketsByIncident(id);
+      res.json(tickets.filter(ticket => ticket.status !== 'deleted'));
+    } catch (error) {
+      console.error("Error fetching incident tickets:", error);
+      res.status(500).json({ message: "Failed to fetch incident tickets" });
+    }
+  });
+
   // Service components
-  app.get('/api/service-components', async (req, res) => {
+  app.get('/api/service-components', requirePermission('incidents:view'), async (req, res) => {
     try {
       const dataSourceId = req.query.dataSourceId ? parseInt(req.query.dataSourceId as string) : undefined;
       const components = await storage.getServiceComponents(dataSourceId);
@@ -689,7 +2278,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Incident metrics and analytics
-  app.get('/api/incident-metrics', async (req, res) => {
+  app.get('/api/incident-metrics', requirePermission('incidents:view'), async (req, res) => {
     try {
       const dataSourceId = req.query.dataSourceId ? parseInt(req.query.dataSourceId as string) : undefined;
       const days = req.query.days ? parseInt(req.query.days as string) : 30;
@@ -702,273 +2291,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // OAuth Authentication routes for systems
-  app.get('/api/auth/:system/login', async (req, res) => {
+  app.get('/api/auth/:system/login', requirePermission('systems:manage'), async (req, res) => {
     try {
       const { system } = req.params;
-      const host = process.env.REPLIT_DOMAINS || req.get('host');
-      const redirectUri = `https://${host}/api/auth/${system}/callback`;
-      
-      const authUrls = {
-        slack: `https://slack.com/oauth/v2/authorize?client_id=${process.env.SLACK_CLIENT_ID}&scope=chat:write,channels:read,groups:read,im:read,users:read&redirect_uri=${encodeURIComponent(redirectUri)}&response_type=code`,
-        googlemeet: googleMeetService.getAuthUrl(),
-        zendesk: `https://${process.env.ZENDESK_SUBDOMAIN}.zendesk.com/oauth/authorizations/new?response_type=code&redirect_uri=${encodeURIComponent(redirectUri)}&client_id=${process.env.ZENDESK_CLIENT_ID}&scope=read`,
-        notion: `https://api.notion.com/v1/oauth/authorize?client_id=${process.env.NOTION_CLIENT_ID}&response_type=code&owner=user&redirect_uri=${encodeURIComponent(redirectUri)}`,
-        linear: `https://linear.app/oauth/authorize?client_id=${process.env.LINEAR_CLIENT_ID}&redirect_uri=${encodeURIComponent(redirectUri)}&scope=read&response_type=code`,
-        jira: `https://auth.atlassian.com/authorize?audience=api.atlassian.com&client_id=${process.env.JIRA_CLIENT_ID}&scope=read:jira-work%20read:jira-user%20read:project:jira&redirect_uri=${encodeURIComponent(redirectUri)}&state=${encodeURIComponent(JSON.stringify({ system: 'jira' }))}&response_type=code&prompt=consent`
-      };
-      
-      const authUrl = authUrls[system as keyof typeof authUrls];
-      if (!authUrl) {
+
+      // Google Meet uses the Google client library and its own callback route
+      if (system === 'googlemeet') {
+        const { state, codeChallenge } = issueOAuthState(req, 'google', true);
+        return res.json({ authUrl: googleMeetService.getAuthUrl(state, codeChallenge), redirectUri: `${req.protocol}://${req.get('host')}/api/auth/google/callback` });
+      }
+
+      const authorization = createAuthorizationUrl(req, system);
+      if (!authorization) {
         return res.status(400).json({ message: 'Unsupported system' });
       }
 
       // For Slack, redirect directly to authorization URL
       if (system === 'slack') {
-        return res.redirect(authUrl);
+        return res.redirect(authorization.authUrl);
       }
       
-      res.json({ authUrl, redirectUri });
+      res.json(authorization);
     } catch (error) {
       console.error(`Error generating ${req.params.system} auth URL:`, error);
       res.status(500).json({ message: 'Failed to generate auth URL' });
     }
   });
 
-  // Handle Slack OAuth callback (GET request from Slack)
-  app.get('/api/auth/slack/callback', async (req, res) => {
-    try {
-      const { code, error } = req.query;
-      
-      if (error) {
-        console.error('Slack OAuth error:', error);
-        return res.send(`
-          <html>
-            <body>
-              <h2>Connection Failed</h2>
-              <p>Failed to connect to Slack: ${error}</p>
-              <script>
-                setTimeout(() => window.close(), 3000);
-              </script>
-            </body>
-          </html>
-        `);
-      }
-
-      if (!code) {
-        return res.send(`
-          <html>
-            <body>
-              <h2>Connection Failed</h2>
-              <p>No authorization code received from Slack</p>
-              <script>
-                setTimeout(() => window.close(), 3000);
-              </script>
-            </body>
-          </html>
-        `);
-      }
-
-      // Exchange code for access token
-      const host = process.env.REPLIT_DOMAINS || req.get('host');
-      const redirectUri = `https://${host}/api/auth/slack/callback`;
-      const workspaceInfo = await slackService.exchangeCodeForToken(code as string, redirectUri);
-      
-      console.log('Slack workspace connected:', workspaceInfo.teamName);
-      
-      return res.send(`
-        <html>
-          <body>
-            <h2>Successfully Connected!</h2>
-            <p>Your Slack workspace "${workspaceInfo.teamName}" has been connected to QueryLinker.</p>
-            <p>You can now close this window and return to the application.</p>
-            <script>
-              setTimeout(() => window.close(), 3000);
-            </script>
-          </body>
-        </html>
-      `);
-    } catch (error) {
-      console.error('Error in Slack OAuth callback:', error);
-      return res.send(`
-        <html>
-          <body>
-            <h2>Connection Failed</h2>
-            <p>An error occurred while connecting to Slack. Please try again.</p>
-            <script>
-              setTimeout(() => window.close(), 3000);
-            </script>
-          </body>
-        </html>
-      `);
-    }
-  });
+  // Providers redirect the OAuth popup here with the code and the state we issued
+  app.get('/api/auth/:system/callback', async (req, res) => {
+    const { system } = req.params;
+    const systemName = getSystemDisplayName(system);
 
-  // Jira OAuth callback handler
-  app.get('/api/auth/jira/callback', async (req, res) => {
     try {
       const { code, error, state } = req.query;
-      
+
+      if (!getOAuthProvider(system)) {
+        return res.status(404).send(oauthResultPage('Connection Failed', `Unsupported system: ${system}`));
+      }
+
       if (error) {
-        console.error('Jira OAuth error:', error);
-        return res.send(`
-          <html>
-            <body>
-              <h2>Connection Failed</h2>
-              <p>Failed to connect to Jira: ${error}</p>
-              <script>
-                setTimeout(() => window.close(), 3000);
-              </script>
-            </body>
-          </html>
-        `);
+        console.error(`${systemName} OAuth error:`, error);
+        return res.send(oauthResultPage('Connection Failed', `Failed to connect to ${systemName}: ${error}`));
       }
 
       if (!code) {
-        return res.send(`
-          <html>
-            <body>
-              <h2>Connection Failed</h2>
-              <p>No authorization code received from Jira</p>
-              <script>
-                setTimeout(() => window.close(), 3000);
-              </script>
-            </body>
-          </html>
-        `);
-      }
-
-      // Exchange code for access token
-      const host = process.env.REPLIT_DOMAINS || req.get('host');
-      const redirectUri = `https://${host}/api/auth/jira/callback`;
-      
-      const tokenResponse = await fetch('https://auth.atlassian.com/oauth/token', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          grant_type: 'authorization_code',
-          client_id: process.env.JIRA_CLIENT_ID,
-          client_secret: process.env.JIRA_CLIENT_SECRET,
-          code: code as string,
-          redirect_uri: redirectUri,
-        }),
-      });
-
-      const tokenData = await tokenResponse.json();
-
-      if (!tokenResponse.ok) {
-        console.error('Jira token exchange error:', tokenData);
-        throw new Error('Failed to exchange code for token');
+        return res.send(oauthResultPage('Connection Failed', `No authorization code received from ${systemName}`));
       }
 
-      // Get user's accessible resources (Jira sites)
-      const resourceResponse = await fetch('https://api.atlassian.com/oauth/token/accessible-resources', {
-        headers: {
-          'Authorization': `Bearer ${tokenData.access_token}`,
-          'Accept': 'application/json',
-        },
-      });
-
-      const resources = await resourceResponse.json();
-      
-      if (!resources || resources.length === 0) {
-        throw new Error('No accessible Jira resources found');
+      const pending = consumeOAuthState(req, system, state);
+      if (!pending) {
+        return res.status(400).send(oauthResultPage('Connection Failed', 'This authorization request is invalid or has expired. Please start the connection again.'));
       }
 
-      // Use the first resource (site)
-      const jiraSite = resources[0];
-      
-      // Create or update Jira data source
-      const jiraConfig = {
-        access_token: tokenData.access_token,
-        refresh_token: tokenData.refresh_token,
-        expires_at: new Date(Date.now() + tokenData.expires_in * 1000),
-        site_id: jiraSite.id,
-        site_name: jiraSite.name,
-        site_url: jiraSite.url,
-        scope: tokenData.scope,
-      };
-
-      // Create or update the Jira data source in the database
-      const existingDataSources = await storage.getDataSources();
-      const existingJira = existingDataSources.find(ds => ds.type === 'jira');
-
-      if (existingJira) {
-        await storage.updateDataSource(existingJira.id, {
-          baseUrl: jiraSite.url,
-          oauthConfig: jiraConfig,
-          isActive: true,
-          lastSyncAt: new Date(),
-        });
-      } else {
-        await storage.createDataSource({
-          name: `Jira - ${jiraSite.name}`,
-          type: 'jira',
-          baseUrl: jiraSite.url,
-          oauthConfig: jiraConfig,
-          syncInterval: 300, // 5 minutes
-          isActive: true,
-        });
-      }
+      const connectedName = await completeOAuthConnection(req, system, code as string, pending.codeVerifier);
+      console.log(`${systemName} connected:`, connectedName);
 
-      console.log('Jira site connected:', jiraSite.name);
-      
-      return res.send(`
-        <html>
-          <body>
-            <h2>Successfully Connected!</h2>
-            <p>Your Jira site "${jiraSite.name}" has been connected to QueryLinker.</p>
-            <p>You can now close this window and return to the application.</p>
-            <script>
-              setTimeout(() => window.close(), 3000);
-            </script>
-          </body>
-        </html>
-      `);
+      return res.send(oauthResultPage('Successfully Connected!', `Your ${systemName} account "${connectedName}" has been connected to QueryLinker.`));
     } catch (error) {
-      console.error('Error in Jira OAuth callback:', error);
-      return res.send(`
-        <html>
-          <body>
-            <h2>Connection Failed</h2>
-            <p>An error occurred while connecting to Jira. Please try again.</p>
-            <script>
-              setTimeout(() => window.close(), 3000);
-            </script>
-          </body>
-        </html>
-      `);
+      console.error(`Error in ${systemName} OAuth callback:`, error);
+      return res.send(oauthResultPage('Connection Failed', `An error occurred while connecting to ${systemName}. Please try again.`));
     }
   });
 
-  app.post('/api/auth/:system/callback', async (req, res) => {
+  // Same exchange for clients that capture the code themselves and post it back
+  // Google tokens are stored per user by the Google Meet route further down
+  const skipGoogle: RequestHandler = (req, res, next) => next(req.params.system === 'google' ? 'route' : undefined);
+  app.post('/api/auth/:system/callback', skipGoogle, requirePermission('systems:manage'), async (req, res) => {
     try {
       const { system } = req.params;
       const { code, state } = req.body;
-      
-      // For other systems, use mock data
-      const authData = {
-        system,
-        accessToken: `mock_token_${system}_${Date.now()}`,
-        userId: `user_${system}_${Math.random().toString(36).substr(2, 9)}`,
-        authenticatedAt: new Date().toISOString()
-      };
-      
-      // Update the system to mark as authenticated
-      const systems = await storage.getSystems();
-      const systemRecord = systems.find(s => s.type === system);
-      if (systemRecord) {
-        await storage.updateSystem(systemRecord.id, { 
-          isActive: true,
-          lastSyncAt: new Date()
-        });
+
+      if (!getOAuthProvider(system)) {
+        return res.status(400).json({ message: 'Unsupported system' });
       }
-      
+
+      if (!code) {
+        return res.status(400).json({ message: 'Authorization code is required' });
+      }
+
+      const pending = consumeOAuthState(req, system, state);
+      if (!pending) {
+        return res.status(400).json({ message: 'Invalid or expired authorization state' });
+      }
+
+      const connectedName = await completeOAuthConnection(req, system, code, pending.codeVerifier);
+
       res.json({ 
         success: true, 
-        message: `Successfully authenticated with ${system}`,
-        authData: { system, userId: authData.userId }
+        message: `Successfully authenticated with ${getSystemDisplayName(system)}`,
+        authData: { system, name: connectedName }
       });
     } catch (error) {
       console.error(`Error handling ${req.params.system} auth callback:`, error);
@@ -976,7 +2388,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/auth/:system/status', async (req, res) => {
+  app.get('/api/auth/:system/status', requirePermission('systems:view'), async (req, res) => {
     try {
       const { system } = req.params;
       
@@ -996,7 +2408,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // System workspace data endpoints
-  app.get('/api/systems/:system/workspace', async (req, res) => {
+  app.get('/api/systems/:system/workspace', requirePermission('systems:view'), async (req, res) => {
     try {
       const { system } = req.params;
       
@@ -1027,8 +2439,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           features: ['tickets', 'knowledge-base', 'reports'],
           apiEndpoints: {
             tickets: '/api/integrations/zendesk/tickets',
-            users: '/api/integrations/zendesk/users'
-          }
+            create: '/api/integrations/zendesk/tickets'
+          },
+          customInterface: true // Flag to show custom interface instead of iframe
         },
         notion: {
           embedUrl: 'https://www.notion.so',
@@ -1046,10 +2459,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
             projects: '/api/integrations/linear/projects'
           }
         },
+        servicenow: {
+          embedUrl: null, // Don't embed external ServiceNow - use custom interface
+          features: ['incidents', 'knowledge-base'],
+          apiEndpoints: {
+            tickets: '/api/integrations/servicenow/tickets',
+            create: '/api/integrations/servicenow/tickets'
+          },
+          customInterface: true // Flag to show custom interface instead of iframe
+        },
         jira: {
           embedUrl: null, // Don't embed external Jira - use custom interface
           features: ['issues', 'projects', 'workflows', 'reporting'],
           apiEndpoints: {
+            sites: '/api/integrations/jira/sites',
             issues: '/api/integrations/jira/issues',
             projects: '/api/integrations/jira/projects',
             create: '/api/integrations/jira/issues'
@@ -1071,25 +2494,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Jira integration endpoints
-  app.get('/api/integrations/jira/projects', async (req, res) => {
+  app.get('/api/integrations/jira/sites', requirePermission('integrations:use'), async (req, res) => {
     try {
-      // Get Jira data source with OAuth config
-      const dataSources = await storage.getDataSources();
-      const jiraDataSource = dataSources.find(ds => ds.type === 'jira' && ds.isActive);
-      
-      if (!jiraDataSource || !jiraDataSource.oauthConfig) {
-        return res.status(401).json({ message: 'Jira not connected or configured' });
-      }
+      const sites = (await storage.getDataSources())
+        .filter(ds => ds.type === 'jira')
+        .map(ds => ({
+          dataSourceId: ds.id,
+          siteId: jiraSiteOf(ds).site_id ?? null,
+          name: jiraSiteOf(ds).site_name ?? ds.name,
+          url: ds.baseUrl,
+          isActive: ds.isActive,
+          needsReauth: ds.needsReauth,
+        }));
+      res.json(sites);
+    } catch (error) {
+      console.error('Error fetching Jira sites:', error);
+      res.status(500).json({ message: 'Failed to fetch sites' });
+    }
+  });
+
+  app.get('/api/integrations/jira/projects', requirePermission('integrations:use'), async (req, res) => {
+    try {
+      const jiraDataSource = await findJiraDataSource(req, res);
+      if (!jiraDataSource) return;
 
-      const { access_token, site_url } = jiraDataSource.oauthConfig;
-      
       // Fetch projects from Jira
-      const response = await fetch(`${site_url}/rest/api/3/project`, {
-        headers: {
-          'Authorization': `Bearer ${access_token}`,
-          'Accept': 'application/json',
-        },
-      });
+      const response = await fetchJira(jiraDataSource, '/rest/api/3/project');
 
       if (!response.ok) {
         throw new Error(`Jira API error: ${response.status}`);
@@ -1098,22 +2528,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const projects = await response.json();
       res.json(projects);
     } catch (error) {
+      if (error instanceof ReauthRequiredError) {
+        return res.status(401).json({ message: 'Jira authorization expired, reconnect Jira' });
+      }
       console.error('Error fetching Jira projects:', error);
       res.status(500).json({ message: 'Failed to fetch projects' });
     }
   });
 
-  app.get('/api/integrations/jira/issues', async (req, res) => {
+  app.get('/api/integrations/jira/issues', requirePermission('integrations:use'), async (req, res) => {
     try {
-      // Get Jira data source with OAuth config
-      const dataSources = await storage.getDataSources();
-      const jiraDataSource = dataSources.find(ds => ds.type === 'jira' && ds.isActive);
-      
-      if (!jiraDataSource || !jiraDataSource.oauthConfig) {
-        return res.status(401).json({ message: 'Jira not connected or configured' });
-      }
+      const jiraDataSource = await findJiraDataSource(req, res);
+      if (!jiraDataSource) return;
 
-      const { access_token, site_url } = jiraDataSource.oauthConfig;
       const { project, status } = req.query;
       
       // Build JQL query
@@ -1132,13 +2559,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Fetch issues from Jira
-      const response = await fetch(`${site_url}/rest/api/3/search`, {
+      const response = await fetchJira(jiraDataSource, '/rest/api/3/search', {
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${access_token}`,
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
         body: JSON.stringify({
           jql,
           maxResults: 100,
@@ -1190,22 +2612,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(issues);
     } catch (error) {
+      if (error instanceof ReauthRequiredError) {
+        return res.status(401).json({ message: 'Jira authorization expired, reconnect Jira' });
+      }
       console.error('Error fetching Jira issues:', error);
       res.status(500).json({ message: 'Failed to fetch issues' });
     }
   });
 
-  app.post('/api/integrations/jira/issues', async (req, res) => {
+  app.post('/api/integrations/jira/issues', requirePermission('integrations:use'), async (req, res) => {
     try {
-      // Get Jira data source with OAuth config
-      const dataSources = await storage.getDataSources();
-      const jiraDataSource = dataSources.find(ds => ds.type === 'jira' && ds.isActive);
-      
-      if (!jiraDataSource || !jiraDataSource.oauthConfig) {
-        return res.status(401).json({ message: 'Jira not connected or configured' });
-      }
+      const jiraDataSource = await findJiraDataSource(req, res);
+      if (!jiraDataSource) return;
 
-      const { access_token, site_url } = jiraDataSource.oauthConfig;
       const { summary, description, priority, issueType, projectKey } = req.body;
       
       if (!summary || !projectKey) {
@@ -1239,13 +2658,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       };
 
-      const response = await fetch(`${site_url}/rest/api/3/issue`, {
+      const response = await fetchJira(jiraDataSource, '/rest/api/3/issue', {
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${access_token}`,
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
         body: JSON.stringify(issueData),
       });
 
@@ -1256,20 +2670,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const createdIssue = await response.json();
+      await recordAuditEvent(req, {
+        action: 'incident.jira_issue.create',
+        targetType: 'jira_issue',
+        targetId: createdIssue.key,
+        after: { summary, priority: priority || 'Medium', issueType: issueType || 'Task', projectKey },
+      });
       
       res.json({
         id: createdIssue.id,
         key: createdIssue.key,
-        url: `${site_url}/browse/${createdIssue.key}`
+        url: `${jiraDataSource.baseUrl}/browse/${createdIssue.key}`
       });
     } catch (error) {
+      if (error instanceof ReauthRequiredError) {
+        return res.status(401).json({ message: 'Jira authorization expired, reconnect Jira' });
+      }
       console.error('Error creating Jira issue:', error);
       res.status(500).json({ message: 'Failed to create issue' });
     }
   });
 
+  // ServiceNow integration endpoints
+  app.get('/api/integrations/servicenow/tickets', requirePermission('integrations:use'), async (req, res) => {
+    const { status } = req.query;
+    const statuses: ServiceNowTicketStatus[] = ['new', 'in_progress', 'on_hold', 'resolved', 'closed'];
+    if (status && status !== 'all' && !statuses.includes(status as ServiceNowTicketStatus)) {
+      return res.status(400).json({ message: `status must be one of ${statuses.join(', ')}` });
+    }
+
+    try {
+      const connector = await findServiceNowConnector(req, res);
+      if (!connector) return;
+
+      res.json(await connector.listTickets(status && status !== 'all' ? status as ServiceNowTicketStatus : undefined));
+    } catch (error) {
+      sendServiceNowError(res, error, 'list tickets');
+    }
+  });
+
+  app.post('/api/integrations/servicenow/tickets', requirePermission('integrations:use'), async (req, res) => {
+    const parsed = serviceNowTicketSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid ticket', errors: parsed.error.errors });
+    }
+
+    try {
+      const connector = await findServiceNowConnector(req, res);
+      if (!connector) return;
+
+      const ticket = await connector.createTicket(parsed.data);
+      await recordAuditEvent(req, {
+        action: 'incident.servicenow_ticket.create',
+        targetType: 'servicenow_ticket',
+        targetId: ticket.number,
+        after: { title: parsed.data.title, priority: parsed.data.priority, category: parsed.data.category },
+      });
+      res.status(201).json(ticket);
+    } catch (error) {
+      sendServiceNowError(res, error, 'create the ticket');
+    }
+  });
+
+  app.put('/api/integrations/servicenow/tickets/:id', requirePermission('integrations:use'), async (req, res) => {
+    const parsed = serviceNowTicketUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid ticket update', errors: parsed.error.errors });
+    }
+
+    try {
+      const connector = await findServiceNowConnector(req, res);
+      if (!connector) return;
+
+      const ticket = await connector.updateTicket(req.params.id, parsed.data);
+      if (!ticket) {
+        return res.status(404).json({ message: 'Ticket not found' });
+      }
+      await recordAuditEvent(req, {
+        action: 'incident.servicenow_ticket.update',
+        targetType: 'servicenow_ticket',
+        targetId: ticket.number,
+        // Comments and notes go to the ticket's journal, not the audit log
+        after: { ...parsed.data, comment: undefined, workNote: undefined },
+      });
+      res.json(ticket);
+    } catch (error) {
+      sendServiceNowError(res, error, 'update the ticket');
+    }
+  });
+
   // Notifications endpoint
-  app.get('/api/notifications', async (req, res) => {
+  app.get('/api/notifications', isAuthenticated, async (req, res) => {
     try {
       // Mock notifications data
       const notifications = [
@@ -1306,7 +2797,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Integration API endpoints (mock data for embedded apps)
   // Slack integration endpoints
-  app.get('/api/integrations/slack/channels', async (req, res) => {
+  app.get('/api/integrations/slack/channels', requirePermission('integrations:use'), async (req, res) => {
     try {
       const channels = await slackService.getChannels();
       res.json(channels);
@@ -1316,7 +2807,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/integrations/slack/messages/:channelId', async (req, res) => {
+  app.get('/api/integrations/slack/messages/:channelId', requirePermission('integrations:use'), async (req, res) => {
     try {
       const { channelId } = req.params;
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
@@ -1328,7 +2819,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/integrations/slack/message', async (req, res) => {
+  app.post('/api/integrations/slack/message', requirePermission('integrations:use'), async (req, res) => {
     try {
       const { channel, text } = req.body;
       const result = await slackService.sendMessage(channel, text);
@@ -1339,7 +2830,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/integrations/slack/direct-messages', async (req, res) => {
+  app.get('/api/integrations/slack/direct-messages', requirePermission('integrations:use'), async (req, res) => {
     try {
       const dms = await slackService.getDirectMessages();
       res.json(dms);
@@ -1349,7 +2840,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/integrations/slack/workspace', async (req, res) => {
+  app.get('/api/integrations/slack/workspace', requirePermission('integrations:use'), async (req, res) => {
     try {
       const workspaceInfo = await slackService.getWorkspaceInfo();
       res.json(workspaceInfo);
@@ -1359,10 +2850,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/integrations/slack/incident-notification', async (req, res) => {
+  app.post('/api/integrations/slack/incident-notification', requirePermission('integrations:use'), async (req, res) => {
     try {
       const { channelId, incident } = req.body;
       const result = await slackService.sendIncidentNotification(channelId, incident);
+      await recordAuditEvent(req, {
+        action: 'incident.slack_notification.send',
+        targetType: 'incident',
+        targetId: incident?.id ? String(incident.id) : null,
+        metadata: { channelId },
+      });
       res.json({ success: true, result });
     } catch (error) {
       console.error('Error sending incident notification:', error);
@@ -1370,7 +2867,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/integrations/slack/status', async (req, res) => {
+  app.get('/api/integrations/slack/status', requirePermission('systems:view'), async (req, res) => {
     try {
       const isConnected = await slackService.testConnection();
       const workspace = slackService.getWorkspace();
@@ -1388,9 +2885,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Google Meet Authentication Routes
-  app.get('/api/auth/google/login', async (req, res) => {
+  app.get('/api/auth/google/login', requirePermission('meetings:manage'), async (req, res) => {
     try {
-      const authUrl = googleMeetService.getAuthUrl();
+      const { state, codeChallenge } = issueOAuthState(req, 'google', true);
+      const authUrl = googleMeetService.getAuthUrl(state, codeChallenge);
       res.json({ authUrl, redirectUri: `${req.protocol}://${req.get('host')}/api/auth/google/callback` });
     } catch (error) {
       console.error('Error generating Google auth URL:', error);
@@ -1398,27 +2896,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/auth/google/callback', async (req, res) => {
+  app.post('/api/auth/google/callback', requirePermission('meetings:manage'), async (req, res) => {
     try {
-      const { code, userId } = req.body;
+      const { code, state } = req.body;
       
       if (!code) {
         return res.status(400).json({ message: 'Authorization code is required' });
       }
 
-      // For demo purposes, use a mock userId. In production, get from authenticated session
-      const mockUserId = userId || `user_${Date.now()}`;
+      const pending = consumeOAuthState(req, 'google', state);
+      if (!pending) {
+        return res.status(400).json({ message: 'Invalid or expired authorization state' });
+      }
 
-      const tokenData = await googleMeetService.exchangeCodeForTokens(code);
-      await googleMeetService.storeUserTokens(mockUserId, {
-        userId: mockUserId,
+      // Tokens belong to whoever completed the sign-in
+      const userId = req.currentUser!.id;
+      const tokenData = await googleMeetService.exchangeCodeForTokens(code, pending.codeVerifier);
+      await googleMeetService.storeUserTokens(userId, {
+        userId,
         ...tokenData
       });
 
       res.json({ 
         success: true, 
         message: 'Successfully authenticated with Google',
-        userId: mockUserId
+        userId
       });
     } catch (error) {
       console.error('Error handling Google auth callback:', error);
@@ -1426,9 +2928,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/auth/google/status/:userId', async (req, res) => {
+  app.get('/api/auth/google/status', requirePermission('integrations:use'), async (req, res) => {
     try {
-      const { userId } = req.params;
+      const userId = req.currentUser!.id;
       const tokens = await googleMeetService.getUserTokens(userId);
       
       res.json({
@@ -1443,7 +2945,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Google Meet Management Routes
-  app.post('/api/googlemeet/meetings', async (req, res) => {
+  app.post('/api/googlemeet/meetings', requirePermission('meetings:manage'), async (req, res) => {
     try {
       // Convert datetime strings to Date objects before validation
       const rawData = req.body;
@@ -1461,10 +2963,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         metadata: true
       }).parse(processedData);
       
-      // For demo purposes, use a mock userId. In production, get from authenticated session
-      const userId = rawData.userId || `user_${Date.now()}`;
-
-      const meeting = await googleMeetService.createMeeting(userId, {
+      // Meetings are created with the caller's own Google tokens
+      const meeting = await googleMeetService.createMeeting(req.currentUser!.id, {
         title: meetingData.title,
         description: meetingData.description || undefined,
         startTime: meetingData.startTime,
@@ -1484,7 +2984,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/googlemeet/meetings/:userId', async (req, res) => {
+  app.get('/api/googlemeet/meetings/:userId', requirePermission('integrations:use'), async (req, res) => {
     try {
       const { userId } = req.params;
       const limit = parseInt(req.query.limit as string) || 10;
@@ -1497,7 +2997,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/googlemeet/meetings/meeting/:id', async (req, res) => {
+  app.get('/api/googlemeet/meetings/meeting/:id', requirePermission('integrations:use'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const meeting = await storage.getGoogleMeeting(id);
@@ -1513,7 +3013,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/googlemeet/meetings/:id', async (req, res) => {
+  app.put('/api/googlemeet/meetings/:id', requirePermission('meetings:manage'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const { userId, ...updates } = req.body;
@@ -1535,7 +3035,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/googlemeet/meetings/:id', async (req, res) => {
+  app.delete('/api/googlemeet/meetings/:id', requirePermission('meetings:manage'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const { userId } = req.body;
@@ -1551,7 +3051,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/integrations/googlemeet/meetings', async (req, res) => {
+  app.get('/api/integrations/googlemeet/meetings', requirePermission('integrations:use'), async (req, res) => {
     res.json([
       {
         id: 'GM1',
@@ -1574,7 +3074,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     ]);
   });
 
-  app.post('/api/integrations/googlemeet/create', async (req, res) => {
+  app.post('/api/integrations/googlemeet/create', requirePermission('meetings:manage'), async (req, res) => {
     const { title, startTime, endTime, description } = req.body;
     console.log(`Mock Google Meet created: ${title} from ${startTime} to ${endTime}`);
     res.json({
@@ -1590,34 +3090,138 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  app.get('/api/integrations/zendesk/tickets', async (req, res) => {
-    res.json([
-      {
-        id: 12345,
-        subject: 'Login issues with mobile app',
-        status: 'open',
-        priority: 'high',
-        requester: 'John Smith',
-        assignee: 'Support Team',
-        tags: ['mobile', 'authentication']
-      },
-      {
-        id: 12346,
-        subject: 'Feature request: Dark mode',
-        status: 'pending',
-        priority: 'low',
-        requester: 'Sarah Johnson',
-        assignee: 'Development Team',
-        tags: ['feature', 'ui']
+  // Zendesk tickets are served from the last sync; writes go to Zendesk and store what it returns
+  app.get('/api/integrations/zendesk/tickets', requirePermission('integrations:use'), async (req, res) => {
+    const { status } = req.query;
+    const statuses: ZendeskTicketStatus[] = ['new', 'open', 'pending', 'hold', 'solved', 'closed'];
+    if (status && status !== 'all' && !statuses.includes(status as ZendeskTicketStatus)) {
+      return res.status(400).json({ message: `status must be one of ${statuses.join(', ')}` });
+    }
+
+    try {
+      const dataSource = await findZendeskDataSource(req, res);
+      if (!dataSource) return;
+
+      const tickets = await storage.getSupportTickets(dataSource.id, status && status !== 'all' ? status as string : undefined);
+      res.json(await withLinkedIncidents(tickets.filter(ticket => ticket.status !== 'deleted')));
+    } catch (error) {
+      console.error('Error fetching Zendesk tickets:', error);
+      res.status(500).json({ message: 'Failed to fetch tickets' });
+    }
+  });
+
+  app.post('/api/integrations/zendesk/tickets', requirePermission('integrations:use'), async (req, res) => {
+    const parsed = zendeskTicketSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid ticket', errors: parsed.error.errors });
+    }
+
+    try {
+      const dataSource = await findZendeskDataSource(req, res);
+      if (!dataSource) return;
+
+      const connector = createConnector(dataSource) as ZendeskConnector;
+      const created = await connector.createTicket(parsed.data);
+      const ticket = await storage.upsertSupportTicketByExternalId(created.externalId, dataSource.id, created);
+      await recordAuditEvent(req, {
+        action: 'incident.zendesk_ticket.create',
+        targetType: 'zendesk_ticket',
+        targetId: ticket.externalId,
+        after: { subject: parsed.data.subject, priority: parsed.data.priority, type: parsed.data.type },
+      });
+      res.status(201).json((await withLinkedIncidents([ticket]))[0]);
+    } catch (error) {
+      sendZendeskError(res, error, 'create the ticket');
+    }
+  });
+
+  app.put('/api/integrations/zendesk/tickets/:id', requirePermission('integrations:use'), async (req, res) => {
+    const parsed = zendeskTicketUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid ticket update', errors: parsed.error.errors });
+    }
+
+    try {
+      const found = await findZendeskTicket(req, res);
+      if (!found) return;
+
+      const updated = await found.connector.updateTicket(found.ticket.externalId, parsed.data);
+      const ticket = await storage.upsertSupportTicketByExternalId(updated.externalId, found.ticket.dataSourceId, updated);
+      await recordAuditEvent(req, {
+        action: 'incident.zendesk_ticket.update',
+        targetType: 'zendesk_ticket',
+        targetId: ticket.externalId,
+        before: { status: found.ticket.status, priority: found.ticket.priority },
+        after: parsed.data,
+      });
+      res.json((await withLinkedIncidents([ticket]))[0]);
+    } catch (error) {
+      sendZendeskError(res, error, 'update the ticket');
+    }
+  });
+
+  app.post('/api/integrations/zendesk/tickets/:id/comments', requirePermission('integrations:use'), async (req, res) => {
+    const parsed = zendeskCommentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid comment', errors: parsed.error.errors });
+    }
+
+    try {
+      const found = await findZendeskTicket(req, res);
+      if (!found) return;
+
+      const updated = await found.connector.addComment(found.ticket.externalId, parsed.data);
+      const ticket = await storage.upsertSupportTicketByExternalId(updated.externalId, found.ticket.dataSourceId, updated);
+      // The comment itself lives on the ticket, not in the audit log
+      await recordAuditEvent(req, {
+        action: 'incident.zendesk_ticket.comment',
+        targetType: 'zendesk_ticket',
+        targetId: ticket.externalId,
+        metadata: { public: parsed.data.public },
+      });
+      res.status(201).json((await withLinkedIncidents([ticket]))[0]);
+    } catch (error) {
+      sendZendeskError(res, error, 'add the comment');
+    }
+  });
+
+  // Link a ticket to the incident it reports, or unlink it with `incidentId: null`
+  app.put('/api/integrations/zendesk/tickets/:id/incident', requirePermission('integrations:use'), async (req, res) => {
+    const parsed = z.object({ incidentId: z.number().int().positive().nullable() }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'incidentId must be an incident id or null', errors: parsed.error.errors });
+    }
+
+    try {
+      const ticket = await storage.getSupportTicket(parseInt(req.params.id));
+      if (!ticket) {
+        return res.status(404).json({ message: 'Ticket not found' });
       }
-    ]);
+      const { incidentId } = parsed.data;
+      if (incidentId !== null && !(await storage.getIncident(incidentId))) {
+        return res.status(404).json({ message: 'Incident not found' });
+      }
+
+      const linked = await storage.linkSupportTicket(ticket.id, incidentId);
+      await recordAuditEvent(req, {
+        action: incidentId === null ? 'incident.zendesk_ticket.unlink' : 'incident.zendesk_ticket.link',
+        targetType: 'zendesk_ticket',
+        targetId: ticket.externalId,
+        before: { incidentId: ticket.incidentId },
+        after: { incidentId },
+      });
+      res.json((await withLinkedIncidents([linked!]))[0]);
+    } catch (error) {
+      console.error('Error linking Zendesk ticket:', error);
+      res.status(500).json({ message: 'Failed to link ticket' });
+    }
   });
 
   // Trigger manual sync of all data sources
-  app.post('/api/sync/all', async (req, res) => {
+  app.post('/api/sync/all', requirePermission('data_sources:sync'), async (req, res) => {
     try {
       // Run sync in background
-      syncService.syncAllDataSources().catch(error => {
+      syncScheduler.syncAllNow().catch(error => {
         console.error('Background sync failed:', error);
       });
       
@@ -1788,6 +3392,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Start the sync scheduler
   await syncScheduler.start();
+  startAuditRetention();
 
   // WebSocket server for real-time updates
   const wss = new WebSocketServer({ 
@@ -1843,10 +3448,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Tell connected clients when a failing data source is paused or recovers
+  const broadcastCircuitEvent = (type: string) => ({ dataSource, error }: DataSourceCircuitEvent) => {
+    wss.clients.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(JSON.stringify({
+          type,
+          data: { dataSourceId: dataSource.id, name: dataSource.name, error, timestamp: new Date() }
+        }));
+      }
+    });
+  };
+  syncScheduler.on('circuit_open', broadcastCircuitEvent('data_source_circuit_open'));
+  syncScheduler.on('circuit_closed', broadcastCircuitEvent('data_source_recovered'));
+
+  // Push status, severity, impact and affected-service changes detected by a sync
+  syncService.on('incident_transition', (event: IncidentTransitionEvent) => {
+    wss.clients.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(JSON.stringify({ type: 'incident_transition', data: event }));
+      }
+    });
+  });
+
   // Graceful shutdown
   process.on('SIGTERM', () => {
     console.log('Received SIGTERM, shutting down gracefully...');
     syncScheduler.stop();
+    stopAuditRetention();
     wss.close(() => {
       console.log('WebSocket server closed');
     });
@@ -1855,6 +3484,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   process.on('SIGINT', () => {
     console.log('Received SIGINT, shutting down gracefully...');
     syncScheduler.stop();
+    stopAuditRetention();
     wss.close(() => {
       console.log('WebSocket server closed');
     });
@@ -1,9 +1,65 @@
-import { syncService } from './connectors';
+import { EventEmitter } from 'events';
+import { syncService, type SyncRunStats, type PushedIncident } from './connectors';
+import { hasCapability } from './connectorRegistry';
 import { storage } from './storage';
+import { getEffectiveRole } from './auth';
+import { hasPermission } from '@shared/permissions';
+import type { DataSource, SyncRun, SyncTrigger } from '@shared/schema';
 
-export class SyncScheduler {
-  private syncInterval: NodeJS.Timeout | null = null;
-  private readonly defaultInterval = 5 * 60 * 1000; // 5 minutes
+const TICK_INTERVAL = 15 * 1000; // how often due sources are looked for
+const DEFAULT_SYNC_INTERVAL = 300; // seconds, for sources without a syncInterval
+const MAX_CONCURRENT_SYNCS = 3;
+const JITTER_RATIO = 0.1; // spread next runs by ±10% so sources drift apart
+const MAX_BACKOFF = 60 * 60 * 1000; // failing sources are retried at least hourly
+const CIRCUIT_BREAKER_THRESHOLD = 5; // consecutive failures before a source is paused
+const CIRCUIT_COOLDOWN = 30 * 60 * 1000; // pause before a tripped source is probed again
+const SYNC_RUN_HISTORY = 200; // runs kept per source
+
+export type DataSourceSyncState = 'healthy' | 'backing_off' | 'circuit_open' | 'needs_reauth';
+
+export interface SyncOutcome {
+  status: 'succeeded' | 'failed';
+  stats?: SyncRunStats;
+  error?: string;
+}
+
+export interface DataSourceCircuitEvent {
+  dataSource: DataSource;
+  error?: string;
+}
+
+export function getSyncState(dataSource: DataSource): DataSourceSyncState {
+  if (dataSource.needsReauth) return 'needs_reauth';
+  if (dataSource.circuitOpenedAt) return 'circuit_open';
+  return (dataSource.retryCount || 0) > 0 ? 'backing_off' : 'healthy';
+}
+
+// Push-only sources only ever receive webhooks, so there is nothing to poll
+function isPolled(dataSource: DataSource): boolean {
+  return hasCapability(dataSource.type, 'incidents') || hasCapability(dataSource.type, 'components');
+}
+
+function dueAt(dataSource: DataSource): number {
+  // Sources that have never been scheduled are due straight away
+  return dataSource.nextSyncAt ? new Date(dataSource.nextSyncAt).getTime() : 0;
+}
+
+/**
+ * Runs each data source on its own `syncInterval`. Due times live in
+ * `nextSyncAt`, so the schedule carries over a restart, and every sync runs
+ * independently so a slow source only ever holds one of the concurrency slots.
+ *
+ * Failing sources back off exponentially on `retryCount`. After
+ * CIRCUIT_BREAKER_THRESHOLD consecutive failures the circuit opens and the
+ * source is only probed once per cooldown until a sync succeeds again.
+ * Emits `circuit_open` and `circuit_closed` with a DataSourceCircuitEvent.
+ * Sources whose OAuth grant was revoked (`needsReauth`) are left alone until
+ * they are reconnected.
+ */
+export class SyncScheduler extends EventEmitter {
+  private tickTimer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private readonly running = new Map<number, Promise<SyncOutcome>>();
 
   async start(): Promise<void> {
     console.log('Starting sync scheduler...');
@@ -11,29 +67,179 @@ export class SyncScheduler {
     // Initialize default data sources if none exist
     await this.initializeDefaultDataSources();
     
-    // Run initial sync
-    await syncService.syncAllDataSources();
+    this.tick();
+    this.tickTimer = setInterval(() => this.tick(), TICK_INTERVAL);
     
-    // Schedule periodic syncs
-    this.syncInterval = setInterval(async () => {
-      try {
-        await syncService.syncAllDataSources();
-      } catch (error) {
-        console.error('Scheduled sync failed:', error);
-      }
-    }, this.defaultInterval);
-    
-    console.log(`Sync scheduler started with ${this.defaultInterval / 1000}s interval`);
+    console.log(`Sync scheduler started, checking for due sources every ${TICK_INTERVAL / 1000}s (max ${MAX_CONCURRENT_SYNCS} concurrent)`);
   }
 
   stop(): void {
-    if (this.syncInterval) {
-      clearInterval(this.syncInterval);
-      this.syncInterval = null;
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
       console.log('Sync scheduler stopped');
     }
   }
 
+  /**
+   * Sync one source immediately, outside its schedule and the concurrency cap.
+   * Joins the run already in progress if there is one, and resolves with how
+   * that run ended.
+   */
+  syncNow(dataSource: DataSource, trigger: SyncTrigger = 'manual'): Promise<SyncOutcome> {
+    return this.running.get(dataSource.id) ?? this.launch(dataSource, trigger);
+  }
+
+  /** Sync every active source immediately and wait for all of them. */
+  async syncAllNow(): Promise<void> {
+    const dataSources = await storage.getDataSources();
+    await Promise.all(dataSources.filter(ds => ds.isActive && !ds.needsReauth && isPolled(ds)).map(ds => this.syncNow(ds)));
+  }
+
+  /**
+   * Store incidents pushed to a source's webhook, recorded as a 'webhook'
+   * run. The polling schedule and failure backoff are left alone.
+   */
+  async ingest(dataSource: DataSource, pushed: PushedIncident[]): Promise<SyncRunStats> {
+    const startedAt = new Date();
+    const syncRun = await this.recordRunStart(dataSource, 'webhook', startedAt);
+
+    try {
+      const stats = await syncService.ingestIncidents(dataSource, pushed);
+      if (syncRun) await this.recordRunEnd(syncRun, startedAt, stats, undefined);
+      return stats;
+    } catch (err) {
+      if (syncRun) await this.recordRunEnd(syncRun, startedAt, undefined, err instanceof Error ? err.message : String(err));
+      throw err;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = Date.now();
+      const dueSources = (await storage.getDataSources())
+        .filter(ds => ds.isActive && !ds.needsReauth && isPolled(ds) && !this.running.has(ds.id) && dueAt(ds) <= now)
+        .sort((a, b) => dueAt(a) - dueAt(b));
+
+      for (const dataSource of dueSources) {
+        if (this.running.size >= MAX_CONCURRENT_SYNCS) break;
+        this.launch(dataSource, 'schedule');
+      }
+    } catch (error) {
+      console.error('Scheduled sync failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private launch(dataSource: DataSource, trigger: SyncTrigger): Promise<SyncOutcome> {
+    const run = this.runSync(dataSource, trigger).finally(() => {
+      this.running.delete(dataSource.id);
+      // Hand the freed slot to the next due source without waiting for the timer
+      if (this.tickTimer) this.tick();
+    });
+    this.running.set(dataSource.id, run);
+    return run;
+  }
+
+  private async runSync(dataSource: DataSource, trigger: SyncTrigger): Promise<SyncOutcome> {
+    const startedAt = new Date();
+    const syncRun = await this.recordRunStart(dataSource, trigger, startedAt);
+    let stats: SyncRunStats | undefined;
+    let error: string | undefined;
+
+    try {
+      stats = await syncService.syncDataSource(dataSource);
+      console.log(`Synced ${dataSource.name} (${trigger}): ${stats.incidentsCreated} new, ${stats.incidentsUpdated} updated, ${stats.incidentsUnchanged} unchanged, ${stats.incidentsResolved} reconciled incidents, ${stats.updatesCreated} timeline updates, ${stats.componentsSynced} components, ${stats.solutionsSynced} solutions, ${stats.ticketsSynced} tickets`);
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      console.error(`Failed to sync data source ${dataSource.name}: ${error}`);
+    }
+
+    if (syncRun) {
+      await this.recordRunEnd(syncRun, startedAt, stats, error);
+    }
+
+    try {
+      const retryCount = error ? (dataSource.retryCount || 0) + 1 : 0;
+      const tripped = retryCount >= CIRCUIT_BREAKER_THRESHOLD;
+
+      await storage.updateDataSourceSyncTime(dataSource.id, error, this.nextSyncTime(dataSource, retryCount, tripped));
+
+      if (tripped && !dataSource.circuitOpenedAt) {
+        const updated = await storage.updateDataSource(dataSource.id, { circuitOpenedAt: new Date() });
+        console.warn(`Paused data source ${dataSource.name} after ${retryCount} consecutive failures`);
+        await this.announce('circuit_open', { dataSource: updated, error });
+      } else if (!error && dataSource.circuitOpenedAt) {
+        const updated = await storage.updateDataSource(dataSource.id, { circuitOpenedAt: null });
+        console.log(`Data source ${dataSource.name} recovered, resuming its schedule`);
+        await this.announce('circuit_closed', { dataSource: updated });
+      }
+    } catch (err) {
+      console.error(`Failed to record sync of data source ${dataSource.name}:`, err);
+    }
+
+    return error ? { status: 'failed', error } : { status: 'succeeded', stats };
+  }
+
+  private async recordRunStart(dataSource: DataSource, trigger: SyncTrigger, startedAt: Date): Promise<SyncRun | null> {
+    try {
+      return await storage.createSyncRun({ dataSourceId: dataSource.id, trigger, status: 'running', startedAt });
+    } catch (err) {
+      // Losing the history entry is no reason to skip the sync itself
+      console.error(`Failed to record sync run for ${dataSource.name}:`, err);
+      return null;
+    }
+  }
+
+  private async recordRunEnd(syncRun: SyncRun, startedAt: Date, stats: SyncRunStats | undefined, error: string | undefined): Promise<void> {
+    try {
+      const finishedAt = new Date();
+      await storage.updateSyncRun(syncRun.id, {
+        ...stats,
+        status: error ? 'failed' : 'succeeded',
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        error: error ?? null,
+      });
+      await storage.pruneSyncRuns(syncRun.dataSourceId, SYNC_RUN_HISTORY);
+    } catch (err) {
+      console.error(`Failed to finish sync run ${syncRun.id}:`, err);
+    }
+  }
+
+  private nextSyncTime(dataSource: DataSource, retryCount: number, tripped: boolean): Date {
+    const intervalMs = (dataSource.syncInterval || DEFAULT_SYNC_INTERVAL) * 1000;
+    const delay = tripped
+      ? CIRCUIT_COOLDOWN
+      : retryCount > 0 ? Math.min(intervalMs * 2 ** retryCount, MAX_BACKOFF) : intervalMs;
+    const jitter = (Math.random() * 2 - 1) * JITTER_RATIO * delay;
+    return new Date(Date.now() + delay + jitter);
+  }
+
+  private async announce(event: 'circuit_open' | 'circuit_closed', payload: DataSourceCircuitEvent): Promise<void> {
+    this.emit(event, payload);
+
+    const { dataSource, error } = payload;
+    const title = event === 'circuit_open'
+      ? `Data source ${dataSource.name} paused after repeated sync failures`
+      : `Data source ${dataSource.name} recovered`;
+    const recipients = (await storage.getUsers())
+      .filter(user => user.isActive !== false && !user.isServiceAccount && hasPermission(getEffectiveRole(user), 'data_sources:manage'));
+
+    for (const user of recipients) {
+      await storage.createNotification({
+        userId: user.id,
+        type: `data_source_${event}`,
+        title,
+        content: { dataSourceId: dataSource.id, error: error ?? null },
+      });
+    }
+  }
+
   private async initializeDefaultDataSources(): Promise<void> {
     try {
       const existingSources = await storage.getDataSources();
@@ -45,7 +251,7 @@ export class SyncScheduler {
           {
             name: 'GitHub Status',
             type: 'github-status',
-            baseUrl: 'https://kctbh9vrtdwd.statuspage.io',
+            baseUrl: 'https://www.githubstatus.com',
             syncInterval: 300, // 5 minutes
             isActive: true,
             metadata: {
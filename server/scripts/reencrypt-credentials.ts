@@ -0,0 +1,20 @@
+/**
+ * Re-encrypt every stored integration credential with the current master key.
+ *
+ * Rotation: set CREDENTIALS_ENCRYPTION_KEY to the new key, move the old key to
+ * CREDENTIALS_ENCRYPTION_PREVIOUS_KEYS, run `npm run credentials:reencrypt`,
+ * then drop the old key once this reports nothing left to re-encrypt.
+ */
+import { storage } from '../storage';
+
+async function main() {
+  const counts = await storage.reencryptCredentials();
+  console.log('Re-encrypted credentials:', counts);
+}
+
+main()
+  .then(() => process.exit(0)) // exit flushes the file-backed storage
+  .catch((error) => {
+    console.error('Failed to re-encrypt credentials:', error);
+    process.exit(1);
+  });
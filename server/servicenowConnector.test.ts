@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ServiceNowConnector } from './servicenowConnector';
+import { makeIncident, withFakeConnector, type FakeRoute, type FakeServer } from './testHelpers';
+
+const SYS_ID = '9d385017c611228701d22104cc95c371';
+
+function withServiceNow(
+  run: (connector: ServiceNowConnector, server: FakeServer) => Promise<void>,
+  incidents: FakeRoute = () => ({ result: [{ sys_id: SYS_ID }] }),
+) {
+  return withFakeConnector(
+    {
+      'GET /api/now/table/incident': incidents,
+      'GET /api/now/table/sys_journal_field': () => ({ result: [] }),
+    },
+    { id: 6, type: 'servicenow', apiKey: 'sn-password', metadata: { username: 'querylinker' } },
+    dataSource => new ServiceNowConnector({ dataSource }),
+    run,
+  );
+}
+
+test('ids that would extend an encoded query are not looked up', async () => {
+  await withServiceNow(async (connector, server) => {
+    assert.equal(await connector.updateTicket('INC0010001^ORnumberISNOTEMPTY', { comment: 'hi' }), null);
+    assert.deepEqual(await connector.fetchIncidentUpdates(makeIncident({ externalId: `${SYS_ID}^ORelement_idISNOTEMPTY` })), []);
+    assert.equal(server.requests.length, 0);
+  });
+});
+
+test('incident numbers are resolved to their sys_id', async () => {
+  await withServiceNow(async (connector, server) => {
+    // The patch itself is not served, which the connector reads as no such incident
+    await connector.updateTicket('INC0010001', { comment: 'hi' });
+
+    const lookup = new URL(server.requests[0].url, server.url);
+    assert.equal(lookup.searchParams.get('sysparm_query'), 'number=INC0010001');
+    assert.equal(server.requests[1].method, 'PATCH');
+    assert.match(server.requests[1].url, new RegExp(`/incident/${SYS_ID}`));
+  });
+});
+
+test('an incident listing that fills every page is reported as truncated', async () => {
+  const fullPage = () => ({ result: Array.from({ length: 100 }, () => ({ sys_id: SYS_ID, state: '2' })) });
+
+  await withServiceNow(async (connector, server) => {
+    const incidents = await connector.fetchIncidents();
+
+    assert.equal(server.requests.length, 50);
+    assert.equal(incidents.length, 5000);
+    assert.equal(connector.incidentsTruncated, true);
+  }, fullPage);
+
+  await withServiceNow(async connector => {
+    await connector.fetchIncidents();
+    assert.equal(connector.incidentsTruncated, false);
+  });
+});
@@ -0,0 +1,445 @@
+import axios from 'axios';
+import { z } from 'zod';
+import { BaseConnector, stripHtml, type SolutionListing } from './connectors';
+import { registerConnector } from './connectorRegistry';
+import type {
+  Incident,
+  InsertIncident,
+  InsertIncidentUpdate,
+  InsertServiceComponent,
+  InsertSolution,
+} from '@shared/schema';
+
+/**
+ * ServiceNow through the Table API. Syncs list the active records of the
+ * `incident` table, with their comments and work notes as the timeline, and
+ * import published `kb_knowledge` articles as solutions. The same connector
+ * backs the ticket routes of the ServiceNow panel.
+ *
+ * Sources sign in with a username and password (basic auth), or with the
+ * tokens of an OAuth connection made through /api/auth/servicenow.
+ */
+
+const SERVICENOW_PAGE_SIZE = 100;
+const SERVICENOW_MAX_PAGES = 50;
+const TICKET_LIST_LIMIT = 50;
+
+// Table API values come back as { value, display_value } with sysparm_display_value=all
+type FieldValue = { value: string; display_value: string } | string | null | undefined;
+type TableRecord = Record<string, FieldValue>;
+
+const value = (field: FieldValue): string => (field && typeof field === 'object' ? field.value : field) ?? '';
+const display = (field: FieldValue): string => (field && typeof field === 'object' ? field.display_value : field) ?? '';
+
+// Stored values of date-time fields are UTC in 'YYYY-MM-DD HH:mm:ss'
+const parseDate = (field: FieldValue): Date | null => {
+  const raw = value(field);
+  return raw ? new Date(`${raw.replace(' ', 'T')}Z`) : null;
+};
+
+// Ids interpolated into encoded queries, where `^` would start another condition
+const SYS_ID_PATTERN = /^[0-9a-f]{32}$/i;
+const INCIDENT_NUMBER_PATTERN = /^[A-Z]+\d+$/i;
+
+// Incident states of the default ServiceNow workflow
+const STATE_TO_STATUS: Record<string, string> = {
+  '1': 'investigating', // New
+  '2': 'identified', // In Progress
+  '3': 'monitoring', // On Hold
+  '6': 'resolved', // Resolved
+  '7': 'resolved', // Closed
+  '8': 'resolved', // Canceled
+};
+
+const PRIORITY_TO_SEVERITY: Record<string, string> = {
+  '1': 'critical',
+  '2': 'high',
+  '3': 'medium',
+  '4': 'low',
+  '5': 'low',
+};
+
+const IMPACT_MAP: Record<string, string> = {
+  '1': 'major_outage',
+  '2': 'partial_outage',
+  '3': 'degraded_performance',
+};
+
+export type ServiceNowTicketStatus = 'new' | 'in_progress' | 'on_hold' | 'resolved' | 'closed';
+export type ServiceNowTicketPriority = 'critical' | 'high' | 'medium' | 'low';
+
+const TICKET_STATES: Record<ServiceNowTicketStatus, string> = {
+  new: '1',
+  in_progress: '2',
+  on_hold: '3',
+  resolved: '6',
+  closed: '7',
+};
+
+// ServiceNow derives priority from impact and urgency, so writes set those
+const PRIORITY_FIELDS: Record<ServiceNowTicketPriority, { impact: string; urgency: string }> = {
+  critical: { impact: '1', urgency: '1' },
+  high: { impact: '1', urgency: '2' },
+  medium: { impact: '2', urgency: '2' },
+  low: { impact: '2', urgency: '3' },
+};
+
+// Incidents as the ServiceNow panel and the /servicenow/incidents page show them
+export interface ServiceNowTicket {
+  id: string;
+  number: string;
+  title: string;
+  description: string;
+  status: ServiceNowTicketStatus;
+  statusLabel: string;
+  priority: ServiceNowTicketPriority;
+  severity: ServiceNowTicketPriority;
+  category: string;
+  subcategory: string;
+  assignee: string;
+  reporter: string;
+  createdAt: string | null;
+  updatedAt: string | null;
+  url: string;
+}
+
+// Labels are accepted in any case, so the panel can send what it displays
+const labelOf = <T extends string>(values: readonly T[]) =>
+  z.string().transform(label => label.trim().toLowerCase().replace(/\s+/g, '_')).pipe(z.enum(values as [T, ...T[]]));
+
+const ticketPriority = labelOf<ServiceNowTicketPriority>(['critical', 'high', 'medium', 'low']);
+
+export const serviceNowTicketSchema = z.object({
+  title: z.string().trim().min(1),
+  description: z.string().default(''),
+  priority: ticketPriority.default('medium'),
+  category: z.string().optional(),
+});
+
+export const serviceNowTicketUpdateSchema = z.object({
+  title: z.string().trim().min(1).optional(),
+  description: z.string().optional(),
+  priority: ticketPriority.optional(),
+  category: z.string().optional(),
+  status: labelOf<ServiceNowTicketStatus>(['new', 'in_progress', 'on_hold', 'resolved', 'closed']).optional(),
+  comment: z.string().min(1).optional(), // visible to the caller
+  workNote: z.string().min(1).optional(), // internal
+  resolution: z.string().optional(), // close notes when resolving
+}).refine(updates => Object.values(updates).some(v => v !== undefined), { message: 'Nothing to update' });
+
+export type ServiceNowTicketInput = z.infer<typeof serviceNowTicketSchema>;
+export type ServiceNowTicketUpdate = z.infer<typeof serviceNowTicketUpdateSchema>;
+
+const TICKET_FIELDS = [
+  'sys_id', 'number', 'short_description', 'description', 'state', 'priority', 'impact', 'urgency',
+  'category', 'subcategory', 'assigned_to', 'assignment_group', 'caller_id', 'cmdb_ci',
+  'opened_at', 'resolved_at', 'closed_at', 'sys_updated_on',
+].join(',');
+
+// A listing that filled every page may have stopped short of the end
+const reachedPageCap = (records: unknown[]) => records.length >= SERVICENOW_MAX_PAGES * SERVICENOW_PAGE_SIZE;
+
+export class ServiceNowConnector extends BaseConnector {
+  private truncated = false;
+
+  private get instanceUrl(): string {
+    return this.config.dataSource.baseUrl.replace(/\/+$/, '');
+  }
+
+  private get metadata(): Record<string, unknown> {
+    return (this.config.dataSource.metadata as Record<string, unknown> | null) || {};
+  }
+
+  // OAuth-connected sources use their access token, the others basic auth
+  private authorize<T>(send: (headers: Record<string, string>) => Promise<T>): Promise<T> {
+    const { dataSource } = this.config;
+    if ((dataSource.oauthConfig as { access_token?: string } | null)?.access_token) {
+      return this.withAccessToken(accessToken => send({ 'Authorization': `Bearer ${accessToken}` }));
+    }
+
+    const { username } = this.metadata;
+    if (typeof username !== 'string' || !username || !dataSource.apiKey) {
+      throw new Error(`${dataSource.name} needs a username and password, or an OAuth connection`);
+    }
+    return send({ 'Authorization': `Basic ${Buffer.from(`${username}:${dataSource.apiKey}`).toString('base64')}` });
+  }
+
+  private tableUrl(path: string, params: Record<string, string | number> = {}): string {
+    const query = new URLSearchParams(Object.entries(params).map(([key, v]) => [key, String(v)])).toString();
+    return `${this.instanceUrl}/api/now/table/${path}${query ? `?${query}` : ''}`;
+  }
+
+  private get(path: string, params?: Record<string, string | number>): Promise<any> {
+    const url = this.tableUrl(path, params);
+    return this.authorize(headers => this.makeRequest(url, { ...headers, 'Accept': 'application/json' }));
+  }
+
+  private async write(method: 'post' | 'patch', path: string, body: Record<string, unknown>): Promise<TableRecord> {
+    const url = this.tableUrl(path, { sysparm_display_value: 'all', sysparm_exclude_reference_link: 'true' });
+    const response = await this.authorize(headers => axios.request({
+      method,
+      url,
+      data: body,
+      headers: { ...headers, 'Accept': 'application/json', 'Content-Type': 'application/json', 'User-Agent': 'QueryLinker/1.0' },
+      timeout: 30000,
+    }));
+    return response.data.result;
+  }
+
+  // Page through a table with sysparm_offset until a short page comes back
+  private async list(table: string, params: Record<string, string | number>): Promise<TableRecord[]> {
+    const records: TableRecord[] = [];
+
+    for (let page = 0; page < SERVICENOW_MAX_PAGES; page++) {
+      const data = await this.get(table, {
+        ...params,
+        sysparm_display_value: 'all',
+        sysparm_exclude_reference_link: 'true',
+        sysparm_limit: SERVICENOW_PAGE_SIZE,
+        sysparm_offset: records.length,
+      });
+      const pageRecords: TableRecord[] = data.result || [];
+      records.push(...pageRecords);
+
+      if (pageRecords.length < SERVICENOW_PAGE_SIZE) break;
+      if (page === SERVICENOW_MAX_PAGES - 1) {
+        console.warn(`ServiceNow ${table} listing for ${this.config.dataSource.name} stopped after ${records.length} records`);
+      }
+    }
+    return records;
+  }
+
+  get incidentsTruncated(): boolean {
+    return this.truncated;
+  }
+
+  async testConnection(): Promise<string> {
+    const data = await this.get('incident', { sysparm_limit: 1, sysparm_fields: 'sys_id' });
+    return `Connected to ${this.instanceUrl}, ${data.result?.length ? 'incidents are readable' : 'no incidents visible'}`;
+  }
+
+  /**
+   * Active incidents, narrowed by the configured encoded query. Incidents
+   * that are resolved or closed drop out and are confirmed by reconciliation.
+   */
+  async fetchIncidents(): Promise<InsertIncident[]> {
+    const configured = this.metadata.query;
+    const filter = typeof configured === 'string' && configured.trim() ? `^${configured.trim()}` : '';
+    const records = await this.list('incident', {
+      sysparm_query: `active=true${filter}^ORDERBYsys_created_on`,
+      sysparm_fields: TICKET_FIELDS,
+    });
+    this.truncated = reachedPageCap(records);
+    return records.map(record => this.mapIncident(record));
+  }
+
+  async fetchIncident(externalId: string): Promise<InsertIncident | null> {
+    try {
+      const data = await this.get(`incident/${encodeURIComponent(externalId)}`, {
+        sysparm_display_value: 'all',
+        sysparm_exclude_reference_link: 'true',
+        sysparm_fields: TICKET_FIELDS,
+      });
+      return this.mapIncident(data.result);
+    } catch (error) {
+      if (this.isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async fetchComponents(): Promise<InsertServiceComponent[]> {
+    return [];
+  }
+
+  // Comments and work notes; state changes are recorded by the sync itself
+  async fetchIncidentUpdates(incident: Incident): Promise<InsertIncidentUpdate[]> {
+    if (!SYS_ID_PATTERN.test(incident.externalId)) return [];
+
+    const entries = await this.list('sys_journal_field', {
+      sysparm_query: `element_id=${incident.externalId}^elementINcomments,work_notes^ORDERBYsys_created_on`,
+      sysparm_fields: 'sys_id,element,value,sys_created_on,sys_created_by',
+    });
+
+    return entries.map(entry => ({
+      incidentId: incident.id,
+      externalId: value(entry.sys_id),
+      updateType: 'new_update',
+      previousStatus: null,
+      newStatus: null,
+      message: value(entry.value),
+      timestamp: parseDate(entry.sys_created_on) ?? new Date(),
+      metadata: {
+        source: 'servicenow',
+        type: value(entry.element) === 'work_notes' ? 'work_note' : 'comment',
+        author: value(entry.sys_created_by),
+      },
+    }));
+  }
+
+  async fetchSolutions(): Promise<SolutionListing> {
+    const articles = await this.list('kb_knowledge', {
+      sysparm_query: 'workflow_state=published^ORDERBYsys_created_on',
+      sysparm_fields: 'sys_id,number,short_description,text,kb_knowledge_base,kb_category,author,sys_updated_on',
+    });
+
+    const solutions: InsertSolution[] = articles.map(article => ({
+      dataSourceId: this.config.dataSource.id,
+      externalId: value(article.sys_id),
+      title: value(article.short_description) || value(article.number),
+      content: stripHtml(value(article.text)),
+      url: `${this.instanceUrl}/kb_view.do?sysparm_article=${value(article.number)}`,
+      tags: ['servicenow', display(article.kb_category)].filter(Boolean),
+      metadata: {
+        source: 'servicenow',
+        number: value(article.number),
+        knowledgeBase: display(article.kb_knowledge_base),
+        category: display(article.kb_category),
+        author: display(article.author),
+        updatedAt: parseDate(article.sys_updated_on),
+      },
+    }));
+
+    return { solutions, truncated: reachedPageCap(articles) };
+  }
+
+  async listTickets(status?: ServiceNowTicketStatus): Promise<ServiceNowTicket[]> {
+    const data = await this.get('incident', {
+      sysparm_query: `${status ? `state=${TICKET_STATES[status]}^` : ''}ORDERBYDESCsys_updated_on`,
+      sysparm_fields: TICKET_FIELDS,
+      sysparm_display_value: 'all',
+      sysparm_exclude_reference_link: 'true',
+      sysparm_limit: TICKET_LIST_LIMIT,
+    });
+    return (data.result || []).map((record: TableRecord) => this.mapTicket(record));
+  }
+
+  async createTicket(input: ServiceNowTicketInput): Promise<ServiceNowTicket> {
+    const record = await this.write('post', 'incident', {
+      short_description: input.title,
+      description: input.description,
+      ...PRIORITY_FIELDS[input.priority],
+      ...(input.category ? { category: input.category.toLowerCase() } : {}),
+    });
+    return this.mapTicket(record);
+  }
+
+  /**
+   * Update an incident addressed by sys_id or number. Resolves to null when
+   * the instance has no such incident.
+   */
+  async updateTicket(id: string, updates: ServiceNowTicketUpdate): Promise<ServiceNowTicket | null> {
+    const sysId = await this.resolveSysId(id);
+    if (!sysId) return null;
+
+    const fields: Record<string, unknown> = {};
+    if (updates.title !== undefined) fields.short_description = updates.title;
+    if (updates.description !== undefined) fields.description = updates.description;
+    if (updates.priority) Object.assign(fields, PRIORITY_FIELDS[updates.priority]);
+    if (updates.category !== undefined) fields.category = updates.category.toLowerCase();
+    if (updates.comment) fields.comments = updates.comment;
+    if (updates.workNote) fields.work_notes = updates.workNote;
+    if (updates.status) {
+      fields.state = TICKET_STATES[updates.status];
+      // The default workflow refuses to resolve without a close code and notes
+      if (updates.status === 'resolved' || updates.status === 'closed') {
+        fields.close_code = 'Solution provided';
+        fields.close_notes = updates.resolution || 'Resolved from QueryLinker';
+      }
+    }
+
+    try {
+      return this.mapTicket(await this.write('patch', `incident/${sysId}`, fields));
+    } catch (error) {
+      if (this.isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  private async resolveSysId(id: string): Promise<string | null> {
+    if (SYS_ID_PATTERN.test(id)) return id;
+    if (!INCIDENT_NUMBER_PATTERN.test(id)) return null;
+
+    const data = await this.get('incident', { sysparm_query: `number=${id}`, sysparm_fields: 'sys_id', sysparm_limit: 1 });
+    const match = data.result?.[0];
+    return match ? value(match.sys_id) : null;
+  }
+
+  private recordUrl(sysId: string): string {
+    return `${this.instanceUrl}/nav_to.do?uri=incident.do?sys_id=${sysId}`;
+  }
+
+  private mapIncident(record: TableRecord): InsertIncident {
+    const state = value(record.state);
+    const status = STATE_TO_STATUS[state] || 'investigating';
+    const service = display(record.cmdb_ci);
+
+    return {
+      externalId: value(record.sys_id),
+      dataSourceId: this.config.dataSource.id,
+      systemName: service || display(record.assignment_group) || 'ServiceNow',
+      title: value(record.short_description) || value(record.number),
+      description: value(record.description),
+      status,
+      severity: PRIORITY_TO_SEVERITY[value(record.priority)] || 'medium',
+      impact: IMPACT_MAP[value(record.impact)] || 'degraded_performance',
+      startedAt: parseDate(record.opened_at),
+      resolvedAt: status === 'resolved' ? parseDate(record.resolved_at) ?? parseDate(record.closed_at) : null,
+      updatedAt: parseDate(record.sys_updated_on),
+      externalUrl: this.recordUrl(value(record.sys_id)),
+      affectedServices: service ? [service] : [],
+      tags: ['servicenow', value(record.category), display(record.priority)].filter(Boolean),
+      metadata: {
+        source: 'servicenow',
+        number: value(record.number),
+        state: display(record.state),
+        category: value(record.category),
+        subcategory: value(record.subcategory),
+        assignmentGroup: display(record.assignment_group),
+        assignedTo: display(record.assigned_to),
+        caller: display(record.caller_id),
+      },
+    };
+  }
+
+  private mapTicket(record: TableRecord): ServiceNowTicket {
+    const state = value(record.state);
+    const status = (Object.keys(TICKET_STATES) as ServiceNowTicketStatus[])
+      .find(key => TICKET_STATES[key] === state) ?? (state === '8' ? 'closed' : 'new');
+    const priority = (PRIORITY_TO_SEVERITY[value(record.priority)] || 'medium') as ServiceNowTicketPriority;
+
+    return {
+      id: value(record.sys_id),
+      number: value(record.number),
+      title: value(record.short_description),
+      description: value(record.description),
+      status,
+      statusLabel: display(record.state),
+      priority,
+      severity: priority,
+      category: display(record.category),
+      subcategory: display(record.subcategory),
+      assignee: display(record.assigned_to) || display(record.assignment_group),
+      reporter: display(record.caller_id),
+      createdAt: parseDate(record.opened_at)?.toISOString() ?? null,
+      updatedAt: parseDate(record.sys_updated_on)?.toISOString() ?? null,
+      url: this.recordUrl(value(record.sys_id)),
+    };
+  }
+}
+
+registerConnector({
+  type: 'servicenow',
+  name: 'ServiceNow',
+  description: 'ServiceNow incidents and knowledge articles through the Table API',
+  capabilities: ['incidents', 'updates', 'knowledge', 'write_back'],
+  configSchema: z.object({
+    baseUrl: z.string().url().describe('Instance URL'),
+    // Left out for sources connected through OAuth
+    apiKey: z.string().optional().describe('Password'),
+    metadata: z.object({
+      username: z.string().optional().describe('Username'),
+      query: z.string().optional().describe('Incident filter (encoded query)'),
+    }).passthrough().optional(),
+  }),
+  create: config => new ServiceNowConnector(config),
+});
@@ -8,6 +8,10 @@ import {
   notifications,
   searchQueries,
   systemConfigurations,
+  appSettings,
+  authAttempts,
+  auditEvents,
+  apiTokens,
   dataSources,
   incidents,
   incidentUpdates,
@@ -31,6 +35,15 @@ import {
   type SearchQuery,
   type InsertSearchQuery,
   type SystemConfiguration,
+  type AppSetting,
+  type AuthAttempt,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type ApiToken,
+  type InsertApiToken,
+  syncRuns,
+  type SyncRun,
+  type InsertSyncRun,
   type DataSource,
   type InsertDataSource,
   type Incident,
@@ -41,16 +54,31 @@ import {
   type InsertServiceComponent,
   type IncidentMetric,
   type InsertIncidentMetric,
+  supportTickets,
+  type SupportTicket,
+  type InsertSupportTicket,
   type GoogleMeeting,
   type InsertGoogleMeeting,
   type GoogleToken,
   type InsertGoogleToken,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql, gte, lte, like, ilike, or } from "drizzle-orm";
+import { encryptCredentials, decryptCredentials, isEncryptedWithCurrentKey, type CredentialKind } from "./encryption";
+import { eq, desc, and, sql, gte, lte, like, ilike, or, notInArray } from "drizzle-orm";
 import fs from 'fs';
 import path from 'path';
 
+export interface AuditEventFilters {
+  action?: string; // prefix match, e.g. "user." for every user event
+  actorId?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
@@ -64,6 +92,11 @@ export interface IStorage {
   getUserByResetToken(token: string): Promise<User | undefined>;
   updateUserPassword(id: string, hashedPassword: string): Promise<void>;
 
+  // User administration
+  getUsers(): Promise<User[]>;
+  updateUser(id: string, updates: Partial<UpsertUser>): Promise<User>;
+  getUserByInvitationToken(tokenHash: string): Promise<User | undefined>;
+
   // System operations
   getSystems(): Promise<System[]>;
   getSystem(id: number): Promise<System | undefined>;
@@ -75,10 +108,13 @@ export interface IStorage {
   // Solution operations
   getSolutions(limit?: number, offset?: number): Promise<Solution[]>;
   getSolutionsBySystem(systemId: number): Promise<Solution[]>;
+  getSolutionsByDataSource(dataSourceId: number): Promise<Solution[]>;
   searchSolutions(query: string, systems?: string[]): Promise<Solution[]>;
   getSolution(id: number): Promise<Solution | undefined>;
   createSolution(solution: InsertSolution): Promise<Solution>;
   updateSolution(id: number, updates: Partial<InsertSolution>): Promise<Solution>;
+  // Create or update the article a data source knows by `externalId`
+  upsertSolutionByExternalId(externalId: string, dataSourceId: number, solution: InsertSolution): Promise<Solution>;
   deleteSolution(id: number): Promise<boolean>;
 
   // Interaction operations
@@ -88,14 +124,19 @@ export interface IStorage {
 
   // SLA operations
   getSLATargets(): Promise<SLATarget[]>;
+  getSLATarget(id: number): Promise<SLATarget | undefined>;
   createSLATarget(target: InsertSLATarget): Promise<SLATarget>;
+  updateSLATarget(id: number, updates: Partial<InsertSLATarget>): Promise<SLATarget | undefined>;
+  // Records keep pointing at their target, so deleting one only deactivates it
+  deleteSLATarget(id: number): Promise<boolean>;
   getSLARecords(targetId?: number, limit?: number): Promise<SLARecord[]>;
   getSLAStatus(): Promise<{ target: SLATarget; records: SLARecord[] }[]>;
 
   // Notification operations
   getUserNotifications(userId: string, unreadOnly?: boolean): Promise<Notification[]>;
   createNotification(notification: InsertNotification): Promise<Notification>;
-  markNotificationRead(id: number): Promise<boolean>;
+  // Only the recipient's own notifications match
+  markNotificationRead(id: number, userId: string): Promise<boolean>;
 
   // Search analytics
   createSearchQuery(query: InsertSearchQuery): Promise<SearchQuery>;
@@ -117,12 +158,45 @@ export interface IStorage {
   getSystemConfiguration(systemId: number): Promise<SystemConfiguration | undefined>;
   updateSystemConfiguration(systemId: number, config: Partial<SystemConfiguration>): Promise<SystemConfiguration>;
 
+  // Organization-wide settings
+  getAppSetting(key: string): Promise<AppSetting | undefined>;
+  setAppSetting(key: string, value: unknown, updatedBy?: string): Promise<AppSetting>;
+
+  // Authentication throttling
+  getAuthAttempt(key: string): Promise<AuthAttempt | undefined>;
+  // Atomic, so concurrent failures each count. The failure count restarts when the
+  // last failure is before `windowStart`, the lockout escalation before `decayStart`.
+  incrementAuthFailures(key: string, now: Date, windowStart: Date, decayStart: Date): Promise<AuthAttempt>;
+  lockAuthAttempt(key: string, lockedUntil: Date): Promise<AuthAttempt>;
+  deleteAuthAttempt(key: string): Promise<void>;
+
+  // Audit log. Events are never updated; deletion only happens through the retention policy.
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(filters: AuditEventFilters): Promise<{ events: AuditEvent[]; total: number }>;
+  deleteAuditEventsBefore(cutoff: Date): Promise<number>;
+
+  // API tokens
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokens(userId: string): Promise<ApiToken[]>;
+  updateApiToken(id: number, updates: Partial<InsertApiToken>): Promise<ApiToken | undefined>;
+
+  // Re-seal every stored credential with the current master key, returning how many records changed
+  reencryptCredentials(): Promise<Record<CredentialKind, number>>;
+
   // Data sources for incident aggregation
   getDataSources(): Promise<DataSource[]>;
   getDataSource(id: number): Promise<DataSource | undefined>;
   createDataSource(dataSource: InsertDataSource): Promise<DataSource>;
   updateDataSource(id: number, updates: Partial<InsertDataSource>): Promise<DataSource>;
-  updateDataSourceSyncTime(id: number, error?: string): Promise<void>;
+  updateDataSourceSyncTime(id: number, error?: string, nextSyncAt?: Date): Promise<void>;
+
+  // Sync run history, newest first
+  createSyncRun(run: InsertSyncRun): Promise<SyncRun>;
+  updateSyncRun(id: number, updates: Partial<InsertSyncRun>): Promise<SyncRun | undefined>;
+  getSyncRuns(dataSourceId: number, limit?: number): Promise<SyncRun[]>;
+  // Drop all but the newest `keep` runs of a source, returning how many were removed
+  pruneSyncRuns(dataSourceId: number, keep: number): Promise<number>;
 
   // Incidents management
   getIncidents(limit?: number, offset?: number): Promise<Incident[]>;
@@ -140,6 +214,14 @@ export interface IStorage {
   getServiceComponents(dataSourceId?: number): Promise<ServiceComponent[]>;
   upsertServiceComponent(component: InsertServiceComponent): Promise<ServiceComponent>;
 
+  // Support tickets, most recently updated first
+  getSupportTickets(dataSourceId: number, status?: string, limit?: number): Promise<SupportTicket[]>;
+  getSupportTicketsByIncident(incidentId: number): Promise<SupportTicket[]>;
+  getSupportTicket(id: number): Promise<SupportTicket | undefined>;
+  // Leaves the incident link alone unless `ticket` sets one
+  upsertSupportTicketByExternalId(externalId: string, dataSourceId: number, ticket: InsertSupportTicket): Promise<SupportTicket>;
+  linkSupportTicket(id: number, incidentId: number | null): Promise<SupportTicket | undefined>;
+
   // Incident metrics
   getIncidentMetrics(dataSourceId?: number, days?: number): Promise<IncidentMetric[]>;
   upsertIncidentMetric(metric: InsertIncidentMetric): Promise<IncidentMetric>;
@@ -250,6 +332,25 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.id, id));
   }
 
+  // User administration
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.email);
+  }
+
+  async updateUser(id: string, updates: Partial<UpsertUser>): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return updatedUser;
+  }
+
+  async getUserByInvitationToken(tokenHash: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.invitationToken, tokenHash));
+    return user;
+  }
+
   // System operations
   async getSystems(): Promise<System[]> {
     return await db.select().from(systems).orderBy(systems.name);
@@ -304,6 +405,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(solutions.syncedAt));
   }
 
+  async getSolutionsByDataSource(dataSourceId: number): Promise<Solution[]> {
+    return await db
+      .select()
+      .from(solutions)
+      .where(eq(solutions.dataSourceId, dataSourceId))
+      .orderBy(desc(solutions.syncedAt));
+  }
+
   async searchSolutions(query: string, systemIds?: string[]): Promise<Solution[]> {
     let searchCondition = or(
       ilike(solutions.title, `%${query}%`),
@@ -345,6 +454,24 @@ export class DatabaseStorage implements IStorage {
     return updatedSolution;
   }
 
+  async upsertSolutionByExternalId(externalId: string, dataSourceId: number, solution: InsertSolution): Promise<Solution> {
+    const [existing] = await db
+      .select({ id: solutions.id })
+      .from(solutions)
+      .where(and(eq(solutions.externalId, externalId), eq(solutions.dataSourceId, dataSourceId)));
+
+    if (existing) {
+      const [updated] = await db
+        .update(solutions)
+        .set({ ...solution, updatedAt: new Date(), syncedAt: new Date() })
+        .where(eq(solutions.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(solutions).values({ ...solution, externalId, dataSourceId }).returning();
+    return created;
+  }
+
   async deleteSolution(id: number): Promise<boolean> {
     const result = await db.delete(solutions).where(eq(solutions.id, id));
     return (result.rowCount ?? 0) > 0;
@@ -590,11 +717,35 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(slaTargets).where(eq(slaTargets.isActive, true));
   }
 
+  async getSLATarget(id: number): Promise<SLATarget | undefined> {
+    const [target] = await db.select().from(slaTargets)
+      .where(and(eq(slaTargets.id, id), eq(slaTargets.isActive, true)));
+    return target;
+  }
+
   async createSLATarget(target: InsertSLATarget): Promise<SLATarget> {
     const [newTarget] = await db.insert(slaTargets).values(target).returning();
     return newTarget;
   }
 
+  async updateSLATarget(id: number, updates: Partial<InsertSLATarget>): Promise<SLATarget | undefined> {
+    const [updated] = await db
+      .update(slaTargets)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(slaTargets.id, id), eq(slaTargets.isActive, true)))
+      .returning();
+    return updated;
+  }
+
+  async deleteSLATarget(id: number): Promise<boolean> {
+    const deactivated = await db
+      .update(slaTargets)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(and(eq(slaTargets.id, id), eq(slaTargets.isActive, true)))
+      .returning({ id: slaTargets.id });
+    return deactivated.length > 0;
+  }
+
   async getSLARecords(targetId?: number, limit = 100): Promise<SLARecord[]> {
     if (targetId) {
       return await db.select().from(slaRecords)
@@ -640,11 +791,11 @@ export class DatabaseStorage implements IStorage {
     return newNotification;
   }
 
-  async markNotificationRead(id: number): Promise<boolean> {
+  async markNotificationRead(id: number, userId: string): Promise<boolean> {
     const result = await db
       .update(notifications)
       .set({ isRead: true })
-      .where(eq(notifications.id, id));
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)));
     return (result.rowCount ?? 0) > 0;
   }
 
@@ -729,46 +880,186 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(systemConfigurations)
       .where(eq(systemConfigurations.systemId, systemId));
-    return config;
+    return config && decryptCredentials('systemConfiguration', config);
   }
 
   async updateSystemConfiguration(systemId: number, config: Partial<SystemConfiguration>): Promise<SystemConfiguration> {
+    const encryptedConfig = encryptCredentials('systemConfiguration', config);
     const [updatedConfig] = await db
       .insert(systemConfigurations)
-      .values({ ...config, systemId })
+      .values({ ...encryptedConfig, systemId })
       .onConflictDoUpdate({
         target: systemConfigurations.systemId,
-        set: { ...config, lastConfigUpdate: new Date() },
+        set: { ...encryptedConfig, lastConfigUpdate: new Date() },
+      })
+      .returning();
+    return decryptCredentials('systemConfiguration', updatedConfig);
+  }
+  async getAppSetting(key: string): Promise<AppSetting | undefined> {
+    const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, key));
+    return setting;
+  }
+
+  async setAppSetting(key: string, value: unknown, updatedBy?: string): Promise<AppSetting> {
+    const [setting] = await db
+      .insert(appSettings)
+      .values({ key, value, updatedBy })
+      .onConflictDoUpdate({
+        target: appSettings.key,
+        set: { value, updatedBy, updatedAt: new Date() },
       })
       .returning();
-    return updatedConfig;
+    return setting;
+  }
+
+  async getAuthAttempt(key: string): Promise<AuthAttempt | undefined> {
+    const [attempt] = await db.select().from(authAttempts).where(eq(authAttempts.key, key));
+    return attempt;
   }
 
+  async incrementAuthFailures(key: string, now: Date, windowStart: Date, decayStart: Date): Promise<AuthAttempt> {
+    const before = (start: Date) =>
+      sql`(${authAttempts.lastFailureAt} IS NULL OR ${authAttempts.lastFailureAt} < ${start.toISOString()}::timestamp)`;
+
+    const [attempt] = await db
+      .insert(authAttempts)
+      .values({ key, failures: 1, lockouts: 0, lockedUntil: null, lastFailureAt: now })
+      .onConflictDoUpdate({
+        target: authAttempts.key,
+        set: {
+          failures: sql`CASE WHEN ${before(windowStart)} THEN 1 ELSE ${authAttempts.failures} + 1 END`,
+          lockouts: sql`CASE WHEN ${before(decayStart)} THEN 0 ELSE ${authAttempts.lockouts} END`,
+          lockedUntil: sql`CASE WHEN ${before(decayStart)} THEN NULL ELSE ${authAttempts.lockedUntil} END`,
+          lastFailureAt: now,
+        },
+      })
+      .returning();
+    return attempt;
+  }
+
+  async lockAuthAttempt(key: string, lockedUntil: Date): Promise<AuthAttempt> {
+    const [attempt] = await db
+      .update(authAttempts)
+      .set({ failures: 0, lockouts: sql`${authAttempts.lockouts} + 1`, lockedUntil })
+      .where(eq(authAttempts.key, key))
+      .returning();
+    return attempt;
+  }
+
+  async deleteAuthAttempt(key: string): Promise<void> {
+    await db.delete(authAttempts).where(eq(authAttempts.key, key));
+  }
+
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const [created] = await db.insert(auditEvents).values(event).returning();
+    return created;
+  }
+
+  async getAuditEvents(filters: AuditEventFilters): Promise<{ events: AuditEvent[]; total: number }> {
+    const conditions = [
+      // A prefix match, so LIKE wildcards in the filter itself are escaped
+      filters.action ? like(auditEvents.action, `${filters.action.replace(/[\\%_]/g, '\\$&')}%`) : undefined,
+      filters.actorId ? eq(auditEvents.actorId, filters.actorId) : undefined,
+      filters.targetType ? eq(auditEvents.targetType, filters.targetType) : undefined,
+      filters.targetId ? eq(auditEvents.targetId, filters.targetId) : undefined,
+      filters.from ? gte(auditEvents.createdAt, filters.from) : undefined,
+      filters.to ? lte(auditEvents.createdAt, filters.to) : undefined,
+    ];
+    const where = and(...conditions);
+
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(auditEvents).where(where);
+    const events = await db
+      .select()
+      .from(auditEvents)
+      .where(where)
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .limit(filters.limit ?? 50)
+      .offset(filters.offset ?? 0);
+
+    return { events, total: count };
+  }
+
+  async deleteAuditEventsBefore(cutoff: Date): Promise<number> {
+    const deleted = await db.delete(auditEvents).where(lte(auditEvents.createdAt, cutoff)).returning({ id: auditEvents.id });
+    return deleted.length;
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [created] = await db.insert(apiTokens).values(token).returning();
+    return created;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return await db.select().from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(desc(apiTokens.createdAt));
+  }
+
+  async updateApiToken(id: number, updates: Partial<InsertApiToken>): Promise<ApiToken | undefined> {
+    const [updated] = await db.update(apiTokens).set(updates).where(eq(apiTokens.id, id)).returning();
+    return updated;
+  }
+
+  async reencryptCredentials(): Promise<Record<CredentialKind, number>> {
+    const counts: Record<CredentialKind, number> = { dataSource: 0, googleToken: 0, systemConfiguration: 0 };
+    const reseal = <T extends Record<string, unknown>>(kind: CredentialKind, record: T) =>
+      encryptCredentials(kind, decryptCredentials(kind, record));
+
+    for (const source of await db.select().from(dataSources)) {
+      if (isEncryptedWithCurrentKey('dataSource', source)) continue;
+      const { apiKey, oauthConfig } = reseal('dataSource', source);
+      await db.update(dataSources).set({ apiKey, oauthConfig }).where(eq(dataSources.id, source.id));
+      counts.dataSource++;
+    }
+
+    for (const tokens of await db.select().from(googleTokens)) {
+      if (isEncryptedWithCurrentKey('googleToken', tokens)) continue;
+      const { accessToken, refreshToken } = reseal('googleToken', tokens);
+      await db.update(googleTokens).set({ accessToken, refreshToken }).where(eq(googleTokens.id, tokens.id));
+      counts.googleToken++;
+    }
+
+    for (const config of await db.select().from(systemConfigurations)) {
+      if (isEncryptedWithCurrentKey('systemConfiguration', config)) continue;
+      const { oauthCredentials } = reseal('systemConfiguration', config);
+      await db.update(systemConfigurations).set({ oauthCredentials }).where(eq(systemConfigurations.id, config.id));
+      counts.systemConfiguration++;
+    }
+
+    return counts;
+  }
+
+
   // Data sources operations
+  // Credentials are encrypted on the way in and decrypted on the way out
   async getDataSources(): Promise<DataSource[]> {
-    return await db.select().from(dataSources).orderBy(dataSources.name);
+    const sources = await db.select().from(dataSources).orderBy(dataSources.name);
+    return sources.map((source: DataSource) => decryptCredentials('dataSource', source));
   }
 
   async getDataSource(id: number): Promise<DataSource | undefined> {
     const [dataSource] = await db.select().from(dataSources).where(eq(dataSources.id, id));
-    return dataSource;
+    return dataSource && decryptCredentials('dataSource', dataSource);
   }
 
   async createDataSource(dataSource: InsertDataSource): Promise<DataSource> {
-    const [newDataSource] = await db.insert(dataSources).values(dataSource).returning();
-    return newDataSource;
+    const [newDataSource] = await db.insert(dataSources).values(encryptCredentials('dataSource', dataSource)).returning();
+    return decryptCredentials('dataSource', newDataSource);
   }
 
   async updateDataSource(id: number, updates: Partial<InsertDataSource>): Promise<DataSource> {
     const [updatedDataSource] = await db
       .update(dataSources)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...encryptCredentials('dataSource', updates), updatedAt: new Date() })
       .where(eq(dataSources.id, id))
       .returning();
-    return updatedDataSource;
+    return decryptCredentials('dataSource', updatedDataSource);
   }
 
-  async updateDataSourceSyncTime(id: number, error?: string): Promise<void> {
+  async updateDataSourceSyncTime(id: number, error?: string, nextSyncAt?: Date): Promise<void> {
     const updateData: any = {
       lastSyncAt: new Date(),
       updatedAt: new Date(),
@@ -781,12 +1072,49 @@ export class DatabaseStorage implements IStorage {
       updateData.lastError = null;
     }
 
+    if (nextSyncAt) {
+      updateData.nextSyncAt = nextSyncAt;
+    }
+
     await db
       .update(dataSources)
       .set(updateData)
       .where(eq(dataSources.id, id));
   }
 
+  async createSyncRun(run: InsertSyncRun): Promise<SyncRun> {
+    const [created] = await db.insert(syncRuns).values(run).returning();
+    return created;
+  }
+
+  async updateSyncRun(id: number, updates: Partial<InsertSyncRun>): Promise<SyncRun | undefined> {
+    const [updated] = await db.update(syncRuns).set(updates).where(eq(syncRuns.id, id)).returning();
+    return updated;
+  }
+
+  async getSyncRuns(dataSourceId: number, limit = 50): Promise<SyncRun[]> {
+    return await db
+      .select()
+      .from(syncRuns)
+      .where(eq(syncRuns.dataSourceId, dataSourceId))
+      .orderBy(desc(syncRuns.startedAt))
+      .limit(limit);
+  }
+
+  async pruneSyncRuns(dataSourceId: number, keep: number): Promise<number> {
+    const newest = db
+      .select({ id: syncRuns.id })
+      .from(syncRuns)
+      .where(eq(syncRuns.dataSourceId, dataSourceId))
+      .orderBy(desc(syncRuns.startedAt))
+      .limit(keep);
+    const deleted = await db
+      .delete(syncRuns)
+      .where(and(eq(syncRuns.dataSourceId, dataSourceId), notInArray(syncRuns.id, newest)))
+      .returning({ id: syncRuns.id });
+    return deleted.length;
+  }
+
   // Incidents operations
   async getIncidents(limit = 50, offset = 0): Promise<Incident[]> {
     return await db
@@ -874,6 +1202,52 @@ export class DatabaseStorage implements IStorage {
     return upsertedComponent;
   }
 
+  // Support ticket operations
+  async getSupportTickets(dataSourceId: number, status?: string, limit = 100): Promise<SupportTicket[]> {
+    return await db
+      .select()
+      .from(supportTickets)
+      .where(status
+        ? and(eq(supportTickets.dataSourceId, dataSourceId), eq(supportTickets.status, status))
+        : eq(supportTickets.dataSourceId, dataSourceId))
+      .orderBy(desc(supportTickets.updatedAt))
+      .limit(limit);
+  }
+
+  async getSupportTicketsByIncident(incidentId: number): Promise<SupportTicket[]> {
+    return await db
+      .select()
+      .from(supportTickets)
+      .where(eq(supportTickets.incidentId, incidentId))
+      .orderBy(desc(supportTickets.updatedAt));
+  }
+
+  async getSupportTicket(id: number): Promise<SupportTicket | undefined> {
+    const [ticket] = await db.select().from(supportTickets).where(eq(supportTickets.id, id));
+    return ticket;
+  }
+
+  async upsertSupportTicketByExternalId(externalId: string, dataSourceId: number, ticket: InsertSupportTicket): Promise<SupportTicket> {
+    const [upserted] = await db
+      .insert(supportTickets)
+      .values(ticket)
+      .onConflictDoUpdate({
+        target: [supportTickets.externalId, supportTickets.dataSourceId],
+        set: { ...ticket, syncedAt: new Date() },
+      })
+      .returning();
+    return upserted;
+  }
+
+  async linkSupportTicket(id: number, incidentId: number | null): Promise<SupportTicket | undefined> {
+    const [linked] = await db
+      .update(supportTickets)
+      .set({ incidentId })
+      .where(eq(supportTickets.id, id))
+      .returning();
+    return linked;
+  }
+
   // Incident metrics operations
   async getIncidentMetrics(dataSourceId?: number, days = 30): Promise<IncidentMetric[]> {
     let query = db.select().from(incidentMetrics);
@@ -954,6 +1328,13 @@ class MemoryStorage implements IStorage {
   protected incidentMetrics: IncidentMetric[] = [];
   protected googleMeetings: GoogleMeeting[] = [];
   protected googleTokens: GoogleToken[] = [];
+  protected systemConfigurations: SystemConfiguration[] = [];
+  protected appSettings: Map<string, AppSetting> = new Map();
+  protected authAttempts: Map<string, AuthAttempt> = new Map();
+  protected auditEvents: AuditEvent[] = [];
+  protected apiTokens: ApiToken[] = [];
+  protected syncRuns: SyncRun[] = [];
+  protected supportTickets: SupportTicket[] = [];
   protected idCounter = 1;
 
   // User operations
@@ -980,10 +1361,23 @@ class MemoryStorage implements IStorage {
         profileImageUrl: userData.profileImageUrl || null,
         role: userData.role || 'user',
         emailVerified: userData.emailVerified || false,
+        emailVerificationCode: userData.emailVerificationCode || null,
+        emailVerificationExpires: userData.emailVerificationExpires || null,
+        emailVerificationSentAt: userData.emailVerificationSentAt || null,
+        emailVerificationAttempts: userData.emailVerificationAttempts || 0,
         passwordResetToken: userData.passwordResetToken || null,
         passwordResetExpires: userData.passwordResetExpires || null,
         lastLoginAt: userData.lastLoginAt || null,
         authProvider: userData.authProvider || 'email',
+        isActive: userData.isActive ?? true,
+        invitationToken: userData.invitationToken || null,
+        invitationExpires: userData.invitationExpires || null,
+        invitedBy: userData.invitedBy || null,
+        mfaEnabled: userData.mfaEnabled || false,
+        mfaSecret: userData.mfaSecret || null,
+        mfaRecoveryCodes: userData.mfaRecoveryCodes || null,
+        mfaLastUsedStep: userData.mfaLastUsedStep || null,
+        isServiceAccount: userData.isServiceAccount || false,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -1008,17 +1402,32 @@ class MemoryStorage implements IStorage {
       firstName: userData.firstName,
       lastName: userData.lastName,
       profileImageUrl: null,
-      role: 'user',
+      role: userData.role || 'viewer',
       emailVerified: false,
+      emailVerificationCode: userData.emailVerificationCode || null,
+      emailVerificationExpires: userData.emailVerificationExpires || null,
+      emailVerificationSentAt: userData.emailVerificationSentAt || null,
+      emailVerificationAttempts: 0,
       passwordResetToken: null,
       passwordResetExpires: null,
       lastLoginAt: null,
-      authProvider: 'email',
+      authProvider: userData.authProvider || 'email',
+      isActive: true,
+      invitationToken: userData.invitationToken || null,
+      invitationExpires: userData.invitationExpires || null,
+      invitedBy: userData.invitedBy || null,
+      mfaEnabled: false,
+      mfaSecret: null,
+      mfaRecoveryCodes: null,
+      mfaLastUsedStep: null,
+      isServiceAccount: userData.isServiceAccount || false,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
     this.users.set(userId, newUser);
-    this.usersByEmail.set(userData.email, newUser);
+    if (newUser.email) {
+      this.usersByEmail.set(newUser.email, newUser);
+    }
     return newUser;
   }
 
@@ -1053,6 +1462,32 @@ class MemoryStorage implements IStorage {
     }
   }
 
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values())
+      .sort((a, b) => (a.email || '').localeCompare(b.email || ''));
+  }
+
+  async updateUser(id: string, updates: Partial<UpsertUser>): Promise<User> {
+    const user = this.users.get(id);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    const updatedUser = { ...user, ...updates, id, updatedAt: new Date() };
+    this.users.set(id, updatedUser);
+    // Keep the email index pointing at the same record
+    if (user.email && user.email !== updatedUser.email) {
+      this.usersByEmail.delete(user.email);
+    }
+    if (updatedUser.email) {
+      this.usersByEmail.set(updatedUser.email, updatedUser);
+    }
+    return updatedUser;
+  }
+
+  async getUserByInvitationToken(tokenHash: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.invitationToken === tokenHash);
+  }
+
   // Stub implementations for other methods
   async getSystems(): Promise<System[]> { return this.systems; }
   async getSystem(id: number): Promise<System | undefined> { return this.systems.find(s => s.id === id); }
@@ -1087,6 +1522,7 @@ class MemoryStorage implements IStorage {
 
   async getSolutions(limit = 50, offset = 0): Promise<Solution[]> { return this.solutions.slice(offset, offset + limit); }
   async getSolutionsBySystem(systemId: number): Promise<Solution[]> { return this.solutions.filter(s => s.systemId === systemId); }
+  async getSolutionsByDataSource(dataSourceId: number): Promise<Solution[]> { return this.solutions.filter(s => s.dataSourceId === dataSourceId); }
   async searchSolutions(query: string, systemIds?: string[]): Promise<Solution[]> { 
     return this.solutions.filter(s => 
       s.title?.toLowerCase().includes(query.toLowerCase()) || 
@@ -1107,6 +1543,15 @@ class MemoryStorage implements IStorage {
     }
     throw new Error('Solution not found');
   }
+  async upsertSolutionByExternalId(externalId: string, dataSourceId: number, solution: InsertSolution): Promise<Solution> {
+    const existing = this.solutions.find(s => s.externalId === externalId && s.dataSourceId === dataSourceId);
+    if (existing) {
+      const updated = await this.updateSolution(existing.id, solution);
+      updated.syncedAt = new Date();
+      return updated;
+    }
+    return this.createSolution({ ...solution, externalId, dataSourceId });
+  }
   async deleteSolution(id: number): Promise<boolean> {
     const index = this.solutions.findIndex(s => s.id === id);
     if (index >= 0) {
@@ -1129,16 +1574,34 @@ class MemoryStorage implements IStorage {
   }
 
   async getSLATargets(): Promise<SLATarget[]> { return this.slaTargets.filter(t => t.isActive); }
+  async getSLATarget(id: number): Promise<SLATarget | undefined> {
+    return this.slaTargets.find(t => t.id === id && t.isActive);
+  }
   async createSLATarget(target: InsertSLATarget): Promise<SLATarget> { 
     const newTarget = { ...target, id: this.idCounter++, createdAt: new Date(), updatedAt: new Date() } as SLATarget;
     this.slaTargets.push(newTarget);
     return newTarget;
   }
+  async updateSLATarget(id: number, updates: Partial<InsertSLATarget>): Promise<SLATarget | undefined> {
+    const index = this.slaTargets.findIndex(t => t.id === id && t.isActive);
+    if (index < 0) return undefined;
+    this.slaTargets[index] = { ...this.slaTargets[index], ...updates, updatedAt: new Date() } as SLATarget;
+    return this.slaTargets[index];
+  }
+  async deleteSLATarget(id: number): Promise<boolean> {
+    const target = this.slaTargets.find(t => t.id === id && t.isActive);
+    if (!target) return false;
+    target.isActive = false;
+    target.updatedAt = new Date();
+    return true;
+  }
   async getSLARecords(targetId?: number, limit = 100): Promise<SLARecord[]> { 
     return this.slaRecords.filter(r => !targetId || r.targetId === targetId).slice(0, limit);
   }
   async getSLAStatus(): Promise<{ target: SLATarget; records: SLARecord[] }[]> { 
-    return this.slaTargets.map(target => ({ target, records: this.slaRecords.filter(r => r.targetId === target.id) }));
+    return this.slaTargets
+      .filter(target => target.isActive)
+      .map(target => ({ target, records: this.slaRecords.filter(r => r.targetId === target.id) }));
   }
 
   async getUserNotifications(userId: string, unreadOnly = false): Promise<Notification[]> { 
@@ -1149,8 +1612,8 @@ class MemoryStorage implements IStorage {
     this.notifications.push(newNotification);
     return newNotification;
   }
-  async markNotificationRead(id: number): Promise<boolean> { 
-    const notification = this.notifications.find(n => n.id === id);
+  async markNotificationRead(id: number, userId: string): Promise<boolean> { 
+    const notification = this.notifications.find(n => n.id === id && n.userId === userId);
     if (notification) {
       notification.isRead = true;
       return true;
@@ -1190,31 +1653,175 @@ class MemoryStorage implements IStorage {
     };
   }
 
-  async getSystemConfiguration(systemId: number): Promise<SystemConfiguration | undefined> { return undefined; }
-  async updateSystemConfiguration(systemId: number, config: Partial<SystemConfiguration>): Promise<SystemConfiguration> { 
-    throw new Error('Not implemented in memory storage');
+  async getSystemConfiguration(systemId: number): Promise<SystemConfiguration | undefined> {
+    const config = this.systemConfigurations.find(c => c.systemId === systemId);
+    return config && decryptCredentials('systemConfiguration', config);
+  }
+  async updateSystemConfiguration(systemId: number, config: Partial<SystemConfiguration>): Promise<SystemConfiguration> {
+    const encryptedConfig = encryptCredentials('systemConfiguration', config);
+    const existing = this.systemConfigurations.find(c => c.systemId === systemId);
+    if (existing) {
+      Object.assign(existing, encryptedConfig, { systemId, lastConfigUpdate: new Date() });
+      return decryptCredentials('systemConfiguration', existing);
+    }
+    const newConfig: SystemConfiguration = {
+      oauthCredentials: null,
+      syncInterval: null,
+      ...encryptedConfig,
+      id: this.idCounter++,
+      systemId,
+      lastConfigUpdate: new Date(),
+    };
+    this.systemConfigurations.push(newConfig);
+    return decryptCredentials('systemConfiguration', newConfig);
+  }
+
+  async getAppSetting(key: string): Promise<AppSetting | undefined> { return this.appSettings.get(key); }
+  async setAppSetting(key: string, value: unknown, updatedBy?: string): Promise<AppSetting> {
+    const setting: AppSetting = { key, value, updatedBy: updatedBy || null, updatedAt: new Date() };
+    this.appSettings.set(key, setting);
+    return setting;
+  }
+
+  async getAuthAttempt(key: string): Promise<AuthAttempt | undefined> { return this.authAttempts.get(key); }
+  // Read and write without awaiting in between, so concurrent failures cannot interleave
+  async incrementAuthFailures(key: string, now: Date, windowStart: Date, decayStart: Date): Promise<AuthAttempt> {
+    const existing = this.authAttempts.get(key);
+    const lastFailureAt = existing?.lastFailureAt ? new Date(existing.lastFailureAt).getTime() : 0;
+    const attempt: AuthAttempt = existing && lastFailureAt >= decayStart.getTime()
+      ? { ...existing }
+      : { key, failures: 0, lockouts: 0, lockedUntil: null, lastFailureAt: null };
+
+    attempt.failures = lastFailureAt < windowStart.getTime() ? 1 : attempt.failures + 1;
+    attempt.lastFailureAt = now;
+    this.authAttempts.set(key, attempt);
+    return attempt;
+  }
+  async lockAuthAttempt(key: string, lockedUntil: Date): Promise<AuthAttempt> {
+    const existing = this.authAttempts.get(key) ?? { key, failures: 0, lockouts: 0, lockedUntil: null, lastFailureAt: null };
+    const attempt: AuthAttempt = { ...existing, failures: 0, lockouts: existing.lockouts + 1, lockedUntil };
+    this.authAttempts.set(key, attempt);
+    return attempt;
+  }
+  async deleteAuthAttempt(key: string): Promise<void> { this.authAttempts.delete(key); }
+
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const newEvent: AuditEvent = {
+      id: this.idCounter++,
+      actorId: event.actorId || null,
+      action: event.action,
+      targetType: event.targetType || null,
+      targetId: event.targetId || null,
+      before: event.before ?? null,
+      after: event.after ?? null,
+      metadata: event.metadata ?? null,
+      ipAddress: event.ipAddress || null,
+      createdAt: new Date(),
+    };
+    this.auditEvents.push(newEvent);
+    return newEvent;
+  }
+
+  async getAuditEvents(filters: AuditEventFilters): Promise<{ events: AuditEvent[]; total: number }> {
+    const time = (event: AuditEvent) => new Date(event.createdAt!).getTime();
+    const matching = this.auditEvents
+      .filter(event =>
+        (!filters.action || event.action.startsWith(filters.action)) &&
+        (!filters.actorId || event.actorId === filters.actorId) &&
+        (!filters.targetType || event.targetType === filters.targetType) &&
+        (!filters.targetId || event.targetId === filters.targetId) &&
+        (!filters.from || time(event) >= filters.from.getTime()) &&
+        (!filters.to || time(event) <= filters.to.getTime())
+      )
+      .sort((a, b) => time(b) - time(a) || b.id - a.id);
+
+    const offset = filters.offset ?? 0;
+    return { events: matching.slice(offset, offset + (filters.limit ?? 50)), total: matching.length };
+  }
+
+  async deleteAuditEventsBefore(cutoff: Date): Promise<number> {
+    const before = this.auditEvents.length;
+    this.auditEvents = this.auditEvents.filter(event => new Date(event.createdAt!).getTime() > cutoff.getTime());
+    return before - this.auditEvents.length;
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const newToken: ApiToken = {
+      id: this.idCounter++,
+      userId: token.userId,
+      name: token.name,
+      tokenHash: token.tokenHash,
+      tokenPrefix: token.tokenPrefix,
+      scopes: token.scopes,
+      expiresAt: token.expiresAt || null,
+      lastUsedAt: null,
+      lastUsedIp: null,
+      revokedAt: null,
+      createdBy: token.createdBy || null,
+      createdAt: new Date(),
+    };
+    this.apiTokens.push(newToken);
+    return newToken;
+  }
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return this.apiTokens.find(t => t.tokenHash === tokenHash);
+  }
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return this.apiTokens
+      .filter(t => t.userId === userId)
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
+  }
+  async updateApiToken(id: number, updates: Partial<InsertApiToken>): Promise<ApiToken | undefined> {
+    const token = this.apiTokens.find(t => t.id === id);
+    if (token) Object.assign(token, updates);
+    return token;
+  }
+
+  async reencryptCredentials(): Promise<Record<CredentialKind, number>> {
+    const reseal = <T extends Record<string, unknown>>(kind: CredentialKind, records: T[]) => {
+      let count = 0;
+      records.forEach((record, index) => {
+        if (isEncryptedWithCurrentKey(kind, record)) return;
+        records[index] = encryptCredentials(kind, decryptCredentials(kind, record));
+        count++;
+      });
+      return count;
+    };
+
+    return {
+      dataSource: reseal('dataSource', this.dataSources),
+      googleToken: reseal('googleToken', this.googleTokens),
+      systemConfiguration: reseal('systemConfiguration', this.systemConfigurations),
+    };
   }
 
-  async getDataSources(): Promise<DataSource[]> { return this.dataSources; }
-  async getDataSource(id: number): Promise<DataSource | undefined> { return this.dataSources.find(d => d.id === id); }
+  // Credentials stay encrypted in memory so the persisted snapshot never holds them in clear text
+  async getDataSources(): Promise<DataSource[]> { return this.dataSources.map(d => decryptCredentials('dataSource', d)); }
+  async getDataSource(id: number): Promise<DataSource | undefined> {
+    const dataSource = this.dataSources.find(d => d.id === id);
+    return dataSource && decryptCredentials('dataSource', dataSource);
+  }
   async createDataSource(dataSource: InsertDataSource): Promise<DataSource> { 
-    const newDataSource = { ...dataSource, id: this.idCounter++, createdAt: new Date(), updatedAt: new Date() } as DataSource;
+    const newDataSource = { ...encryptCredentials('dataSource', dataSource), id: this.idCounter++, createdAt: new Date(), updatedAt: new Date() } as DataSource;
     this.dataSources.push(newDataSource);
-    return newDataSource;
+    return decryptCredentials('dataSource', newDataSource);
   }
   async updateDataSource(id: number, updates: Partial<InsertDataSource>): Promise<DataSource> {
     const index = this.dataSources.findIndex(d => d.id === id);
     if (index >= 0) {
-      this.dataSources[index] = { ...this.dataSources[index], ...updates, updatedAt: new Date() };
-      return this.dataSources[index];
+      this.dataSources[index] = { ...this.dataSources[index], ...encryptCredentials('dataSource', updates), updatedAt: new Date() };
+      return decryptCredentials('dataSource', this.dataSources[index]);
     }
     throw new Error('Data source not found');
   }
-  async updateDataSourceSyncTime(id: number, error?: string): Promise<void> {
+  async updateDataSourceSyncTime(id: number, error?: string, nextSyncAt?: Date): Promise<void> {
     const dataSource = this.dataSources.find(d => d.id === id);
     if (dataSource) {
       dataSource.lastSyncAt = new Date();
       dataSource.updatedAt = new Date();
+      if (nextSyncAt) {
+        dataSource.nextSyncAt = nextSyncAt;
+      }
       if (error) {
         dataSource.lastError = error;
         dataSource.retryCount = (dataSource.retryCount || 0) + 1;
@@ -1225,13 +1832,56 @@ class MemoryStorage implements IStorage {
     }
   }
 
+  async createSyncRun(run: InsertSyncRun): Promise<SyncRun> {
+    const newRun: SyncRun = {
+      id: this.idCounter++,
+      dataSourceId: run.dataSourceId,
+      trigger: run.trigger,
+      status: run.status,
+      incremental: run.incremental ?? false,
+      truncated: run.truncated ?? false,
+      resumeFrom: run.resumeFrom ?? null,
+      startedAt: run.startedAt || new Date(),
+      finishedAt: run.finishedAt || null,
+      durationMs: run.durationMs ?? null,
+      incidentsCreated: run.incidentsCreated ?? 0,
+      incidentsUpdated: run.incidentsUpdated ?? 0,
+      incidentsUnchanged: run.incidentsUnchanged ?? 0,
+      incidentsResolved: run.incidentsResolved ?? 0,
+      updatesCreated: run.updatesCreated ?? 0,
+      componentsSynced: run.componentsSynced ?? 0,
+      solutionsSynced: run.solutionsSynced ?? 0,
+      ticketsSynced: run.ticketsSynced ?? 0,
+      error: run.error || null,
+    };
+    this.syncRuns.push(newRun);
+    return newRun;
+  }
+  async updateSyncRun(id: number, updates: Partial<InsertSyncRun>): Promise<SyncRun | undefined> {
+    const run = this.syncRuns.find(r => r.id === id);
+    if (run) Object.assign(run, updates);
+    return run;
+  }
+  async getSyncRuns(dataSourceId: number, limit = 50): Promise<SyncRun[]> {
+    return this.syncRuns
+      .filter(r => r.dataSourceId === dataSourceId)
+      .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())
+      .slice(0, limit);
+  }
+  async pruneSyncRuns(dataSourceId: number, keep: number): Promise<number> {
+    const keepIds = new Set((await this.getSyncRuns(dataSourceId, keep)).map(r => r.id));
+    const before = this.syncRuns.length;
+    this.syncRuns = this.syncRuns.filter(r => r.dataSourceId !== dataSourceId || keepIds.has(r.id));
+    return before - this.syncRuns.length;
+  }
+
   async getIncidents(limit = 50, offset = 0): Promise<Incident[]> { return this.incidents.slice(offset, offset + limit); }
   async getIncidentsByDataSource(dataSourceId: number): Promise<Incident[]> { 
     return this.incidents.filter(i => i.dataSourceId === dataSourceId);
   }
   async getIncident(id: number): Promise<Incident | undefined> { return this.incidents.find(i => i.id === id); }
   async createIncident(incident: InsertIncident): Promise<Incident> { 
-    const newIncident = { ...incident, id: this.idCounter++, syncedAt: new Date() } as Incident;
+    const newIncident = { isActive: true, ...incident, id: this.idCounter++, syncedAt: new Date() } as Incident;
     this.incidents.push(newIncident);
     return newIncident;
   }
@@ -1246,17 +1896,21 @@ class MemoryStorage implements IStorage {
   async upsertIncidentByExternalId(externalId: string, dataSourceId: number, incident: InsertIncident): Promise<Incident> {
     const existing = this.incidents.find(i => i.externalId === externalId && i.dataSourceId === dataSourceId);
     if (existing) {
-      return this.updateIncident(existing.id, incident);
+      const updated = await this.updateIncident(existing.id, incident);
+      updated.syncedAt = new Date();
+      return updated;
     } else {
       return this.createIncident(incident);
     }
   }
 
   async getIncidentUpdates(incidentId: number): Promise<IncidentUpdate[]> { 
-    return this.incidentUpdates.filter(u => u.incidentId === incidentId);
+    return this.incidentUpdates
+      .filter(u => u.incidentId === incidentId)
+      .sort((a, b) => new Date(b.timestamp!).getTime() - new Date(a.timestamp!).getTime());
   }
   async createIncidentUpdate(update: InsertIncidentUpdate): Promise<IncidentUpdate> { 
-    const newUpdate = { ...update, id: this.idCounter++, timestamp: new Date() } as IncidentUpdate;
+    const newUpdate = { ...update, id: this.idCounter++, timestamp: update.timestamp || new Date() } as IncidentUpdate;
     this.incidentUpdates.push(newUpdate);
     return newUpdate;
   }
@@ -1278,6 +1932,34 @@ class MemoryStorage implements IStorage {
     }
   }
 
+  async getSupportTickets(dataSourceId: number, status?: string, limit = 100): Promise<SupportTicket[]> {
+    return this.supportTickets
+      .filter(t => t.dataSourceId === dataSourceId && (!status || t.status === status))
+      .sort((a, b) => new Date(b.updatedAt ?? 0).getTime() - new Date(a.updatedAt ?? 0).getTime())
+      .slice(0, limit);
+  }
+  async getSupportTicketsByIncident(incidentId: number): Promise<SupportTicket[]> {
+    return this.supportTickets
+      .filter(t => t.incidentId === incidentId)
+      .sort((a, b) => new Date(b.updatedAt ?? 0).getTime() - new Date(a.updatedAt ?? 0).getTime());
+  }
+  async getSupportTicket(id: number): Promise<SupportTicket | undefined> { return this.supportTickets.find(t => t.id === id); }
+  async upsertSupportTicketByExternalId(externalId: string, dataSourceId: number, ticket: InsertSupportTicket): Promise<SupportTicket> {
+    const existing = this.supportTickets.find(t => t.externalId === externalId && t.dataSourceId === dataSourceId);
+    if (existing) {
+      Object.assign(existing, ticket, { syncedAt: new Date() });
+      return existing;
+    }
+    const newTicket = { incidentId: null, ...ticket, id: this.idCounter++, syncedAt: new Date() } as SupportTicket;
+    this.supportTickets.push(newTicket);
+    return newTicket;
+  }
+  async linkSupportTicket(id: number, incidentId: number | null): Promise<SupportTicket | undefined> {
+    const ticket = this.supportTickets.find(t => t.id === id);
+    if (ticket) ticket.incidentId = incidentId;
+    return ticket;
+  }
+
   async getIncidentMetrics(dataSourceId?: number, days = 30): Promise<IncidentMetric[]> { 
     return this.incidentMetrics.filter(m => !dataSourceId || m.dataSourceId === dataSourceId);
   }
@@ -1307,24 +1989,26 @@ class MemoryStorage implements IStorage {
 
   // Google Meet operations
   async storeGoogleTokens(userId: string, tokenData: InsertGoogleToken): Promise<GoogleToken> {
+    const encryptedTokens = encryptCredentials('googleToken', tokenData);
     const existing = this.googleTokens.find(t => t.userId === userId);
     if (existing) {
-      Object.assign(existing, tokenData, { updatedAt: new Date() });
-      return existing;
+      Object.assign(existing, encryptedTokens, { updatedAt: new Date() });
+      return decryptCredentials('googleToken', existing);
     } else {
       const newToken: GoogleToken = {
-        ...tokenData,
+        ...encryptedTokens,
         id: this.idCounter++,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
       this.googleTokens.push(newToken);
-      return newToken;
+      return decryptCredentials('googleToken', newToken);
     }
   }
 
   async getGoogleTokens(userId: string): Promise<GoogleToken | undefined> {
-    return this.googleTokens.find(t => t.userId === userId);
+    const tokens = this.googleTokens.find(t => t.userId === userId);
+    return tokens && decryptCredentials('googleToken', tokens);
   }
 
   async createGoogleMeeting(meeting: InsertGoogleMeeting): Promise<GoogleMeeting> {
@@ -1404,6 +2088,13 @@ class PersistentStorage extends MemoryStorage {
         incidentMetrics: this.incidentMetrics,
         googleMeetings: this.googleMeetings,
         googleTokens: this.googleTokens,
+        systemConfigurations: this.systemConfigurations,
+        appSettings: Array.from(this.appSettings.entries()),
+        authAttempts: Array.from(this.authAttempts.entries()),
+        auditEvents: this.auditEvents,
+        apiTokens: this.apiTokens,
+        syncRuns: this.syncRuns,
+        supportTickets: this.supportTickets,
         idCounter: this.idCounter,
       };
       
@@ -1442,6 +2133,13 @@ class PersistentStorage extends MemoryStorage {
         this.incidentMetrics = data.incidentMetrics || [];
         this.googleMeetings = data.googleMeetings || [];
         this.googleTokens = data.googleTokens || [];
+        this.systemConfigurations = data.systemConfigurations || [];
+        this.appSettings = new Map(data.appSettings || []);
+        this.authAttempts = new Map(data.authAttempts || []);
+        this.auditEvents = data.auditEvents || [];
+        this.apiTokens = data.apiTokens || [];
+        this.syncRuns = data.syncRuns || [];
+        this.supportTickets = data.supportTickets || [];
         this.idCounter = data.idCounter || 1;
         
         console.log(`✓ Loaded database with ${this.users.size} users, ${this.systems.length} systems, ${this.solutions.length} solutions, ${this.incidents.length} incidents`);
@@ -1501,8 +2199,11 @@ class PersistentStorage extends MemoryStorage {
   }
 }
 
-// Create storage instance - use persistent storage that acts like a database
-const storage: IStorage = new PersistentStorage();
-console.log('✓ Using persistent file-based database storage');
+// Create storage instance - use persistent storage that acts like a database.
+// Tests get a throwaway in-memory store so they never touch .local/itsm_data.json
+const storage: IStorage = process.env.NODE_ENV === 'test' ? new MemoryStorage() : new PersistentStorage();
+if (process.env.NODE_ENV !== 'test') {
+  console.log('✓ Using persistent file-based database storage');
+}
 
 export { storage };
@@ -0,0 +1,147 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { DataSource, Incident } from '@shared/schema';
+
+/**
+ * Shared setup for the server tests (server/*.test.ts, run by `npm test`).
+ * Connectors are exercised against recorded responses in server/fixtures,
+ * served over HTTP so request building and pagination are covered too.
+ */
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+// `{{name}}` placeholders, such as the {{baseUrl}} of pagination links, are filled from `vars`
+export function readFixture(name: string, vars: Record<string, string> = {}): any {
+  const raw = readFileSync(path.join(fixturesDir, name), 'utf8');
+  return JSON.parse(raw.replace(/\{\{(\w+)\}\}/g, (placeholder, key) => vars[key] ?? placeholder));
+}
+
+export function makeDataSource(overrides: Partial<DataSource> = {}): DataSource {
+  return {
+    id: 1,
+    name: 'Test source',
+    type: 'webhook',
+    baseUrl: 'http://127.0.0.1',
+    apiKey: null,
+    oauthConfig: null,
+    syncInterval: 300,
+    isActive: true,
+    lastSyncAt: null,
+    nextSyncAt: null,
+    retryCount: 0,
+    lastError: null,
+    circuitOpenedAt: null,
+    needsReauth: false,
+    webhookSecret: null,
+    metadata: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+// Stands in for a stored incident when only the connector's mapping is under test
+export function makeIncident(overrides: Partial<Incident> = {}): Incident {
+  return {
+    id: 1,
+    externalId: 'ext-1',
+    dataSourceId: 1,
+    systemName: 'Test',
+    title: 'Test incident',
+    description: null,
+    status: 'investigating',
+    severity: 'medium',
+    impact: null,
+    startedAt: new Date(),
+    resolvedAt: null,
+    updatedAt: new Date(),
+    externalUrl: null,
+    affectedServices: [],
+    tags: [],
+    metadata: null,
+    ...overrides,
+  } as Incident;
+}
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+export interface FakeServer {
+  url: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+export type FakeRoute = (request: RecordedRequest, baseUrl: string) => unknown;
+
+/**
+ * An HTTP server answering each request with the JSON its route returns, the
+ * route being picked by method and pathname ("GET /api/v2/alerts"). Unknown
+ * routes get a 404 and a route may throw a `{ status }` object to fail.
+ */
+export async function startFakeServer(routes: Record<string, FakeRoute>): Promise<FakeServer> {
+  const requests: RecordedRequest[] = [];
+  let baseUrl = '';
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      const request: RecordedRequest = {
+        method: req.method || 'GET',
+        url: req.url || '/',
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined,
+      };
+      requests.push(request);
+
+      const route = routes[`${request.method} ${new URL(request.url, baseUrl).pathname}`];
+      let status = 200;
+      let payload: unknown;
+      try {
+        payload = route ? route(request, baseUrl) : (status = 404, { message: 'Not found' });
+      } catch (error) {
+        status = (error as { status?: number }).status ?? 500;
+        payload = { message: 'Fake server error' };
+      }
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload ?? {}));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url: baseUrl,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Run `run` against a connector that `create` builds for a data source
+ * pointed at a fake server answering `routes`. The server is closed
+ * afterwards, whether or not `run` throws.
+ */
+export async function withFakeConnector<T>(
+  routes: Record<string, FakeRoute>,
+  dataSourceOverrides: Partial<DataSource>,
+  create: (dataSource: DataSource) => T,
+  run: (connector: T, server: FakeServer) => Promise<void>,
+): Promise<void> {
+  const server = await startFakeServer(routes);
+  try {
+    await run(create(makeDataSource({ baseUrl: server.url, ...dataSourceOverrides })), server);
+  } finally {
+    await server.close();
+  }
+}
@@ -0,0 +1,157 @@
+import axios from 'axios';
+import { storage } from './storage';
+import { refreshAccessToken, OAuthGrantRejectedError } from './oauth';
+import type { DataSource } from '@shared/schema';
+
+/**
+ * Access tokens for OAuth-connected data sources. Tokens are refreshed a
+ * little before they expire and persisted back to the data source, and a
+ * request the provider rejects with 401 is retried once with a fresh token.
+ * When the provider refuses the refresh itself, the source is flagged with
+ * `needsReauth` until the user connects it again.
+ *
+ * One grant can back several sources (one per Jira site). Atlassian rotates
+ * refresh tokens, so a refresh is shared by every source holding the same
+ * refresh token and its result is written to all of them.
+ */
+
+const REFRESH_MARGIN = 5 * 60 * 1000; // refresh this long before the token expires
+
+// Thrown by request callbacks that see a 401 outside axios, e.g. from fetch
+export class AccessTokenRejectedError extends Error {
+  constructor() {
+    super('Access token rejected');
+  }
+}
+
+export class ReauthRequiredError extends Error {
+  constructor(dataSource: DataSource) {
+    super(`${dataSource.name} needs to be reconnected`);
+  }
+}
+
+export interface StoredOAuthConfig {
+  access_token?: string;
+  refresh_token?: string | null;
+  expires_at?: string | Date | null;
+  // The Atlassian site a Jira source is connected to
+  site_id?: string;
+  site_name?: string;
+  site_url?: string;
+  [key: string]: unknown;
+}
+
+// One refresh per grant at a time, keyed by refresh token; concurrent callers share its result
+const refreshes = new Map<string, Promise<void>>();
+
+function isUnauthorized(error: unknown): boolean {
+  return error instanceof AccessTokenRejectedError
+    || (axios.isAxiosError(error) && error.response?.status === 401);
+}
+
+function expiresSoon(oauthConfig: StoredOAuthConfig): boolean {
+  if (!oauthConfig.expires_at) return false;
+  return new Date(oauthConfig.expires_at).getTime() - Date.now() < REFRESH_MARGIN;
+}
+
+async function loadDataSource(dataSourceId: number): Promise<DataSource> {
+  const dataSource = await storage.getDataSource(dataSourceId);
+  if (!dataSource) {
+    throw new Error(`Data source ${dataSourceId} not found`);
+  }
+  if (dataSource.needsReauth) {
+    throw new ReauthRequiredError(dataSource);
+  }
+  return dataSource;
+}
+
+async function sharingGrant(dataSource: DataSource, refreshToken: string): Promise<DataSource[]> {
+  const dataSources = await storage.getDataSources();
+  return dataSources.filter(ds => ds.id === dataSource.id
+    || (ds.type === dataSource.type && (ds.oauthConfig as StoredOAuthConfig | null)?.refresh_token === refreshToken));
+}
+
+async function refreshGrant(dataSource: DataSource, refreshToken: string): Promise<void> {
+  const holders = await sharingGrant(dataSource, refreshToken);
+
+  try {
+    const tokens = await refreshAccessToken(dataSource.type, refreshToken);
+    for (const holder of holders) {
+      await storage.updateDataSource(holder.id, {
+        oauthConfig: {
+          ...(holder.oauthConfig as StoredOAuthConfig),
+          access_token: tokens.accessToken,
+          // Atlassian rotates refresh tokens; keep the old one if none came back
+          refresh_token: tokens.refreshToken ?? refreshToken,
+          expires_at: tokens.expiresAt,
+        },
+      });
+    }
+  } catch (error) {
+    if (error instanceof OAuthGrantRejectedError) {
+      await Promise.all(holders.map(holder => markNeedsReauth(holder, error.message)));
+      throw new ReauthRequiredError(dataSource);
+    }
+    throw error;
+  }
+}
+
+async function markNeedsReauth(dataSource: DataSource, reason: string): Promise<void> {
+  await storage.updateDataSource(dataSource.id, {
+    needsReauth: true,
+    lastError: `Authorization expired: ${reason}. Reconnect ${dataSource.name}.`,
+  });
+  console.warn(`${dataSource.name} needs to be reconnected: ${reason}`);
+}
+
+async function refreshOnce(stale: DataSource): Promise<DataSource> {
+  // Another caller may have refreshed the grant since `stale` was loaded
+  const dataSource = await loadDataSource(stale.id);
+  const staleToken = (stale.oauthConfig as StoredOAuthConfig | null)?.access_token;
+  if ((dataSource.oauthConfig as StoredOAuthConfig | null)?.access_token !== staleToken) {
+    return dataSource;
+  }
+
+  const refreshToken = (dataSource.oauthConfig as StoredOAuthConfig | null)?.refresh_token;
+  if (!refreshToken) {
+    await markNeedsReauth(dataSource, `${dataSource.name} has no refresh token`);
+    throw new ReauthRequiredError(dataSource);
+  }
+
+  let refresh = refreshes.get(refreshToken);
+  if (!refresh) {
+    refresh = refreshGrant(dataSource, refreshToken).finally(() => refreshes.delete(refreshToken));
+    refreshes.set(refreshToken, refresh);
+  }
+  await refresh;
+  return loadDataSource(dataSource.id);
+}
+
+/**
+ * Run `request` with a valid access token for the data source, refreshing
+ * beforehand if the token is about to expire and retrying once if the
+ * provider still answers 401.
+ */
+export async function withAccessToken<T>(
+  dataSourceId: number,
+  request: (accessToken: string, dataSource: DataSource) => Promise<T>,
+): Promise<T> {
+  let dataSource = await loadDataSource(dataSourceId);
+  if (expiresSoon((dataSource.oauthConfig || {}) as StoredOAuthConfig)) {
+    dataSource = await refreshOnce(dataSource);
+  }
+
+  const accessToken = (dataSource.oauthConfig as StoredOAuthConfig | null)?.access_token;
+  if (!accessToken) {
+    throw new Error(`${dataSource.name} has no access token`);
+  }
+
+  try {
+    return await request(accessToken, dataSource);
+  } catch (error) {
+    if (!isUnauthorized(error)) throw error;
+
+    const refreshed = await refreshOnce(dataSource);
+    return request((refreshed.oauthConfig as StoredOAuthConfig).access_token!, refreshed);
+  }
+}
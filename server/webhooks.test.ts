@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { StatusPageConnector } from './connectors';
+import { generateWebhookSecret, verifyWebhookSignature, webhookUrlToken } from './webhooks';
+import { makeDataSource, makeIncident, readFixture } from './testHelpers';
+
+const payload = readFixture('statuspage-webhook.json');
+const rawBody = Buffer.from(JSON.stringify(payload));
+
+test('a Statuspage push with no signature or Authorization header is accepted with the URL token', () => {
+  const secret = generateWebhookSecret();
+  // Statuspage sends nothing but a JSON content type
+  const headers = { 'content-type': 'application/json' };
+
+  assert.equal(verifyWebhookSignature(secret, rawBody, headers, webhookUrlToken(secret)), true);
+  assert.equal(verifyWebhookSignature(secret, rawBody, headers), false);
+  assert.equal(verifyWebhookSignature(secret, rawBody, headers, webhookUrlToken(generateWebhookSecret())), false);
+  assert.equal(verifyWebhookSignature(secret, rawBody, headers, ''), false);
+  // The secret itself is not a URL token
+  assert.equal(verifyWebhookSignature(secret, rawBody, headers, secret), false);
+});
+
+test('the URL token does not override a bad signature', () => {
+  const secret = generateWebhookSecret();
+  const headers = { 'x-querylinker-signature': 'sha256=0000' };
+
+  assert.equal(verifyWebhookSignature(secret, rawBody, headers, webhookUrlToken(secret)), false);
+});
+
+test('signed and bearer pushes are still verified', () => {
+  const secret = generateWebhookSecret();
+  const signature = createHmac('sha256', secret).update(rawBody).digest('hex');
+
+  assert.equal(verifyWebhookSignature(secret, rawBody, { 'x-querylinker-signature': `sha256=${signature}` }), true);
+  assert.equal(verifyWebhookSignature(secret, rawBody, { 'x-hub-signature-256': `sha256=${signature.toUpperCase()}` }), true);
+  assert.equal(verifyWebhookSignature(secret, rawBody, { authorization: `Bearer ${secret}` }), true);
+  assert.equal(verifyWebhookSignature(secret, rawBody, { authorization: 'Bearer whsec_wrong' }), false);
+});
+
+test('a Statuspage incident notification maps to an incident and its timeline', () => {
+  const connector = new StatusPageConnector({ dataSource: makeDataSource({ id: 7, type: 'statuspage' }) });
+  const [pushed, ...rest] = connector.parseWebhook(payload);
+
+  assert.equal(rest.length, 0);
+  assert.equal(pushed.incident.externalId, 'lbkhbwn21v5q');
+  assert.equal(pushed.incident.dataSourceId, 7);
+  assert.equal(pushed.incident.title, 'Elevated errors on the orders API');
+  assert.equal(pushed.incident.status, 'monitoring');
+  assert.deepEqual(pushed.incident.affectedServices, ['Orders API']);
+
+  const timeline = pushed.timeline!(makeIncident({ id: 42 }));
+  assert.deepEqual(timeline.map(update => [update.externalId, update.previousStatus, update.newStatus]), [
+    ['mkd5ttpfmzqd', null, 'investigating'],
+    ['drfcwbnpxnr6', 'investigating', 'monitoring'],
+  ]);
+  assert.ok(timeline.every(update => update.incidentId === 42));
+});
+
+test('component-only Statuspage notifications record nothing', () => {
+  const connector = new StatusPageConnector({ dataSource: makeDataSource({ type: 'statuspage' }) });
+
+  assert.deepEqual(connector.parseWebhook({ component_update: { new_status: 'operational' }, component: {} }), []);
+  assert.throws(() => connector.parseWebhook({ page: {} }), /Not a Statuspage incident notification/);
+});
@@ -0,0 +1,192 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { z } from 'zod';
+import { BaseConnector, type PushedIncident } from './connectors';
+import { registerConnector } from './connectorRegistry';
+import type { Incident, InsertIncident, InsertIncidentUpdate, InsertServiceComponent } from '@shared/schema';
+
+/**
+ * Inbound webhooks. Every data source whose connector has the 'webhooks'
+ * capability can receive pushes at POST /api/webhooks/:dataSourceId, signed
+ * with the source's own secret:
+ *
+ *   X-QueryLinker-Signature: sha256=<hex HMAC-SHA256 of the raw body>
+ *
+ * X-Hub-Signature-256 and X-Hub-Signature are accepted in the same form,
+ * which is what Jira Cloud sends when a webhook has a secret. Alertmanager
+ * cannot sign but can send `Authorization: Bearer <secret>`. Statuspage can do
+ * neither, so its subscriptions use the webhook URL with the source's URL
+ * token instead:
+ *
+ *   POST /api/webhooks/:dataSourceId?token=<webhookUrlToken(secret)>
+ *
+ * The token is derived from the secret, so the secret itself never ends up in
+ * the sender's or a proxy's request logs, and rotating the secret replaces it.
+ *
+ * Sources of type 'webhook' take the generic format below from anything that
+ * can POST JSON:
+ *
+ *   {
+ *     "incidents": [{
+ *       "id": "db-primary-failover",           // stable per incident, required
+ *       "title": "Primary database failover",  // required
+ *       "status": "investigating",             // investigating | identified | monitoring | resolved
+ *       "severity": "high",                    // critical | high | medium | low
+ *       "description": "...", "impact": "partial_outage",
+ *       "startedAt": "2024-05-01T10:00:00Z", "resolvedAt": null,
+ *       "url": "https://...", "affectedServices": ["orders"], "tags": ["db"],
+ *       "updates": [{ "id": "u1", "message": "Failing over", "status": "identified", "timestamp": "..." }]
+ *     }]
+ *   }
+ */
+
+const SIGNATURE_HEADERS = ['x-querylinker-signature', 'x-hub-signature-256', 'x-hub-signature'];
+const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+export function generateWebhookSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString('hex')}`;
+}
+
+// Derived rather than stored, so it changes with the secret it belongs to
+export function webhookUrlToken(secret: string): string {
+  return createHmac('sha256', secret).update('webhook-url-token').digest('hex');
+}
+
+// Compare digests so neither length nor content leaks through timing
+function safeEqual(a: string, b: string): boolean {
+  return timingSafeEqual(createHash('sha256').update(a).digest(), createHash('sha256').update(b).digest());
+}
+
+export function verifyWebhookSignature(
+  secret: string,
+  rawBody: Buffer,
+  headers: IncomingHttpHeaders,
+  urlToken?: unknown,
+): boolean {
+  for (const name of SIGNATURE_HEADERS) {
+    const header = headers[name];
+    if (typeof header !== 'string') continue;
+
+    const [algorithm, signature] = header.split('=', 2);
+    if (algorithm !== 'sha256' || !signature) return false;
+    return safeEqual(createHmac('sha256', secret).update(rawBody).digest('hex'), signature.toLowerCase());
+  }
+
+  const authorization = headers.authorization;
+  if (typeof authorization === 'string' && authorization.startsWith('Bearer ')) {
+    return safeEqual(authorization.slice('Bearer '.length), secret);
+  }
+  if (typeof urlToken === 'string' && urlToken) {
+    return safeEqual(urlToken, webhookUrlToken(secret));
+  }
+  return false;
+}
+
+const incidentStatusSchema = z.enum(['investigating', 'identified', 'monitoring', 'resolved']);
+
+const genericUpdateSchema = z.object({
+  id: z.string().min(1),
+  message: z.string(),
+  status: incidentStatusSchema.optional(),
+  timestamp: z.coerce.date().optional(),
+});
+
+const genericIncidentSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  status: incidentStatusSchema.default('investigating'),
+  severity: z.enum(['critical', 'high', 'medium', 'low']).default('medium'),
+  impact: z.string().optional(),
+  startedAt: z.coerce.date().optional(),
+  resolvedAt: z.coerce.date().nullable().optional(),
+  url: z.string().url().optional(),
+  affectedServices: z.array(z.string()).default([]),
+  tags: z.array(z.string()).default([]),
+  updates: z.array(genericUpdateSchema).default([]),
+});
+
+export const genericWebhookSchema = z.object({
+  incidents: z.array(genericIncidentSchema).min(1),
+});
+
+// Receives the generic webhook format; there is nothing to poll
+export class GenericWebhookConnector extends BaseConnector {
+  async fetchIncidents(): Promise<InsertIncident[]> {
+    return [];
+  }
+
+  async fetchComponents(): Promise<InsertServiceComponent[]> {
+    return [];
+  }
+
+  async fetchIncidentUpdates(incident: Incident): Promise<InsertIncidentUpdate[]> {
+    return [];
+  }
+
+  async testConnection(): Promise<string> {
+    return 'Webhook sources receive pushes; there is nothing to connect to';
+  }
+
+  parseWebhook(payload: any): PushedIncident[] {
+    const { dataSource } = this.config;
+    const { incidents } = genericWebhookSchema.parse(payload);
+
+    return incidents.map(incident => ({
+      incident: {
+        externalId: incident.id,
+        dataSourceId: dataSource.id,
+        systemName: dataSource.name,
+        title: incident.title,
+        description: incident.description || '',
+        status: incident.status,
+        severity: incident.severity,
+        impact: incident.impact ?? null,
+        startedAt: incident.startedAt ?? null,
+        resolvedAt: incident.resolvedAt ?? (incident.status === 'resolved' ? new Date() : null),
+        updatedAt: new Date(),
+        externalUrl: incident.url ?? null,
+        affectedServices: incident.affectedServices,
+        tags: incident.tags,
+        metadata: { source: 'webhook' },
+      },
+      timeline: stored => this.mapUpdates(stored, incident.updates),
+    }));
+  }
+
+  // Oldest first, so each entry knows the status it replaced
+  private mapUpdates(incident: Incident, updates: z.infer<typeof genericUpdateSchema>[]): InsertIncidentUpdate[] {
+    const ordered = [...updates].sort((a, b) => (a.timestamp?.getTime() ?? 0) - (b.timestamp?.getTime() ?? 0));
+    let previousStatus: string | null = null;
+
+    return ordered.map(update => {
+      const newStatus = update.status ?? previousStatus;
+      const entry: InsertIncidentUpdate = {
+        incidentId: incident.id,
+        externalId: update.id,
+        updateType: newStatus === previousStatus
+          ? 'new_update'
+          : newStatus === 'resolved' ? 'resolved' : 'status_change',
+        previousStatus,
+        newStatus,
+        message: update.message,
+        timestamp: update.timestamp ?? new Date(),
+        metadata: { source: 'webhook' },
+      };
+      previousStatus = newStatus;
+      return entry;
+    });
+  }
+}
+
+registerConnector({
+  type: 'webhook',
+  name: 'Generic Webhook',
+  description: 'Incidents pushed as JSON by any tool that can send a webhook',
+  capabilities: ['webhooks'],
+  configSchema: z.object({
+    // Nothing is fetched from here; it only identifies the sender
+    baseUrl: z.string().url().default('https://webhook.invalid').describe('Sender URL'),
+  }),
+  create: config => new GenericWebhookConnector(config),
+});
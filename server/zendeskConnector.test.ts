@@ -0,0 +1,168 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { syncService } from './connectors';
+import { ZendeskConnector } from './zendeskConnector';
+import { storage } from './storage';
+import { readFixture, withFakeConnector, type FakeRoute, type FakeServer } from './testHelpers';
+
+const EXPORT_PATH = 'GET /api/v2/incremental/tickets/cursor.json';
+
+function withZendesk(
+  routes: Record<string, FakeRoute>,
+  run: (connector: (lastSyncTime?: Date) => ZendeskConnector, server: FakeServer) => Promise<void>,
+) {
+  return withFakeConnector(
+    routes,
+    { id: 5, type: 'zendesk', apiKey: 'zd-token', metadata: { email: 'sam@acme.example' } },
+    // With a trailing slash, as the instance URL is often pasted
+    dataSource => (lastSyncTime?: Date) =>
+      new ZendeskConnector({ dataSource: { ...dataSource, baseUrl: `${dataSource.baseUrl}/` }, lastSyncTime }),
+    run,
+  );
+}
+
+// Serves the recorded export: the first page, then the one its after_url points at
+const exportRoutes = {
+  [EXPORT_PATH]: (request: { url: string }, baseUrl: string) =>
+    readFixture('zendesk-ticket-export.json', { baseUrl })[request.url.includes('cursor=') ? 1 : 0],
+};
+
+test('the cursor export is followed to end_of_stream and keeps the latest copy of each ticket', async () => {
+  await withZendesk(exportRoutes, async (connector, server) => {
+    const { tickets, truncated } = await connector(new Date('2024-05-01T10:00:00Z')).fetchSupportTickets();
+    assert.equal(truncated, false);
+
+    assert.equal(server.requests.length, 2);
+    assert.deepEqual(tickets.map(ticket => [ticket.externalId, ticket.status]), [
+      ['101', 'pending'],
+      ['102', 'new'],
+      ['103', 'deleted'],
+    ]);
+    assert.equal(tickets[0].priority, 'urgent');
+    assert.equal(server.requests[0].headers.authorization, `Basic ${Buffer.from('sam@acme.example/token:zd-token').toString('base64')}`);
+  });
+});
+
+test('incremental exports start a few minutes before the last sync, full ones 90 days back', async () => {
+  await withZendesk(exportRoutes, async (connector, server) => {
+    // The first request of an export carries its start_time
+    const startTime = () => Number(new URL(server.requests[0].url, server.url).searchParams.get('start_time'));
+
+    await connector(new Date('2024-05-01T10:00:00Z')).fetchSupportTickets();
+    assert.equal(startTime(), Date.parse('2024-05-01T09:55:00Z') / 1000);
+
+    server.requests.length = 0;
+    const ninetyDaysAgo = Math.floor(Date.now() / 1000) - 90 * 24 * 60 * 60;
+    await connector().fetchSupportTickets();
+    assert.ok(Math.abs(startTime() - ninetyDaysAgo) <= 5);
+  });
+});
+
+test('tickets are mapped with their requester, assignee and link', async () => {
+  await withZendesk(exportRoutes, async connector => {
+    const { tickets: [checkout, login] } = await connector().fetchSupportTickets();
+
+    assert.equal(checkout.subject, 'Checkout keeps timing out');
+    assert.equal(checkout.description, 'Every order since 9am fails at the payment step.');
+    assert.equal(checkout.type, 'incident');
+    assert.equal(checkout.requester, 'Dana Customer');
+    assert.equal(checkout.assignee, 'Sam Agent');
+    assert.deepEqual(checkout.tags, ['checkout', 'payments', 'outage']);
+    assert.equal(checkout.externalUrl?.endsWith('/agent/tickets/101'), true);
+    assert.equal(checkout.updatedAt?.toISOString(), '2024-05-01T10:30:00.000Z');
+    assert.deepEqual(checkout.metadata, {
+      source: 'zendesk',
+      requesterEmail: 'dana@customer.example',
+      groupId: 301,
+      organizationId: 501,
+      channel: 'email',
+      problemId: 99,
+    });
+
+    // No subject falls back to the raw one; unknown users and missing fields come through as null
+    assert.equal(login.subject, 'Cannot log in');
+    assert.equal(login.requester, null);
+    assert.equal(login.assignee, null);
+    assert.equal(login.priority, null);
+    assert.equal(login.type, null);
+  });
+});
+
+test('articles missing from a truncated listing are not archived', async () => {
+  let hasMore = true;
+  const routes = {
+    'GET /api/v2/help_center/articles.json': (_request: unknown, baseUrl: string) => {
+      const page = readFixture('zendesk-articles.json', { baseUrl });
+      page.meta.has_more = hasMore;
+      return page;
+    },
+    [EXPORT_PATH]: () => ({ tickets: [], users: [], end_of_stream: true }),
+  };
+
+  await withZendesk(routes, async (_connector, server) => {
+    const dataSource = await storage.createDataSource({
+      name: 'Zendesk',
+      type: 'zendesk',
+      baseUrl: server.url,
+      apiKey: 'zd-token',
+      metadata: { email: 'sam@acme.example' },
+    });
+    const older = await storage.upsertSolutionByExternalId('360999', dataSource.id, {
+      dataSourceId: dataSource.id,
+      externalId: '360999',
+      title: 'Older article',
+      content: 'Past the last page that was read',
+      status: 'active',
+    });
+
+    // Every page says there is more, so the listing stops at the page cap
+    const truncated = await syncService.syncDataSource(dataSource);
+    assert.equal(truncated.solutionsSynced, 1);
+    assert.equal(server.requests.filter(request => request.url.includes('help_center')).length, 50);
+    assert.equal((await storage.getSolution(older.id))?.status, 'active');
+
+    const [article] = (await storage.getSolutionsByDataSource(dataSource.id)).filter(solution => solution.externalId === '360001');
+    assert.equal(article.content, 'Retry the payment once.\nIf it fails again, clear the cart & start over.');
+
+    hasMore = false;
+    await syncService.syncDataSource(dataSource);
+    assert.equal((await storage.getSolution(older.id))?.status, 'archived');
+  });
+});
+
+test('a ticket export stopped at the page cap is continued from the last ticket read', async () => {
+  let page = 0;
+  const routes = {
+    // The export never reaches end_of_stream, each page one ticket later than the last
+    [EXPORT_PATH]: (_request: unknown, baseUrl: string) => ({
+      tickets: [{ id: 200 + page, subject: 'Export', status: 'open', updated_at: new Date(Date.UTC(2024, 4, 1, 10, page++)).toISOString() }],
+      users: [],
+      end_of_stream: false,
+      after_url: `${baseUrl}/api/v2/incremental/tickets/cursor.json?cursor=next`,
+    }),
+    'GET /api/v2/help_center/articles.json': () => ({ articles: [], meta: { has_more: false } }),
+  };
+
+  await withZendesk(routes, async (_connector, server) => {
+    const dataSource = await storage.createDataSource({
+      name: 'Zendesk export',
+      type: 'zendesk',
+      baseUrl: server.url,
+      apiKey: 'zd-token',
+      metadata: { email: 'sam@acme.example' },
+    });
+    await storage.createSyncRun({ dataSourceId: dataSource.id, trigger: 'schedule', status: 'succeeded', startedAt: new Date(Date.now() - 60 * 60 * 1000) });
+
+    const stats = await syncService.syncDataSource(dataSource);
+    assert.equal(stats.truncated, true);
+    assert.equal(server.requests.filter(request => request.url.includes('incremental')).length, 50);
+    assert.equal(stats.resumeFrom?.toISOString(), '2024-05-01T10:49:00.000Z');
+    await storage.createSyncRun({ dataSourceId: dataSource.id, trigger: 'schedule', status: 'succeeded', ...stats, startedAt: new Date() });
+
+    // The next export starts where this one stopped, not back at the last complete sync
+    server.requests.length = 0;
+    await syncService.syncDataSource(dataSource);
+    const startTime = Number(new URL(server.requests.find(request => request.url.includes('start_time'))!.url, server.url).searchParams.get('start_time'));
+    assert.equal(startTime, Date.parse('2024-05-01T10:49:00Z') / 1000);
+  });
+});
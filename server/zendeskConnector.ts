@@ -0,0 +1,273 @@
+import axios from 'axios';
+import { z } from 'zod';
+import { BaseConnector, stripHtml, type SolutionListing, type TicketListing } from './connectors';
+import { registerConnector } from './connectorRegistry';
+import type {
+  InsertIncident,
+  InsertIncidentUpdate,
+  InsertServiceComponent,
+  InsertSolution,
+  InsertSupportTicket,
+} from '@shared/schema';
+
+/**
+ * Zendesk Support. Syncs read customer tickets through the cursor-based
+ * incremental ticket export, so each run only transfers the tickets changed
+ * since the previous one, and import Help Center articles as solutions. The
+ * same connector backs the ticket routes of the Zendesk panel.
+ *
+ * Sources sign in with an agent's email and API token, or with the tokens of
+ * an OAuth connection made through /api/auth/zendesk.
+ */
+
+const ZENDESK_MAX_PAGES = 50; // the export returns up to 1000 tickets a page
+const ZENDESK_ARTICLE_PAGE_SIZE = 100;
+const ZENDESK_INITIAL_EXPORT_DAYS = 90; // how far back a full sync exports
+const ZENDESK_SYNC_OVERLAP_MINUTES = 5; // re-read a little before the last sync so clock skew loses nothing
+
+// 'deleted' only comes through the incremental export
+export type ZendeskTicketStatus = 'new' | 'open' | 'pending' | 'hold' | 'solved' | 'closed' | 'deleted';
+
+export const zendeskTicketSchema = z.object({
+  subject: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  priority: z.enum(['low', 'normal', 'high', 'urgent']).default('normal'),
+  type: z.enum(['question', 'incident', 'problem', 'task']).default('question'),
+  tags: z.array(z.string()).optional(),
+});
+
+export const zendeskTicketUpdateSchema = z.object({
+  subject: z.string().trim().min(1).optional(),
+  // Closed tickets can no longer be changed, so they cannot be set here either
+  status: z.enum(['open', 'pending', 'hold', 'solved']).optional(),
+  priority: z.enum(['low', 'normal', 'high', 'urgent']).optional(),
+  type: z.enum(['question', 'incident', 'problem', 'task']).optional(),
+  tags: z.array(z.string()).optional(),
+}).refine(updates => Object.values(updates).some(v => v !== undefined), { message: 'Nothing to update' });
+
+export const zendeskCommentSchema = z.object({
+  body: z.string().trim().min(1),
+  // Public comments are emailed to the requester; private ones are internal notes
+  public: z.boolean().default(true),
+});
+
+export type ZendeskTicketInput = z.infer<typeof zendeskTicketSchema>;
+export type ZendeskTicketUpdate = z.infer<typeof zendeskTicketUpdateSchema>;
+export type ZendeskComment = z.infer<typeof zendeskCommentSchema>;
+
+export class ZendeskConnector extends BaseConnector {
+  private get instanceUrl(): string {
+    return this.config.dataSource.baseUrl.replace(/\/+$/, '');
+  }
+
+  get isIncremental(): boolean {
+    return !!this.config.lastSyncTime;
+  }
+
+  // OAuth-connected sources use their access token, the others an API token
+  private authorize<T>(send: (headers: Record<string, string>) => Promise<T>): Promise<T> {
+    const { dataSource } = this.config;
+    if ((dataSource.oauthConfig as { access_token?: string } | null)?.access_token) {
+      return this.withAccessToken(accessToken => send({ 'Authorization': `Bearer ${accessToken}` }));
+    }
+
+    const email = (dataSource.metadata as Record<string, unknown> | null)?.email;
+    if (typeof email !== 'string' || !email || !dataSource.apiKey) {
+      throw new Error(`${dataSource.name} needs an agent email and API token, or an OAuth connection`);
+    }
+    return send({ 'Authorization': `Basic ${Buffer.from(`${email}/token:${dataSource.apiKey}`).toString('base64')}` });
+  }
+
+  // Paths are relative to the instance; pagination links come back absolute
+  private get(pathOrUrl: string): Promise<any> {
+    const url = pathOrUrl.startsWith('http') ? pathOrUrl : `${this.instanceUrl}${pathOrUrl}`;
+    return this.authorize(headers => this.makeRequest(url, { ...headers, 'Accept': 'application/json' }));
+  }
+
+  private async write(method: 'post' | 'put', path: string, body: Record<string, unknown>): Promise<any> {
+    const response = await this.authorize(headers => axios.request({
+      method,
+      url: `${this.instanceUrl}${path}`,
+      data: body,
+      headers: { ...headers, 'Accept': 'application/json', 'Content-Type': 'application/json', 'User-Agent': 'QueryLinker/1.0' },
+      timeout: 30000,
+    }));
+    return response.data;
+  }
+
+  async testConnection(): Promise<string> {
+    const { user } = await this.get('/api/v2/users/me.json');
+    return `Connected to ${this.instanceUrl} as ${user.name} (${user.role})`;
+  }
+
+  // Customer tickets are not incidents; they are synced by fetchSupportTickets
+  async fetchIncidents(): Promise<InsertIncident[]> {
+    return [];
+  }
+
+  async fetchComponents(): Promise<InsertServiceComponent[]> {
+    return [];
+  }
+
+  async fetchIncidentUpdates(): Promise<InsertIncidentUpdate[]> {
+    return [];
+  }
+
+  /**
+   * Tickets changed since the last sync, or over the last
+   * ZENDESK_INITIAL_EXPORT_DAYS on a full one. Deleted tickets come through
+   * the export with the status 'deleted'. An export stopped at
+   * ZENDESK_MAX_PAGES is truncated, and the next sync continues it from the
+   * update time of the last ticket read.
+   */
+  async fetchSupportTickets(): Promise<TicketListing> {
+    const { lastSyncTime, resumeFrom } = this.config;
+    // Update times are Zendesk's own, so resuming needs no allowance for clock skew
+    const since = resumeFrom
+      ? resumeFrom.getTime()
+      : lastSyncTime
+        ? lastSyncTime.getTime() - ZENDESK_SYNC_OVERLAP_MINUTES * 60 * 1000
+        : Date.now() - ZENDESK_INITIAL_EXPORT_DAYS * 24 * 60 * 60 * 1000;
+
+    const tickets: any[] = [];
+    const users = new Map<number, any>();
+    let url: string | undefined =
+      `/api/v2/incremental/tickets/cursor.json?start_time=${Math.floor(since / 1000)}&include=users`;
+
+    for (let page = 0; url && page < ZENDESK_MAX_PAGES; page++) {
+      const data: any = await this.get(url);
+      tickets.push(...(data.tickets || []));
+      for (const user of data.users || []) users.set(user.id, user);
+      url = data.end_of_stream ? undefined : data.after_url;
+    }
+
+    const truncated = !!url;
+    let stoppedAt: Date | undefined;
+    if (truncated) {
+      console.warn(`Zendesk ticket export for ${this.config.dataSource.name} stopped after ${tickets.length} tickets`);
+      // The export runs in update order; the next one starts where this one stopped
+      const lastUpdated = Math.max(...tickets.map(ticket => Date.parse(ticket.updated_at)).filter(Number.isFinite));
+      if (Number.isFinite(lastUpdated)) stoppedAt = new Date(lastUpdated);
+    }
+
+    // A ticket changed twice during the export is listed twice; keep the latest
+    const latest = new Map(tickets.map(ticket => [ticket.id, ticket] as const));
+    return {
+      tickets: Array.from(latest.values()).map(ticket => this.mapTicket(ticket, users)),
+      truncated,
+      resumeFrom: stoppedAt,
+    };
+  }
+
+  // Published Help Center articles; drafts are left out
+  async fetchSolutions(): Promise<SolutionListing> {
+    const articles: any[] = [];
+    let url: string | undefined = `/api/v2/help_center/articles.json?page[size]=${ZENDESK_ARTICLE_PAGE_SIZE}`;
+
+    for (let page = 0; url && page < ZENDESK_MAX_PAGES; page++) {
+      const data: any = await this.get(url);
+      articles.push(...(data.articles || []));
+      url = data.meta?.has_more ? data.links?.next : undefined;
+    }
+
+    // Pages were left unread, so articles missing from the listing are not gone
+    const truncated = !!url;
+    if (truncated) {
+      console.warn(`Zendesk article listing for ${this.config.dataSource.name} stopped after ${articles.length} articles`);
+    }
+
+    const solutions: InsertSolution[] = articles.filter(article => !article.draft).map(article => ({
+      dataSourceId: this.config.dataSource.id,
+      externalId: String(article.id),
+      title: article.title,
+      content: stripHtml(article.body || ''),
+      url: article.html_url,
+      tags: ['zendesk', ...(article.label_names || [])],
+      metadata: {
+        source: 'zendesk',
+        sectionId: article.section_id,
+        locale: article.locale,
+        authorId: article.author_id,
+        updatedAt: article.updated_at,
+      },
+    }));
+    return { solutions, truncated };
+  }
+
+  async createTicket(input: ZendeskTicketInput): Promise<InsertSupportTicket> {
+    const { ticket } = await this.write('post', '/api/v2/tickets.json', {
+      ticket: {
+        subject: input.subject,
+        comment: { body: input.description },
+        priority: input.priority,
+        type: input.type,
+        ...(input.tags ? { tags: input.tags } : {}),
+      },
+    });
+    return this.fetchTicket(String(ticket.id));
+  }
+
+  async updateTicket(externalId: string, updates: ZendeskTicketUpdate): Promise<InsertSupportTicket> {
+    await this.write('put', `/api/v2/tickets/${encodeURIComponent(externalId)}.json`, { ticket: updates });
+    return this.fetchTicket(externalId);
+  }
+
+  async addComment(externalId: string, comment: ZendeskComment): Promise<InsertSupportTicket> {
+    await this.write('put', `/api/v2/tickets/${encodeURIComponent(externalId)}.json`, {
+      ticket: { comment: { body: comment.body, public: comment.public } },
+    });
+    return this.fetchTicket(externalId);
+  }
+
+  // Write responses carry no users, so the ticket is read back with them
+  private async fetchTicket(externalId: string): Promise<InsertSupportTicket> {
+    const data = await this.get(`/api/v2/tickets/${encodeURIComponent(externalId)}.json?include=users`);
+    const users = new Map<number, any>((data.users || []).map((user: any) => [user.id, user] as const));
+    return this.mapTicket(data.ticket, users);
+  }
+
+  private mapTicket(ticket: any, users: Map<number, any>): InsertSupportTicket {
+    const requester = users.get(ticket.requester_id);
+    const assignee = users.get(ticket.assignee_id);
+
+    return {
+      dataSourceId: this.config.dataSource.id,
+      externalId: String(ticket.id),
+      subject: ticket.subject || ticket.raw_subject || `Ticket #${ticket.id}`,
+      description: ticket.description || '',
+      status: ticket.status,
+      priority: ticket.priority ?? null,
+      type: ticket.type ?? null,
+      requester: requester?.name ?? null,
+      assignee: assignee?.name ?? null,
+      tags: ticket.tags || [],
+      externalUrl: `${this.instanceUrl}/agent/tickets/${ticket.id}`,
+      createdAt: new Date(ticket.created_at),
+      updatedAt: new Date(ticket.updated_at),
+      metadata: {
+        source: 'zendesk',
+        requesterEmail: requester?.email ?? null,
+        groupId: ticket.group_id ?? null,
+        organizationId: ticket.organization_id ?? null,
+        channel: ticket.via?.channel ?? null,
+        problemId: ticket.problem_id ?? null,
+      },
+    };
+  }
+}
+
+registerConnector({
+  type: 'zendesk',
+  name: 'Zendesk',
+  description: 'Zendesk Support tickets and Help Center articles',
+  capabilities: ['tickets', 'knowledge', 'write_back'],
+  configSchema: z.object({
+    baseUrl: z.string().url().describe('Zendesk URL'),
+    // Left out for sources connected through OAuth
+    apiKey: z.string().optional().describe('API token'),
+    metadata: z.object({
+      email: z.string().optional().describe('Agent email'),
+    }).passthrough().optional(),
+  }),
+  create: config => new ZendeskConnector(config),
+});
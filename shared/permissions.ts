@@ -0,0 +1,79 @@
+// Role-based access control shared by the API middleware and the client UI
+
+export const ROLES = ['viewer', 'responder', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export const PERMISSIONS = [
+  'dashboard:view',
+  'search:use',
+  'solutions:view',
+  'solutions:manage',
+  'incidents:view',
+  'incidents:manage',
+  'sla:view',
+  'sla:manage',
+  'systems:view',
+  'systems:sync',
+  'systems:manage',
+  'data_sources:view',
+  'data_sources:sync',
+  'data_sources:manage',
+  'integrations:use',
+  'meetings:manage',
+  'users:manage',
+  'settings:manage',
+  'audit:view',
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+const viewerPermissions: Permission[] = [
+  'dashboard:view',
+  'search:use',
+  'solutions:view',
+  'incidents:view',
+  'sla:view',
+  'systems:view',
+  'data_sources:view',
+];
+
+const responderPermissions: Permission[] = [
+  ...viewerPermissions,
+  'solutions:manage',
+  'incidents:manage',
+  'systems:sync',
+  'data_sources:sync',
+  'integrations:use',
+  'meetings:manage',
+];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  viewer: viewerPermissions,
+  responder: responderPermissions,
+  admin: PERMISSIONS,
+};
+
+// Accounts created before roles existed were stored as 'user' and keep responder access
+const LEGACY_ROLE_ALIASES: Record<string, Role> = {
+  user: 'responder',
+};
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && (PERMISSIONS as readonly string[]).includes(value);
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+export function normalizeRole(role: string | null | undefined): Role {
+  if (isRole(role)) return role;
+  return (role && LEGACY_ROLE_ALIASES[role]) || 'viewer';
+}
+
+export function getRolePermissions(role: string | null | undefined): readonly Permission[] {
+  return ROLE_PERMISSIONS[normalizeRole(role)];
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return getRolePermissions(role).includes(permission);
+}
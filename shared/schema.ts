@@ -11,6 +11,7 @@ import {
   serial,
   interval,
   primaryKey,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -37,10 +38,23 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url"),
   role: varchar("role").notNull().default('user'),
   emailVerified: boolean("email_verified").default(false),
+  emailVerificationCode: varchar("email_verification_code"), // sha256 of the emailed 6-digit code
+  emailVerificationExpires: timestamp("email_verification_expires"),
+  emailVerificationSentAt: timestamp("email_verification_sent_at"),
+  emailVerificationAttempts: integer("email_verification_attempts").default(0),
   passwordResetCode: varchar("password_reset_code", { length: 6 }),
   passwordResetExpires: timestamp("password_reset_expires"),
   lastLoginAt: timestamp("last_login_at"),
   authProvider: varchar("auth_provider").default('email'), // email, google, apple, replit
+  isActive: boolean("is_active").default(true),
+  invitationToken: varchar("invitation_token"), // sha256 of the emailed token
+  invitationExpires: timestamp("invitation_expires"),
+  invitedBy: varchar("invited_by"),
+  mfaEnabled: boolean("mfa_enabled").default(false),
+  mfaSecret: varchar("mfa_secret"), // base32 TOTP secret
+  mfaRecoveryCodes: jsonb("mfa_recovery_codes").$type<string[]>(), // sha256 of unused recovery codes
+  mfaLastUsedStep: integer("mfa_last_used_step"), // last accepted TOTP time step, rejects replays
+  isServiceAccount: boolean("is_service_account").default(false), // non-interactive identity that only authenticates with API tokens
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -61,17 +75,20 @@ export const systems = pgTable("systems", {
 export const solutions = pgTable("solutions", {
   id: serial("id").primaryKey(),
   systemId: integer("system_id").references(() => systems.id),
+  dataSourceId: integer("data_source_id").references(() => dataSources.id), // set for articles synced by a connector
   externalId: varchar("external_id"),
   title: text("title").notNull(),
   content: text("content"),
   metadata: jsonb("metadata"),
   url: text("url"),
   tags: varchar("tags").array(),
-  status: varchar("status").default('active'),
+  status: varchar("status").default('active'), // active, archived once its source no longer publishes it
   syncedAt: timestamp("synced_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("idx_solutions_external_source").on(table.externalId, table.dataSourceId),
+]);
 
 // User interactions tracking
 export const interactions = pgTable("interactions", {
@@ -125,6 +142,58 @@ export const cacheEntries = pgTable("cache_entries", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Organization-wide settings, one JSON document per key
+export const appSettings = pgTable("app_settings", {
+  key: varchar("key", { length: 100 }).primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Failed authentication counters keyed by scope and IP or account, used for lockouts
+export const authAttempts = pgTable("auth_attempts", {
+  key: varchar("key", { length: 255 }).primaryKey(), // e.g. login:account:jane@example.com
+  failures: integer("failures").notNull().default(0),
+  lockouts: integer("lockouts").notNull().default(0), // drives the exponential lockout duration
+  lockedUntil: timestamp("locked_until"),
+  lastFailureAt: timestamp("last_failure_at"),
+});
+
+// Append-only record of security-relevant and administrative actions
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  actorId: varchar("actor_id").references(() => users.id),
+  action: varchar("action", { length: 100 }).notNull(), // e.g. auth.lockout
+  targetType: varchar("target_type", { length: 50 }),
+  targetId: varchar("target_id"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  metadata: jsonb("metadata"),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_audit_events_created_at").on(table.createdAt),
+  index("idx_audit_events_action").on(table.action),
+]);
+
+// Personal and service-account API tokens, accepted as Authorization: Bearer
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(), // the identity the token acts as
+  name: varchar("name", { length: 100 }).notNull(),
+  tokenHash: varchar("token_hash").unique().notNull(), // sha256 of the full token, which is shown once
+  tokenPrefix: varchar("token_prefix", { length: 20 }).notNull(), // leading characters, to tell tokens apart in the UI
+  scopes: jsonb("scopes").$type<string[]>().notNull(), // permissions granted, capped by the user's role
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: varchar("last_used_ip", { length: 64 }),
+  revokedAt: timestamp("revoked_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_api_tokens_user_id").on(table.userId),
+]);
+
 // Notifications
 export const notifications = pgTable("notifications", {
   id: serial("id").primaryKey(),
@@ -162,6 +231,9 @@ export const dataSources = pgTable("data_sources", {
   nextSyncAt: timestamp("next_sync_at"),
   retryCount: integer("retry_count").default(0),
   lastError: text("last_error"),
+  circuitOpenedAt: timestamp("circuit_opened_at"), // set while syncing is paused after repeated failures
+  needsReauth: boolean("needs_reauth").default(false), // OAuth refresh was refused; the user must reconnect
+  webhookSecret: text("webhook_secret"), // encrypted; signs pushes to /api/webhooks/:id
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -187,6 +259,7 @@ export const incidents = pgTable("incidents", {
   metadata: jsonb("metadata"),
   syncedAt: timestamp("synced_at").defaultNow(),
   isActive: boolean("is_active").default(true),
+  staleSince: timestamp("stale_since"), // first sync that no longer returned this incident
 }, (table) => [
   index("idx_incidents_external_source").on(table.externalId, table.dataSourceId),
   index("idx_incidents_status").on(table.status),
@@ -199,6 +272,7 @@ export const incidents = pgTable("incidents", {
 export const incidentUpdates = pgTable("incident_updates", {
   id: serial("id").primaryKey(),
   incidentId: integer("incident_id").references(() => incidents.id),
+  externalId: varchar("external_id"), // the source's id for this update, used to dedupe synced updates
   updateType: varchar("update_type", { length: 50 }).notNull(), // status_change, new_update, resolved
   previousStatus: varchar("previous_status", { length: 50 }),
   newStatus: varchar("new_status", { length: 50 }),
@@ -207,6 +281,7 @@ export const incidentUpdates = pgTable("incident_updates", {
   metadata: jsonb("metadata"),
 }, (table) => [
   index("idx_incident_updates_incident").on(table.incidentId),
+  uniqueIndex("idx_incident_updates_external").on(table.incidentId, table.externalId),
   index("idx_incident_updates_timestamp").on(table.timestamp),
 ]);
 
@@ -229,6 +304,57 @@ export const serviceComponents = pgTable("service_components", {
   index("idx_service_components_status").on(table.status),
 ]);
 
+// Customer support tickets synced from help desks. Support links a ticket to
+// the incident it reports, and the link survives later syncs of the ticket.
+export const supportTickets = pgTable("support_tickets", {
+  id: serial("id").primaryKey(),
+  dataSourceId: integer("data_source_id").references(() => dataSources.id).notNull(),
+  externalId: varchar("external_id").notNull(),
+  incidentId: integer("incident_id").references(() => incidents.id),
+  subject: text("subject").notNull(),
+  description: text("description"),
+  status: varchar("status", { length: 20 }).notNull(), // new, open, pending, hold, solved, closed, deleted
+  priority: varchar("priority", { length: 20 }), // low, normal, high, urgent
+  type: varchar("type", { length: 20 }), // question, incident, problem, task
+  requester: varchar("requester", { length: 200 }),
+  assignee: varchar("assignee", { length: 200 }),
+  tags: varchar("tags").array(),
+  externalUrl: text("external_url"),
+  createdAt: timestamp("created_at"),
+  updatedAt: timestamp("updated_at"),
+  syncedAt: timestamp("synced_at").defaultNow(),
+  metadata: jsonb("metadata"),
+}, (table) => [
+  uniqueIndex("idx_support_tickets_external_source").on(table.externalId, table.dataSourceId),
+  index("idx_support_tickets_incident").on(table.incidentId),
+  index("idx_support_tickets_updated_at").on(table.updatedAt),
+]);
+
+// One row per sync of a data source, for the run history
+export const syncRuns = pgTable("sync_runs", {
+  id: serial("id").primaryKey(),
+  dataSourceId: integer("data_source_id").references(() => dataSources.id).notNull(),
+  trigger: varchar("trigger", { length: 20 }).notNull(), // schedule, manual, webhook
+  status: varchar("status", { length: 20 }).notNull(), // running, succeeded, failed
+  incremental: boolean("incremental").default(false), // fetched only what changed since the previous run
+  truncated: boolean("truncated").default(false), // a listing stopped at its page cap, leaving changes unread
+  resumeFrom: timestamp("resume_from"), // source update time the truncated listing reached, for the next run to continue from
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+  incidentsCreated: integer("incidents_created").default(0),
+  incidentsUpdated: integer("incidents_updated").default(0),
+  incidentsUnchanged: integer("incidents_unchanged").default(0),
+  incidentsResolved: integer("incidents_resolved").default(0), // closed by reconciliation after leaving the source
+  updatesCreated: integer("updates_created").default(0), // incident timeline entries added
+  componentsSynced: integer("components_synced").default(0),
+  solutionsSynced: integer("solutions_synced").default(0), // knowledge articles imported as solutions
+  ticketsSynced: integer("tickets_synced").default(0), // support tickets created or changed
+  error: text("error"),
+}, (table) => [
+  index("idx_sync_runs_source_started").on(table.dataSourceId, table.startedAt),
+]);
+
 // Real-time incident metrics for dashboards
 export const incidentMetrics = pgTable("incident_metrics", {
   id: serial("id").primaryKey(),
@@ -318,6 +444,7 @@ export const dataSourcesRelations = relations(dataSources, ({ many }) => ({
   incidents: many(incidents),
   serviceComponents: many(serviceComponents),
   incidentMetrics: many(incidentMetrics),
+  supportTickets: many(supportTickets),
 }));
 
 export const incidentsRelations = relations(incidents, ({ one, many }) => ({
@@ -326,6 +453,7 @@ export const incidentsRelations = relations(incidents, ({ one, many }) => ({
     references: [dataSources.id],
   }),
   updates: many(incidentUpdates),
+  supportTickets: many(supportTickets),
 }));
 
 export const incidentUpdatesRelations = relations(incidentUpdates, ({ one }) => ({
@@ -349,6 +477,17 @@ export const incidentMetricsRelations = relations(incidentMetrics, ({ one }) =>
   }),
 }));
 
+export const supportTicketsRelations = relations(supportTickets, ({ one }) => ({
+  dataSource: one(dataSources, {
+    fields: [supportTickets.dataSourceId],
+    references: [dataSources.id],
+  }),
+  incident: one(incidents, {
+    fields: [supportTickets.incidentId],
+    references: [incidents.id],
+  }),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -402,7 +541,6 @@ export const insertIncidentSchema = createInsertSchema(incidents).omit({
 
 export const insertIncidentUpdateSchema = createInsertSchema(incidentUpdates).omit({
   id: true,
-  timestamp: true,
 });
 
 export const insertServiceComponentSchema = createInsertSchema(serviceComponents).omit({
@@ -414,6 +552,11 @@ export const insertIncidentMetricSchema = createInsertSchema(incidentMetrics).om
   id: true,
 });
 
+export const insertSupportTicketSchema = createInsertSchema(supportTickets).omit({
+  id: true,
+  syncedAt: true,
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
@@ -431,16 +574,69 @@ export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type SearchQuery = typeof searchQueries.$inferSelect;
 export type InsertSearchQuery = z.infer<typeof insertSearchQuerySchema>;
 export type SystemConfiguration = typeof systemConfigurations.$inferSelect;
+export type AppSetting = typeof appSettings.$inferSelect;
+export type AuthAttempt = typeof authAttempts.$inferSelect;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = typeof apiTokens.$inferInsert;
+export type SyncRun = typeof syncRuns.$inferSelect;
+export type InsertSyncRun = typeof syncRuns.$inferInsert;
+export type SyncTrigger = 'schedule' | 'manual' | 'webhook';
 export type DataSource = typeof dataSources.$inferSelect;
 export type InsertDataSource = z.infer<typeof insertDataSourceSchema>;
 export type Incident = typeof incidents.$inferSelect;
 export type InsertIncident = z.infer<typeof insertIncidentSchema>;
 export type IncidentUpdate = typeof incidentUpdates.$inferSelect;
 export type InsertIncidentUpdate = z.infer<typeof insertIncidentUpdateSchema>;
+
+// Field-level change to a synced incident, detected by comparing consecutive syncs
+export interface IncidentTransition {
+  field: 'status' | 'severity' | 'impact' | 'affectedServices';
+  from: string | string[] | null;
+  to: string | string[] | null;
+}
+
+// Payload of the `incident_transition` WebSocket event
+export interface IncidentTransitionEvent {
+  incidentId: number;
+  dataSourceId: number;
+  title: string;
+  systemName: string;
+  updateType: 'resolved' | 'status_change' | 'severity_change' | 'new_update';
+  changes: IncidentTransition[];
+  timestamp: string;
+}
+
+export type ConnectorCapability = 'incidents' | 'components' | 'updates' | 'knowledge' | 'tickets' | 'webhooks' | 'write_back';
+
+// One input of a connector's config form, derived from its zod schema.
+// Nested keys such as `metadata.jql` address fields inside JSON columns.
+export interface ConnectorConfigField {
+  key: string;
+  label: string;
+  type: 'text' | 'url' | 'number' | 'boolean' | 'select' | 'secret';
+  required: boolean;
+  options?: string[];
+  defaultValue?: string | number | boolean;
+}
+
+// What `GET /api/connectors` reports about each registered connector type
+export interface ConnectorDescriptor {
+  type: string;
+  name: string;
+  description: string;
+  capabilities: ConnectorCapability[];
+  // 'oauth' sources are created by connecting the system, not through the form
+  connect: 'form' | 'oauth';
+  fields: ConnectorConfigField[];
+}
 export type ServiceComponent = typeof serviceComponents.$inferSelect;
 export type InsertServiceComponent = z.infer<typeof insertServiceComponentSchema>;
 export type IncidentMetric = typeof incidentMetrics.$inferSelect;
 export type InsertIncidentMetric = z.infer<typeof insertIncidentMetricSchema>;
+export type SupportTicket = typeof supportTickets.$inferSelect;
+export type InsertSupportTicket = z.infer<typeof insertSupportTicketSchema>;
 
 // Google Meet meetings table
 export const googleMeetings = pgTable("google_meetings", {
@@ -521,3 +717,16 @@ export type GoogleMeeting = typeof googleMeetings.$inferSelect;
 export type InsertGoogleMeeting = z.infer<typeof insertGoogleMeetingSchema>;
 export type GoogleToken = typeof googleTokens.$inferSelect;
 export type InsertGoogleToken = z.infer<typeof insertGoogleTokenSchema>;
+
+// Security settings stored under the "security" app setting
+export const securitySettingsSchema = z.object({
+  enforceSSO: z.boolean().default(false),
+  sessionTimeout: z.string().default("8"),
+  passwordPolicy: z.string().default("strong"),
+  enableAuditLog: z.boolean().default(true),
+  auditRetentionDays: z.number().int().min(30).max(3650).default(365), // older audit events are pruned daily
+  enableMFA: z.boolean().default(false), // require every user to enroll in TOTP
+  requireEmailVerification: z.boolean().default(false), // block password login until the address is confirmed
+});
+
+export type SecuritySettings = z.infer<typeof securitySettingsSchema>;